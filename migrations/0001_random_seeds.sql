@@ -0,0 +1,6 @@
+-- Migration number: 0001
+-- Seeded random picks: the commitment is published when a match starts, the seed is revealed once it is archived.
+ALTER TABLE tournament_matches ADD COLUMN random_seed_commitment TEXT;
+ALTER TABLE tournament_matches ADD COLUMN random_seed TEXT;
+ALTER TABLE semifinal_matches ADD COLUMN random_seed_commitment TEXT;
+ALTER TABLE semifinal_matches ADD COLUMN random_seed TEXT;
@@ -0,0 +1,9 @@
+-- Migration number: 0002
+-- Per-stage rulesets of the rules engine. A match uses the ruleset of its tournament_stage, then the 'default' row,
+-- then the built-in DEFAULT_RULESET.
+CREATE TABLE IF NOT EXISTS match_rulesets (
+    stage TEXT PRIMARY KEY,
+    ruleset_json TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+ALTER TABLE tournament_matches ADD COLUMN tournament_stage TEXT;
@@ -0,0 +1,10 @@
+-- Migration number: 0003
+-- Event log of a live match, copied from MatchDO storage when the match is archived (see MatchDO.replayEvents).
+CREATE TABLE IF NOT EXISTS match_events (
+    tournament_match_id INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    event_type TEXT NOT NULL,
+    payload_json TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (tournament_match_id, seq)
+);
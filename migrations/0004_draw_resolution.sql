@@ -0,0 +1,3 @@
+-- Migration number: 0004
+-- How a tied match was decided (DrawResolution as JSON), written when the match is archived.
+ALTER TABLE tournament_matches ADD COLUMN draw_resolution_json TEXT;
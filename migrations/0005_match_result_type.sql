@@ -0,0 +1,4 @@
+-- Migration number: 0005
+-- How a match was decided ('played', 'forfeit', 'disqualification' or 'double_no_show') and the reason an admin gave.
+ALTER TABLE tournament_matches ADD COLUMN result_type TEXT;
+ALTER TABLE tournament_matches ADD COLUMN result_reason TEXT;
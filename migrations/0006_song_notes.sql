@@ -0,0 +1,3 @@
+-- Migration number: 0006
+-- Note counts per difficulty of each chart, used to compute achievements from judgments.
+ALTER TABLE songs ADD COLUMN notes_json TEXT;
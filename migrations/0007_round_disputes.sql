@@ -0,0 +1,30 @@
+-- Migration number: 0007
+-- Evidence attached to a round and teams' protests against a round (an open protest blocks archiving the match).
+CREATE TABLE IF NOT EXISTS round_attachments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tournament_match_id INTEGER NOT NULL,
+    round_number_in_match INTEGER NOT NULL,
+    object_key TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    uploaded_by TEXT NOT NULL,
+    team_id INTEGER,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_round_attachments_match ON round_attachments (tournament_match_id, round_number_in_match);
+
+CREATE TABLE IF NOT EXISTS round_disputes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tournament_match_id INTEGER NOT NULL,
+    round_number_in_match INTEGER NOT NULL,
+    team_id INTEGER NOT NULL,
+    filed_by TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    ruling TEXT,
+    ruled_by TEXT,
+    ruled_at TEXT,
+    amendment_json TEXT,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_round_disputes_match ON round_disputes (tournament_match_id, status);
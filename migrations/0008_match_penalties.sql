@@ -0,0 +1,16 @@
+-- Migration number: 0008
+-- Penalties and bonuses issued by staff during a live match, copied from MatchDO as they are issued.
+CREATE TABLE IF NOT EXISTS match_penalties (
+    id TEXT PRIMARY KEY,
+    tournament_match_id INTEGER NOT NULL,
+    match_do_id TEXT NOT NULL,
+    team_id INTEGER NOT NULL,
+    category TEXT NOT NULL,
+    amount REAL NOT NULL,
+    reason TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    round_number_in_match INTEGER,
+    issued_by TEXT,
+    issued_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_match_penalties_match ON match_penalties (tournament_match_id);
@@ -5,30 +5,165 @@ import type {
     Member,
     MatchScheduleData,
     CalculateRoundPayload,
+    AmendRoundPayload,
+    AmendRoundResult,
+    AmendedRoundDiff,
+    FieldChange,
+    RoundVerificationResult,
     ResolveDrawPayload,
     InternalProfession,
     MatchSong,
     RoundSummary,
     SelectTiebreakerSongPayload,
+    InternalSelectTiebreakerPayload,
+    MatchSongPickerType,
+    TiebreakerDraw,
+    SeededRoll,
+    RoundEngineInput,
+    RoundPreview,
+    MatchRuleset,
+    MatchEvent,
+    MatchEventBody,
+    MatchReplayResult,
+    MatchTimer,
+    PauseMatchPayload,
+    LineupChangePayload,
+    LineupChange,
+    SongListEditPayload,
+    StartTimerPayload,
+    MatchPause,
+    MatchConnectionRole,
+    MatchConnectionAttachment,
+    MatchConnectionCounts,
+    StaffCommandName,
+    StaffCommandMessage,
+    StaffCommandReply,
+    MatchStateDelta,
+    MatchStateMessage,
+    D1Write,
+    D1OutboxEntry,
+    OutboxActionPayload,
+    AdministrativeResult,
+    RecordMatchResultPayload,
+    ScoreEntry,
+    ScoreEntryConflict,
+    ScoreEntryConflictMessage,
+    SelfReport,
+    InternalSelfReportPayload,
+    ReviewSelfReportPayload,
+    Penalty,
+    IssuePenaltyPayload,
     Song, // Import Song type
     SongLevel, // Import SongLevel type
     ApiResponse // Import ApiResponse if needed for internal responses, though DOs usually return Response directly
   } from '../types'; // Adjust path to your types file
-  
-  // Constants for game logic
-  const INITIAL_HEALTH = 100;
-  const MIRROR_HEALTH_RESTORE = 20;
-  const MAX_DAMAGE_DIGIT = 10; // 0% completion corresponds to 10 damage
-  const STANDARD_ROUNDS_COUNT = 6; // Number of standard rounds (BO6)
-  
+  import { generateRandomSeed, computeSeedCommitment, deriveSeededRoll, defenderRollLabel, tiebreakerRollLabel, rollToIndex } from '../utils/seededRandom';
+  import { filterTiebreakerPool, loadTiebreakerPoolSongs } from '../utils/tiebreakerPool';
+  import { evaluateDrawResolution } from '../utils/drawResolution';
+  import { calculateRound, previewRound, resolveRuleset, DEFAULT_RULESET } from '../utils/roundEngine';
+  import { diffJson } from '../utils/jsonPatch';
+  import { rotationSlot } from '../utils/playerRotation';
+  import { elementOfColor, songElementOfCategory } from '../utils/elements';
+  import { BREAK_JUDGMENTS, JUDGMENTS, NOTE_TYPES, calculateAchievement, difficultyKeyOf, parseChartNoteCounts, validateJudgments } from '../utils/achievementCalculator';
+  import { canonicalPercentage, percentageError } from '../utils/percentage';
+  import { legacyEffectPenalties, penaltyPayloadError } from '../utils/penalties';
+  
+  // Game logic constants (health, mirrors, damage digits, round count) live in the ruleset, see utils/roundEngine.ts
+
+  // Storage key prefix for per-round snapshots of MatchState (taken right before a round is calculated).
+  // Round numbers are zero-padded so storage.list() returns them in round order.
+  const ROUND_SNAPSHOT_PREFIX = 'roundSnapshot:';
+  // Storage key prefix for the RoundSummary of each calculated round (inputs + defender picks),
+  // used to replay later rounds when an earlier round is amended.
+  const ROUND_SUMMARY_PREFIX = 'roundSummary:';
+
+  // Storage key of the per-match random seed. Kept outside matchData so it is never broadcast before the match is archived.
+  const RANDOM_SEED_KEY = 'randomSeed';
+
+  // Storage key prefix of the match event log (one MatchEvent per command, zero-padded sequence numbers).
+  // The log is copied to D1 match_events when the match is archived.
+  const MATCH_EVENT_PREFIX = 'matchEvent:';
+
+  // WebSocket connections are accepted through the hibernation API and tagged with their role and team,
+  // e.g. ['role:overlay', 'team:teamA'], so they survive the object being evicted from memory.
+  const CONNECTION_ROLES: MatchConnectionRole[] = ['spectator', 'staff', 'overlay'];
+  // Plain-text heartbeat answered by the runtime without waking the object
+  const HEARTBEAT_PING = 'ping';
+  const HEARTBEAT_PONG = 'pong';
+
+  // Storage key of the broadcast state version. Kept outside matchData so undo/amend (which restore matchData snapshots)
+  // never move it backwards.
+  const STATE_VERSION_KEY = 'stateVersion';
+  // Number of recent deltas kept in memory for resync; older gaps (or any gap after a restart) get a snapshot
+  const RECENT_DELTA_LIMIT = 100;
+  // Comment line sent on idle Server-Sent Events streams so proxies keep them open
+  const SSE_KEEP_ALIVE_INTERVAL_MS = 15000;
+
+  // Song timers: the alarm fires every tick while a timer runs and each tick is broadcast as a 'timer_tick' message
+  const TIMER_TICK_MS = 1000;
+  const TIMER_PHASES: MatchTimer['phase'][] = ['warmup', 'play', 'score_entry'];
+  const sseEncoder = new TextEncoder();
+
+  // Durable outbox of D1 writes: entries are flushed in order, and a failed head entry is retried from the alarm
+  // with exponential backoff so round history and the final result cannot silently go missing
+  const OUTBOX_PREFIX = 'outbox:';
+  const OUTBOX_RETRY_BASE_MS = 5000;
+  const OUTBOX_RETRY_MAX_MS = 5 * 60 * 1000;
+  // After this many failed attempts an entry is dead-lettered: it stays in the outbox for an admin to retry or discard,
+  // and later entries are written without it (most are upserts of their own rows, so order matters less than progress)
+  const OUTBOX_MAX_ATTEMPTS = 10;
+
+  // Set by the Worker after the Kinde admin check on staff WebSocket upgrades and score submissions (and stripped from
+  // every other upgrade); set by MatchDO itself when it runs a staff command
+  export const STAFF_USER_HEADER = 'X-Staff-Kinde-User-Id';
+
+  // Internal routes run for staff commands sent over the WebSocket, so commands get exactly the same validation as HTTP
+  const STAFF_COMMAND_PATHS: Record<StaffCommandName, string> = {
+    'calculate-round': '/internal/calculate-round',
+    'next-round': '/internal/next-round',
+    'resolve-draw': '/internal/resolve-draw',
+    'select-tiebreaker': '/internal/select-tiebreaker-song',
+    'archive': '/internal/archive-match',
+    'pause': '/internal/pause',
+    'resume': '/internal/resume',
+    'start-timer': '/internal/start-timer',
+    'stop-timer': '/internal/stop-timer',
+    'change-lineup': '/internal/change-lineup',
+    'edit-song-list': '/internal/edit-song-list',
+    'review-self-report': '/internal/review-self-report',
+    'issue-penalty': '/internal/issue-penalty',
+  };
+
+  // Fields two referees must agree on in dual-entry mode (judgments only when both entered them)
+  const SCORE_ENTRY_FIELDS: (keyof CalculateRoundPayload)[] = [
+      'teamA_percentage', 'teamB_percentage',
+      'teamA_judgments', 'teamB_judgments',
+  ];
+
+  // Fields compared when reporting what an amended or verified round changed
+  const ROUND_DIFF_FIELDS: (keyof RoundSummary)[] = [
+      'teamA_percentage', 'teamB_percentage',
+      'teamA_effect_value_applied', 'teamB_effect_value_applied',
+      'teamA_final_damage_dealt', 'teamB_final_damage_dealt',
+      'teamA_modified_damage_to_B', 'teamB_modified_damage_to_A',
+      'teamA_health_before_round', 'teamB_health_before_round',
+      'teamA_mirror_triggered', 'teamB_mirror_triggered',
+      'teamA_health_after', 'teamB_health_after',
+  ];
+  const MATCH_DIFF_FIELDS: (keyof MatchState)[] = [
+      'status', 'current_match_song_index',
+      'teamA_score', 'teamB_score',
+      'teamA_mirror_available', 'teamB_mirror_available',
+  ];
+
   // Default state for a new match (fallback, initialization should come from schedule)
   // This is used only if no state is found in storage AND no initialization request is received.
   // The initializeFromSchedule method is the primary way to set up a match.
   const defaultMatchState: Omit<MatchState, 'match_do_id' | 'tournament_match_id' | 'round_name' | 'teamA_id' | 'teamB_id' | 'teamA_name' | 'teamB_name' | 'teamA_player_order_ids' | 'teamB_player_order_ids' | 'match_song_list'> = {
     status: 'archived', // Default to archived if not initialized properly
     current_match_song_index: 0,
-    teamA_score: INITIAL_HEALTH,
-    teamB_score: INITIAL_HEALTH,
+    teamA_score: DEFAULT_RULESET.initial_health,
+    teamB_score: DEFAULT_RULESET.initial_health,
     teamA_current_player_id: null,
     teamB_current_player_id: null, // Corrected duplicate key
     teamA_current_player_nickname: '未知选手',
@@ -47,18 +182,39 @@ import type {
     env: Env;
     matchData: MatchState | null = null;
     match_do_id: string;
-    websockets: WebSocket[] = [];
+    // Sockets with a staff command in flight, and the close they should get once the reply is sent
+    // (e.g. archiving closes every connection, but the sender still needs its ack)
+    private commandSockets = new Map<WebSocket, { code: number; reason: string } | null>();
+    // Broadcast state versioning: the last state sent to clients and the deltas that led to it
+    private stateVersion = 0;
+    private lastBroadcastState: MatchState | null = null;
+    private recentDeltas: MatchStateDelta[] = [];
+    // Sequence number of the last event in the log
+    private eventSeq = 0;
+    // Id of the last entry queued in the D1 outbox, and whether a flush is running
+    private outboxSeq = 0;
+    private flushingOutbox = false;
+    // Open Server-Sent Events streams (GET /events). Unlike hibernatable WebSockets these keep the object in memory.
+    private sseClients = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+    private sseKeepAlive: ReturnType<typeof setInterval> | null = null;
   
     constructor(state: DurableObjectState, env: Env) {
         this.state = state;
         this.env = env;
         // The DO ID is a 64-hex-digit string derived by the Worker using idFromName
         this.match_do_id = state.id.toString();
+        // Answer heartbeats while hibernated
+        this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair(HEARTBEAT_PING, HEARTBEAT_PONG));
   
         // Block concurrent requests while loading state from storage
         this.state.blockConcurrencyWhile(async () => {
             console.log(`DO (${this.match_do_id}): Loading state from storage.`);
             const storedMatchData = await this.state.storage.get<MatchState>('matchData');
+            this.stateVersion = (await this.state.storage.get<number>(STATE_VERSION_KEY)) ?? 0;
+            const lastEvent = await this.state.storage.list<MatchEvent>({ prefix: MATCH_EVENT_PREFIX, reverse: true, limit: 1 });
+            this.eventSeq = Array.from(lastEvent.values())[0]?.seq ?? 0;
+            const lastOutboxEntry = await this.state.storage.list<D1OutboxEntry>({ prefix: OUTBOX_PREFIX, reverse: true, limit: 1 });
+            this.outboxSeq = Array.from(lastOutboxEntry.values())[0]?.id ?? 0;
   
             if (storedMatchData) {
                 this.matchData = storedMatchData;
@@ -130,7 +286,7 @@ import type {
                     current_match_song_index: 0,
                     teamA_id: -1, teamB_id: -1, // Indicate teams not yet set
                     teamA_name: '未知队伍A', teamB_name: '未知队伍B',
-                    teamA_score: INITIAL_HEALTH, teamB_score: INITIAL_HEALTH,
+                    teamA_score: DEFAULT_RULESET.initial_health, teamB_score: DEFAULT_RULESET.initial_health,
                     teamA_player_order_ids: [], teamB_player_order_ids: [],
                     teamA_current_player_id: null, teamB_current_player_id: null,
                     teamA_current_player_nickname: '未知选手', teamB_current_player_nickname: '未知选手',
@@ -171,54 +327,229 @@ import type {
         return member?.nickname || '未知选手';
     }
   
-    // Helper to parse damage digits from percentage (0-101.0000)
-    // 0% -> 10, 100% -> 0, 101%+ -> 0
-    // This logic is kept from the original TS, assuming it's the intended way
-    // to get the 4 base digits from the percentage input.
-    private parseDamageDigits(percentage: number): number[] {
-        // Clamp percentage between 0 and 101 for consistent handling
-        const clampedPercentage = Math.max(0, Math.min(101.0000, percentage));
-        // Convert to string with 4 decimal places
-        const percentageString = clampedPercentage.toFixed(4);
-        const parts = percentageString.split('.');
   
-        if (parts.length !== 2) {
-            console.error(`DO (${this.match_do_id}): Unexpected percentage format after toFixed: ${percentageString} (original: ${percentage})`);
-            // Fallback to max damage digits if parsing fails
-            return [MAX_DAMAGE_DIGIT, MAX_DAMAGE_DIGIT, MAX_DAMAGE_DIGIT, MAX_DAMAGE_DIGIT];
-        }
   
-        const digitsString = parts[1];
-        const digits: number[] = [];
-        for (let i = 0; i < 4; i++) {
-            const digitChar = digitsString[i] || '0'; // Use '0' if string is shorter than 4
-            const digit = parseInt(digitChar, 10);
-            // Convert 0 digit to MAX_DAMAGE_DIGIT (10)
-            digits.push(digit === 0 ? MAX_DAMAGE_DIGIT : digit);
+    // Broadcast a message to all connected WebSockets (except `exclude`).
+    // The match state itself goes out as a versioned delta, see broadcastState.
+    private broadcast(message: object | string, exclude?: WebSocket) {
+        if (message === this.matchData && this.matchData) {
+            this.broadcastState(exclude);
+            return;
         }
-        return digits;
-    }
-  
-  
-    // Broadcast the current match state to all connected WebSockets
-    private broadcast(message: object | string) {
         const payload = typeof message === 'string' ? message : JSON.stringify(message);
-        // Filter out closed connections before broadcasting
-        this.websockets = this.websockets.filter(ws => ws.readyState === WebSocket.OPEN);
-        this.websockets.forEach((ws) => {
-            try {
-                ws.send(payload);
-            } catch (e) {
-                console.error(`DO (${this.match_do_id}) Error sending message to WebSocket:`, e);
-                // Consider removing the socket if sending fails
-                // this.websockets = this.websockets.filter(w => w !== ws);
+        this.getOpenWebSockets().forEach((ws) => {
+            if (ws !== exclude) this.sendToWebSocket(ws, payload);
+        });
+        const eventName = typeof message === 'object' && typeof (message as { type?: unknown }).type === 'string' ? (message as { type: string }).type : 'message';
+        this.sseClients.forEach(writer => this.writeSseEvent(writer, eventName, payload));
+    }
+
+    private sendToWebSocket(ws: WebSocket, payload: string): void {
+        try {
+            ws.send(payload);
+        } catch (e) {
+            console.error(`DO (${this.match_do_id}) Error sending message to WebSocket:`, e);
+            // The socket is unusable, close it so the runtime drops it
+            this.closeWebSocket(ws, 1011, 'Failed to send message');
+        }
+    }
+
+    // Bumps the state version and sends the change since the last broadcast: a JSON-Patch delta to 'delta' connections
+    // (a snapshot if there is no previous state in memory) and the whole state to 'full' connections.
+    private broadcastState(exclude?: WebSocket): void {
+        const state = this.buildBroadcastState();
+        const ops = this.lastBroadcastState ? diffJson(this.lastBroadcastState, state) : null;
+        if (ops && ops.length === 0) {
+            return; // Nothing visible changed
+        }
+        const baseVersion = this.stateVersion;
+        this.setBroadcastState(state);
+
+        let deltaPayload: string | null = null;
+        if (ops) {
+            const delta: MatchStateDelta = { version: this.stateVersion, base_version: baseVersion, ops };
+            this.recentDeltas.push(delta);
+            if (this.recentDeltas.length > RECENT_DELTA_LIMIT) this.recentDeltas.shift();
+            const message: MatchStateMessage = { type: 'delta', ...delta };
+            deltaPayload = JSON.stringify(message);
+        }
+        const snapshotPayload = this.snapshotPayload('delta');
+        const fullPayload = this.snapshotPayload('full');
+
+        this.getOpenWebSockets().forEach((ws) => {
+            if (ws === exclude) return;
+            const format = (ws.deserializeAttachment() as MatchConnectionAttachment | null)?.format ?? 'delta';
+            this.sendToWebSocket(ws, format === 'full' ? fullPayload : deltaPayload ?? snapshotPayload);
+        });
+        this.sseClients.forEach(writer => this.writeSseEvent(writer, deltaPayload ? 'delta' : 'snapshot', deltaPayload ?? snapshotPayload, this.stateVersion));
+    }
+
+    // Records `state` as the latest broadcast state under a new version
+    private setBroadcastState(state: MatchState): void {
+        this.stateVersion++;
+        this.lastBroadcastState = state;
+        // Not awaited: the output gate holds the outgoing messages until the write is confirmed
+        this.state.storage.put(STATE_VERSION_KEY, this.stateVersion);
+    }
+
+    // Deep copy of the state as clients see it (see toClientState), safe to keep while matchData keeps changing
+    private buildBroadcastState(): MatchState {
+        return this.toClientState(structuredClone(this.matchData as MatchState));
+    }
+
+    private snapshotPayload(format: MatchConnectionAttachment['format']): string {
+        const state = this.lastBroadcastState as MatchState;
+        if (format === 'full') {
+            return JSON.stringify({ ...state, state_version: this.stateVersion });
+        }
+        const message: MatchStateMessage = { type: 'snapshot', version: this.stateVersion, state };
+        return JSON.stringify(message);
+    }
+
+    // Starts a new version from the current state if nothing was broadcast since a restart, so a snapshot can be sent
+    private ensureBroadcastBaseline(): void {
+        if (!this.lastBroadcastState) {
+            this.setBroadcastState(this.buildBroadcastState());
+            this.recentDeltas = [];
+        }
+    }
+
+    // Sends the latest broadcast state to one connection
+    private sendSnapshot(ws: WebSocket): void {
+        if (!this.matchData) return;
+        this.ensureBroadcastBaseline();
+        const format = (ws.deserializeAttachment() as MatchConnectionAttachment | null)?.format ?? 'delta';
+        this.sendToWebSocket(ws, this.snapshotPayload(format));
+    }
+
+    // Deltas a client holding version `since` is missing ([] when it is up to date),
+    // or null if they are no longer all in memory and the client needs a snapshot
+    private missingDeltas(since: unknown): MatchStateDelta[] | null {
+        if (typeof since !== 'number' || !this.lastBroadcastState) return null;
+        if (since === this.stateVersion) return [];
+        const missing = this.recentDeltas.filter(delta => delta.base_version >= since);
+        return missing.length > 0 && missing[0].base_version === since ? missing : null;
+    }
+
+    // Answers { type: 'resync', since }: the deltas after `since` if they are all still in memory, otherwise a snapshot.
+    // Nothing is sent when the client is already up to date.
+    private handleResync(ws: WebSocket, since: unknown): void {
+        const missing = this.missingDeltas(since);
+        if (!missing) {
+            this.sendSnapshot(ws);
+            return;
+        }
+        missing.forEach((delta) => {
+            const message: MatchStateMessage = { type: 'delta', ...delta };
+            this.sendToWebSocket(ws, JSON.stringify(message));
+        });
+    }
+
+    // Opens a Server-Sent Events stream carrying the same snapshot/delta messages as 'delta' WebSockets.
+    // Event ids are state versions, so a reconnecting EventSource resumes from its Last-Event-ID.
+    private openSseStream(lastEventId: string | null): Response {
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        const writer = writable.getWriter();
+        this.sseClients.add(writer);
+        if (!this.sseKeepAlive) {
+            this.sseKeepAlive = setInterval(() => {
+                this.sseClients.forEach(client => this.writeSse(client, ': keep-alive\n\n'));
+            }, SSE_KEEP_ALIVE_INTERVAL_MS);
+        }
+
+        this.writeSse(writer, 'retry: 3000\n\n');
+        const since = lastEventId !== null && /^\d+$/.test(lastEventId) ? parseInt(lastEventId, 10) : null;
+        const missing = this.missingDeltas(since);
+        if (missing) {
+            missing.forEach((delta) => {
+                const message: MatchStateMessage = { type: 'delta', ...delta };
+                this.writeSseEvent(writer, 'delta', JSON.stringify(message), delta.version);
+            });
+        } else if (this.matchData) {
+            this.ensureBroadcastBaseline();
+            this.writeSseEvent(writer, 'snapshot', this.snapshotPayload('delta'), this.stateVersion);
+        }
+        console.log(`DO (${this.match_do_id}) SSE stream opened (Last-Event-ID: ${lastEventId ?? 'none'}). Total: ${this.sseClients.size}`);
+
+        return new Response(readable, {
+            headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' },
+        });
+    }
+
+    private writeSseEvent(writer: WritableStreamDefaultWriter<Uint8Array>, event: string, data: string, id?: number): void {
+        const idLine = id !== undefined ? `id: ${id}\n` : '';
+        this.writeSse(writer, `${idLine}event: ${event}\ndata: ${data}\n\n`);
+    }
+
+    // Writes to one stream, dropping it once the client has gone away
+    private writeSse(writer: WritableStreamDefaultWriter<Uint8Array>, chunk: string): void {
+        writer.write(sseEncoder.encode(chunk)).catch(() => this.closeSseStream(writer));
+    }
+
+    private closeSseStream(writer: WritableStreamDefaultWriter<Uint8Array>): void {
+        if (!this.sseClients.delete(writer)) return;
+        writer.close().catch(() => { /* Already closed or errored */ });
+        if (this.sseClients.size === 0 && this.sseKeepAlive) {
+            clearInterval(this.sseKeepAlive);
+            this.sseKeepAlive = null;
+        }
+        console.log(`DO (${this.match_do_id}) SSE stream closed. Remaining: ${this.sseClients.size}`);
+    }
+
+    // Close every WebSocket and SSE stream, e.g. once the match has ended
+    private closeAllConnections(code: number, reason: string): void {
+        this.closeAllWebSockets(code, reason);
+        this.sseClients.forEach(writer => this.closeSseStream(writer));
+    }
+
+    // Open WebSockets accepted by this object, optionally only those with a given tag (e.g. 'role:staff')
+    private getOpenWebSockets(tag?: string): WebSocket[] {
+        return this.state.getWebSockets(tag).filter(ws => ws.readyState === WebSocket.OPEN);
+    }
+
+    private closeAllWebSockets(code: number, reason: string): void {
+        this.state.getWebSockets().forEach(ws => {
+            if (this.commandSockets.has(ws)) {
+                this.commandSockets.set(ws, { code, reason });
+                return;
             }
+            this.closeWebSocket(ws, code, reason);
         });
     }
+
+    private closeWebSocket(ws: WebSocket, code: number, reason: string): void {
+        try {
+            ws.close(code, reason);
+        } catch (e) {
+            // Already closed
+        }
+    }
+
+    private getConnectionCounts(): MatchConnectionCounts {
+        const counts: MatchConnectionCounts = { total: 0, spectator: 0, staff: 0, overlay: 0 };
+        for (const role of CONNECTION_ROLES) {
+            counts[role] = this.getOpenWebSockets(`role:${role}`).length;
+            counts.total += counts[role];
+        }
+        return counts;
+    }
+
+    // The state as clients see it: with connection counts, and without the referees' score entries of the current round.
+    // Clients only learn how many referees have entered it; a conflict goes to those referees through alertReferees.
+    private toClientState(state: MatchState): MatchState {
+        const { score_entries, score_entry_conflict, ...visible } = state;
+        const round = state.current_match_song_index + 1;
+        const referees = new Set((score_entries ?? []).filter(entry => entry.round_number_in_match === round).map(entry => entry.kinde_user_id));
+        return { ...visible, score_entries_received: referees.size, connections: this.getConnectionCounts() };
+    }
   
-    // Determine the winner team ID based on final scores
-    private determineWinnerTeamId(state: { teamA_score: number; teamB_score: number; teamA_id: number; teamB_id: number }): number | null {
-        if (state.teamA_score > state.teamB_score) {
+    // Determine the winner team ID: a decided status wins (e.g. a draw resolved on total percentage), else the final scores
+    private determineWinnerTeamId(state: { status: MatchState['status']; teamA_score: number; teamB_score: number; teamA_id: number; teamB_id: number }): number | null {
+        if (state.status === 'team_A_wins') {
+            return state.teamA_id;
+        } else if (state.status === 'team_B_wins') {
+            return state.teamB_id;
+        } else if (state.teamA_score > state.teamB_score) {
             return state.teamA_id;
         } else if (state.teamB_score > state.teamA_score) {
             return state.teamB_id;
@@ -227,22 +558,196 @@ import type {
         }
     }
   
+    // Helper to get the player order of a team in a given round (1-based): the scheduled order,
+    // or the order of the latest lineup change in effect by then
+    private getPlayerOrder(state: MatchState, team: 'teamA' | 'teamB', roundNumber: number): number[] {
+        let order = team === 'teamA' ? state.teamA_player_order_ids : state.teamB_player_order_ids;
+        for (const change of state.lineup_changes ?? []) {
+            if (change.team === team && change.from_round <= roundNumber) {
+                order = change.player_order_ids;
+            }
+        }
+        return order ?? [];
+    }
+
     // Helper to get the current players based on song index and player order
     private getCurrentPlayers(state: MatchState): { playerAId: number | null, playerBId: number | null } {
-        // Use modulo to cycle through the player order list
-        const playerAId = state.teamA_player_order_ids && state.teamA_player_order_ids.length > 0
-            ? state.teamA_player_order_ids[state.current_match_song_index % state.teamA_player_order_ids.length]
-            : null;
-        const playerBId = state.teamB_player_order_ids && state.teamB_player_order_ids.length > 0
-            ? state.teamB_player_order_ids[state.current_match_song_index % state.teamB_player_order_ids.length]
-            : null;
+        const roundNumber = state.current_match_song_index + 1;
+        const orderA = this.getPlayerOrder(state, 'teamA', roundNumber);
+        const orderB = this.getPlayerOrder(state, 'teamB', roundNumber);
+        // The ruleset's rotation picks the position in each team's order
+        const { rotation, songs_per_player } = resolveRuleset(state.ruleset);
+        const slotA = rotationSlot(rotation, state.current_match_song_index, orderA.length, songs_per_player);
+        const slotB = rotationSlot(rotation, state.current_match_song_index, orderB.length, songs_per_player);
+        const playerAId = slotA !== null ? orderA[slotA] : null;
+        const playerBId = slotB !== null ? orderB[slotB] : null;
         return { playerAId, playerBId };
     }
-  
+
+    // Helper to fill in the teamX_current_player_* fields for the current round of a state
+    private setCurrentPlayers(state: MatchState): void {
+        const { playerAId, playerBId } = this.getCurrentPlayers(state);
+        const memberA = this.getMemberById(playerAId, state.teamA_members);
+        const memberB = this.getMemberById(playerBId, state.teamB_members);
+
+        state.teamA_current_player_id = playerAId;
+        state.teamB_current_player_id = playerBId;
+        state.teamA_current_player_nickname = memberA?.nickname || '未知选手';
+        state.teamB_current_player_nickname = memberB?.nickname || '未知选手';
+        state.teamA_current_player_profession = this.getInternalProfession(memberA?.job);
+        state.teamB_current_player_profession = this.getInternalProfession(memberB?.job);
+    }
+
+    // Helper to build the storage key of the snapshot taken before a given round (1-based) was calculated
+    private roundSnapshotKey(roundNumber: number): string {
+        return `${ROUND_SNAPSHOT_PREFIX}${String(roundNumber).padStart(4, '0')}`;
+    }
+
+    // Helper to derive both teams' 矩盾手 rolls for a round (1-based) from the match seed.
+    // Returns null for matches initialized before seeding was introduced (no seed in storage).
+    private async rollDefenderTargets(roundNumber: number): Promise<{ teamA: SeededRoll; teamB: SeededRoll } | null> {
+        const seed = await this.state.storage.get<string>(RANDOM_SEED_KEY);
+        if (!seed) {
+            return null;
+        }
+        return {
+            teamA: await deriveSeededRoll(seed, defenderRollLabel(roundNumber, 'teamA')),
+            teamB: await deriveSeededRoll(seed, defenderRollLabel(roundNumber, 'teamB')),
+        };
+    }
+
+    // Helper to build the storage key of the event with a given sequence number (1-based)
+    private matchEventKey(seq: number): string {
+        return `${MATCH_EVENT_PREFIX}${String(seq).padStart(6, '0')}`;
+    }
+
+    // Helper to append a command to the event log: returns the storage entry to put together with the new state.
+    // Commands whose state records a time pass it as createdAt, so replaying the event restores the same time.
+    private nextEventEntry(body: MatchEventBody, createdAt: string = new Date().toISOString()): Record<string, MatchEvent> {
+        this.eventSeq++;
+        const event = { ...body, seq: this.eventSeq, created_at: createdAt } as MatchEvent;
+        return { [this.matchEventKey(this.eventSeq)]: event };
+    }
+
+    private outboxKey(id: number): string {
+        return `${OUTBOX_PREFIX}${String(id).padStart(6, '0')}`;
+    }
+
+    // Helper to queue D1 writes: returns the storage entry to put together with the state change that caused them.
+    // Call flushOutbox() once the put has succeeded.
+    private nextOutboxEntry(description: string, statements: D1Write[]): Record<string, D1OutboxEntry> {
+        this.outboxSeq++;
+        const now = new Date().toISOString();
+        const entry: D1OutboxEntry = { id: this.outboxSeq, description, statements, attempts: 0, created_at: now, next_attempt_at: now, last_error: null };
+        return { [this.outboxKey(this.outboxSeq)]: entry };
+    }
+
+    private async listOutbox(): Promise<D1OutboxEntry[]> {
+        const entries = await this.state.storage.list<D1OutboxEntry>({ prefix: OUTBOX_PREFIX });
+        return Array.from(entries.values());
+    }
+
+    // Entries still to be written, in id order (dead-lettered entries wait for an admin)
+    private async listPendingOutbox(): Promise<D1OutboxEntry[]> {
+        return (await this.listOutbox()).filter(entry => !entry.dead_lettered_at);
+    }
+
+    // Run queued D1 writes in order until the outbox is empty or an entry fails.
+    // A failed entry stays at the head (later entries may depend on it) and is retried from the alarm with backoff,
+    // until it has failed OUTBOX_MAX_ATTEMPTS times and is dead-lettered.
+    private async flushOutbox(): Promise<{ pending: number; dead_lettered: number; last_error: string | null }> {
+        if (!this.flushingOutbox) {
+            this.flushingOutbox = true;
+            try {
+                let entries = await this.listPendingOutbox();
+                while (entries.length > 0) {
+                    const entry = entries[0];
+                    try {
+                        await this.env.DB.batch(entry.statements.map(write => this.env.DB.prepare(write.sql).bind(...write.params)));
+                        await this.state.storage.delete(this.outboxKey(entry.id));
+                        console.log(`DO (${this.match_do_id}) D1 outbox entry ${entry.id} written: ${entry.description}`);
+                    } catch (e: any) {
+                        entry.attempts++;
+                        entry.last_error = e.message ?? String(e);
+                        const backoff = Math.min(OUTBOX_RETRY_MAX_MS, OUTBOX_RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+                        entry.next_attempt_at = new Date(Date.now() + backoff).toISOString();
+                        if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+                            entry.dead_lettered_at = new Date().toISOString();
+                            await this.state.storage.put(this.outboxKey(entry.id), entry);
+                            console.error(`DO (${this.match_do_id}) D1 outbox entry ${entry.id} dead-lettered after ${entry.attempts} attempts: ${entry.description}`, e);
+                        } else {
+                            await this.state.storage.put(this.outboxKey(entry.id), entry);
+                            console.error(`DO (${this.match_do_id}) D1 outbox entry ${entry.id} failed (attempt ${entry.attempts}), retrying in ${backoff}ms:`, e);
+                            break;
+                        }
+                    }
+                    entries = await this.listPendingOutbox();
+                }
+            } finally {
+                this.flushingOutbox = false;
+            }
+            await this.scheduleAlarm();
+        }
+        const outbox = await this.listOutbox();
+        const pending = outbox.filter(entry => !entry.dead_lettered_at);
+        return { pending: pending.length, dead_lettered: outbox.length - pending.length, last_error: (pending[0] ?? outbox[0])?.last_error ?? null };
+    }
+
+    // Admin action on the outbox: retry moves a dead-lettered entry back into the queue, discard drops an entry
+    // (its D1 writes are lost, so only for writes an admin has applied by hand or knows to be obsolete)
+    private async applyOutboxAction(payload: OutboxActionPayload): Promise<{ success: boolean; message?: string }> {
+        const action = payload.action ?? 'flush';
+        if (action !== 'flush') {
+            const entry = typeof payload.id === 'number' ? await this.state.storage.get<D1OutboxEntry>(this.outboxKey(payload.id)) : undefined;
+            if (!entry) {
+                return { success: false, message: `Outbox entry ${payload.id} not found.` };
+            }
+            if (action === 'retry') {
+                if (!entry.dead_lettered_at) {
+                    return { success: false, message: `Outbox entry ${entry.id} is not dead-lettered.` };
+                }
+                await this.state.storage.put(this.outboxKey(entry.id), { ...entry, attempts: 0, next_attempt_at: new Date().toISOString(), dead_lettered_at: null });
+                console.log(`DO (${this.match_do_id}) D1 outbox entry ${entry.id} re-queued: ${entry.description}`);
+            } else if (action === 'discard') {
+                await this.state.storage.delete(this.outboxKey(entry.id));
+                console.warn(`DO (${this.match_do_id}) D1 outbox entry ${entry.id} discarded: ${entry.description}`);
+            } else {
+                return { success: false, message: "action must be 'flush', 'retry' or 'discard'." };
+            }
+        }
+        await this.flushOutbox();
+        return { success: true };
+    }
+
+    // The alarm is shared by the song timer and outbox retries: set it for whichever is due first
+    private async scheduleAlarm(): Promise<void> {
+        const now = Date.now();
+        const due: number[] = [];
+        const timer = this.matchData?.timer;
+        if (timer && !timer.expired && timer.ends_at && this.matchData?.status !== 'paused') {
+            due.push(now + Math.max(0, Math.min(TIMER_TICK_MS, Date.parse(timer.ends_at) - now)));
+        }
+        const headEntry = (await this.listPendingOutbox())[0];
+        if (headEntry) {
+            due.push(Math.max(now, Date.parse(headEntry.next_attempt_at)));
+        }
+
+        if (due.length > 0) {
+            await this.state.storage.setAlarm(Math.min(...due));
+        } else {
+            await this.state.storage.deleteAlarm();
+        }
+    }
+
+    // Helper to build the storage key of the stored summary of a given round (1-based)
+    private roundSummaryKey(roundNumber: number): string {
+        return `${ROUND_SUMMARY_PREFIX}${String(roundNumber).padStart(4, '0')}`;
+    }
+
   
     // --- Internal Method: Initialize from Schedule ---
     // Called by the Worker when a match is started live.
-    private async initializeFromSchedule(scheduleData: MatchScheduleData): Promise<{ success: boolean; message?: string }> {
+    private async initializeFromSchedule(scheduleData: MatchScheduleData): Promise<{ success: boolean; message?: string; randomSeedCommitment?: string | null }> {
         console.log(`DO (${this.match_do_id}): Initializing from schedule for tournament match ${scheduleData.tournamentMatchId}`);
   
         // If the DO is already initialized for this match and not archived,
@@ -251,9 +756,18 @@ import type {
         if (this.matchData?.tournament_match_id === scheduleData.tournamentMatchId && this.matchData?.status !== 'archived') {
             console.log(`DO (${this.match_do_id}): Match ${scheduleData.tournamentMatchId} already initialized. Broadcasting current state.`);
             this.broadcast(this.matchData);
-            return { success: true, message: "Match already initialized." };
+            return { success: true, message: "Match already initialized.", randomSeedCommitment: this.matchData.random_seed_commitment ?? null };
         }
   
+        // Clearing storage would lose D1 writes that have not gone through yet: try them once more, and refuse if any remain
+        // (dead-lettered entries included, until an admin retries or discards them)
+        const outbox = await this.flushOutbox();
+        if (outbox.pending > 0 || outbox.dead_lettered > 0) {
+            const msg = `${outbox.pending} D1 writes of the previous match are still pending and ${outbox.dead_lettered} dead-lettered (${outbox.last_error}). Retry once the outbox is empty.`;
+            console.error(`DO (${this.match_do_id}): ${msg}`);
+            return { success: false, message: msg };
+        }
+
         // If initializing a new match or re-initializing an archived one, clear storage
         await this.state.storage.deleteAll();
         console.log(`DO (${this.match_do_id}): Cleared storage for new initialization.`);
@@ -297,6 +811,41 @@ import type {
             return { success: false, message: msg };
         }
   
+        // Generate the seed for 矩盾手 picks; only its commitment is published until the match is archived
+        const randomSeed = generateRandomSeed();
+        const randomSeedCommitment = await computeSeedCommitment(randomSeed);
+
+        // Ruleset for this match's stage (missing fields fall back to the defaults)
+        const ruleset = resolveRuleset(scheduleData.ruleset);
+
+        this.matchData = this.buildInitialState(scheduleData, ruleset, randomSeedCommitment);
+        this.eventSeq = 0;
+        this.outboxSeq = 0;
+  
+  
+        try {
+            // Save the initial state to storage together with the seed
+            await this.state.storage.put({
+                matchData: this.matchData,
+                [RANDOM_SEED_KEY]: randomSeed,
+                ...this.nextEventEntry({ type: 'initialize', payload: { schedule: scheduleData, ruleset, random_seed_commitment: randomSeedCommitment } }),
+            });
+            // Broadcast the initial state to any connected clients
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}): State initialized from schedule and saved.`);
+            return { success: true, message: "Match initialized from schedule.", randomSeedCommitment };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}): Failed to save initial state from schedule:`, e);
+            // If saving fails, set status to archived to prevent further actions
+            this.matchData.status = 'archived';
+            this.broadcast(this.matchData);
+            return { success: false, message: `Failed to initialize match: ${e.message}` };
+        }
+    }
+  
+    // Helper to build the state a match starts in from its (validated) schedule.
+    // Used when initializing and when replaying the event log.
+    private buildInitialState(scheduleData: MatchScheduleData, ruleset: MatchRuleset, randomSeedCommitment: string | null): MatchState {
         // Add fullCoverUrl to all songs in the list if cover_filename exists
         const processedMatchSongList = scheduleData.match_song_list.map(song => {
             const fullCoverUrl = song.cover_filename && this.env.SONG_COVER_BUCKET?.name
@@ -320,7 +869,7 @@ import type {
   
   
         // Construct the initial match state
-        this.matchData = {
+        const state: MatchState = {
             match_do_id: this.match_do_id,
             tournament_match_id: scheduleData.tournamentMatchId,
             round_name: scheduleData.round_name,
@@ -329,8 +878,8 @@ import type {
             teamB_id: scheduleData.team2_id,
             teamA_name: scheduleData.team1_name,
             teamB_name: scheduleData.team2_name,
-            teamA_score: INITIAL_HEALTH,
-            teamB_score: INITIAL_HEALTH,
+            teamA_score: ruleset.initial_health,
+            teamB_score: ruleset.initial_health,
             teamA_members: scheduleData.team1_members, // Store member lists for easy lookup
             teamB_members: scheduleData.team2_members,
             teamA_player_order_ids: scheduleData.team1_player_order_ids,
@@ -346,31 +895,70 @@ import type {
             match_song_list: processedMatchSongList, // Use the processed list with fullCoverUrl
             current_song: processedMatchSongList[0] || null, // Set the first song as current
             roundSummary: null, // No summary yet
+            random_seed_commitment: randomSeedCommitment,
+            random_seed: null, // Revealed on archive
+            ruleset,
             status: 'pending_scores', // Match starts waiting for scores
         };
   
         // Set the status of the first song to ongoing
-        if (this.matchData.current_song) {
-             this.matchData.current_song.status = 'ongoing';
+        if (state.current_song) {
+             state.current_song.status = 'ongoing';
         }
-  
-  
-        try {
-            // Save the initial state to storage
-            await this.state.storage.put('matchData', this.matchData);
-            // Broadcast the initial state to any connected clients
-            this.broadcast(this.matchData);
-            console.log(`DO (${this.match_do_id}): State initialized from schedule and saved.`);
-            return { success: true, message: "Match initialized from schedule." };
-        } catch (e: any) {
-            console.error(`DO (${this.match_do_id}): Failed to save initial state from schedule:`, e);
-            // If saving fails, set status to archived to prevent further actions
-            this.matchData.status = 'archived';
-            this.broadcast(this.matchData);
-            return { success: false, message: `Failed to initialize match: ${e.message}` };
+        return state;
+    }
+
+    // Helper to resolve the scores of a round: percentages of the teams that sent judgment breakdowns are computed from the
+    // chart's note counts in D1, typed percentages are brought to their canonical 4-decimal form.
+    // The returned scores carry both, so the event log replays without D1.
+    private async resolveRoundScores<T extends CalculateRoundPayload>(payload: T, song: MatchSong | null): Promise<{ success: boolean; message?: string; scores?: T }> {
+        if (!payload.teamA_judgments && !payload.teamB_judgments) {
+            return { success: true, scores: this.canonicalScores(payload) };
+        }
+        if (!song) {
+            return { success: false, message: "No song to compute judgments against." };
+        }
+        const difficulty = difficultyKeyOf(song.song_difficulty);
+        const row = await this.env.DB.prepare('SELECT notes_json FROM songs WHERE id = ?').bind(song.song_id).first<Pick<Song, 'notes_json'>>();
+        const noteCounts = parseChartNoteCounts(row?.notes_json, difficulty);
+        if (!noteCounts) {
+            return { success: false, message: `No note counts stored for song ${song.song_id} (${difficulty}), enter the percentages instead.` };
+        }
+
+        const scores = { ...payload };
+        for (const team of ['teamA', 'teamB'] as const) {
+            const judgments = payload[`${team}_judgments`];
+            if (!judgments) continue;
+            const error = validateJudgments(noteCounts, judgments);
+            if (error) {
+                return { success: false, message: `Invalid ${team} judgments: ${error}` };
+            }
+            scores[`${team}_percentage`] = calculateAchievement(noteCounts, judgments).percentage;
         }
+        return { success: true, scores: this.canonicalScores(scores) };
     }
-  
+
+    // Helper to store percentages as canonical 4-decimal strings; callers validate them with scoresError first
+    private canonicalScores<T extends CalculateRoundPayload>(payload: T): T {
+        return {
+            ...payload,
+            teamA_percentage: canonicalPercentage(payload.teamA_percentage) ?? payload.teamA_percentage,
+            teamB_percentage: canonicalPercentage(payload.teamB_percentage) ?? payload.teamB_percentage,
+        };
+    }
+
+    // Helper to validate the scores of a calculate/preview/amend payload: each team needs a percentage in 0–101.0000, or judgments
+    private scoresError(payload: CalculateRoundPayload, allowJudgments: boolean): string | null {
+        for (const team of ['teamA', 'teamB'] as const) {
+            // Raw 小分调整 values were replaced by penalties; refuse them instead of silently dropping them
+            if (`${team}_effect_value` in payload) return `${team}_effect_value is no longer accepted, issue a penalty instead.`;
+            if (allowJudgments && payload[`${team}_judgments`]) continue;
+            const error = percentageError(payload[`${team}_percentage`]);
+            if (error) return `${team}: ${error}`;
+        }
+        return null;
+    }
+
     // --- Core Game Logic: Calculate Round Outcome ---
     // Called by the Worker after receiving scores from the frontend.
     private async calculateRoundOutcome(payload: CalculateRoundPayload): Promise<{ success: boolean; message?: string; roundSummary?: RoundSummary }> {
@@ -389,469 +977,48 @@ import type {
              console.error(`DO (${this.match_do_id}): ${msg}`);
              return { success: false, message: msg };
         }
-  
-        // --- Initialize Log ---
-        const calculationLog: string[] = [];
-        const log = (message: string) => {
-            calculationLog.push(message);
-            // Optional: 同时输出到Worker控制台进行调试
-            // console.log(`DO (${this.match_do_id}) [Round ${this.matchData!.current_match_song_index + 1} Log]: ${message}`);
-        };
-        // --- End Initialize Log ---
-  
-  
-        log(`--- 开始计算第 ${this.matchData.current_match_song_index + 1} 轮结果 ---`);
-        log(`队伍 A 百分比: ${payload.teamA_percentage}%, 队伍 B 百分比: ${payload.teamB_percentage}%`);
-        log(`队伍 A 小分调整: ${payload.teamA_effect_value}, 队伍 B 小分调整: ${payload.teamB_effect_value}`);
-  
-  
-        // Ensure percentages and effect values are numbers, default to 0 if not
-        const teamAPercentage = typeof payload.teamA_percentage === 'number' ? payload.teamA_percentage : 0;
-        const teamBPercentage = typeof payload.teamB_percentage === 'number' ? payload.teamB_percentage : 0;
-        const teamAEffectValue = typeof payload.teamA_effect_value === 'number' ? payload.teamA_effect_value : 0;
-        const teamBEffectValue = typeof payload.teamB_effect_value === 'number' ? payload.teamB_effect_value : 0;
-  
-  
-        // Calculate base damage from percentage digits
-        const teamADamageDigits = this.parseDamageDigits(teamAPercentage);
-        const teamBDamageDigits = this.parseDamageDigits(teamBPercentage);
-        log(`队伍 A 伤害数字 (0%->10): [${teamADamageDigits.join(', ')}]`);
-        log(`队伍 B 伤害数字 (0%->10): [${teamBDamageDigits.join(', ')}]`);
-  
-        let teamABaseDamage = teamADamageDigits.reduce((sum, digit) => sum + digit, 0);
-        let teamBBaseDamage = teamBDamageDigits.reduce((sum, digit) => sum + digit, 0);
-        log(`队伍 A 基础伤害总和: ${teamABaseDamage}`);
-        log(`队伍 B 基础伤害总和: ${teamBBaseDamage}`);
-  
-  
-        // Get current players' professions
-        const teamACurrentProfession = this.matchData.teamA_current_player_profession;
-        const teamBCurrentProfession = this.matchData.teamB_current_player_profession;
-        log(`队伍 A 选手职业: ${teamACurrentProfession || '未知'}`);
-        log(`队伍 B 选手职业: ${teamBCurrentProfession || '未知'}`);
-  
-        let teamAMaxDigitDamage = Math.max(0, ...teamADamageDigits); // Max digit for Attacker/Supporter skill
-        let teamBMaxDigitDamage = Math.max(0, ...teamBDamageDigits);
-        log(`队伍 A 最高位数字伤害: ${teamAMaxDigitDamage}`);
-        log(`队伍 B 最高位数字伤害: ${teamBMaxDigitDamage}`);
-  
-  
-        // --- Apply Profession Effects (MATLAB Logic) ---
-  
-        // 1. 计算各队伍造成的伤害（应用自身技能：绝剑士增加，炼星师减少并储存治疗）
-        let damageDealtByA = teamABaseDamage;
-        let damageDealtByB = teamBBaseDamage;
-  
-        let teamAProfessionEffectLog = ''; // Log string for profession effects summary
-        let teamBProfessionEffectLog = '';
-  
-        let teamASupporterBaseSkillHealAmount = 0; // Store Supporter base heal amount
-        let teamBSupporterBaseSkillHealAmount = 0;
-  
-        // Apply Attacker Skill (adds max digit damage)
-        if (teamACurrentProfession === 'attacker') {
-            damageDealtByA += teamAMaxDigitDamage;
-            teamAProfessionEffectLog += `绝剑士技能：追加最高位数字伤害 ${teamAMaxDigitDamage}。`;
-            log(`队伍 A (${teamACurrentProfession}) 发动技能：追加伤害 ${teamAMaxDigitDamage}。队伍 A 造成的伤害变为 ${damageDealtByA}`);
-        }
-        if (teamBCurrentProfession === 'attacker') {
-            damageDealtByB += teamBMaxDigitDamage;
-            teamBProfessionEffectLog += `绝剑士技能：追加最高位数字伤害 ${teamBMaxDigitDamage}。`;
-            log(`队伍 B (${teamBCurrentProfession}) 发动技能：追加伤害 ${teamBMaxDigitDamage}。队伍 B 造成的伤害变为 ${damageDealtByB}`);
-        }
-  
-        // Apply Supporter Base Skill (invalidates own max digit damage, stores heal)
-        // MATLAB logic: Supporter invalidates their *own* max damage and stores it as heal.
-        if (teamACurrentProfession === 'supporter' && teamADamageDigits.length > 0) {
-            damageDealtByA = Math.max(0, damageDealtByA - teamAMaxDigitDamage); // Invalidate own max damage
-            teamASupporterBaseSkillHealAmount = teamAMaxDigitDamage; // Store max digit as heal amount
-            teamAProfessionEffectLog += `炼星师技能：转化最高位(${teamAMaxDigitDamage})数字伤害为治疗 ${teamASupporterBaseSkillHealAmount}。`;
-            log(`队伍 A (${teamACurrentProfession}) 发动技能：转化自身最高位伤害 ${teamAMaxDigitDamage} 为治疗。队伍 A 造成的伤害变为 ${damageDealtByA}，储存治疗量 ${teamASupporterBaseSkillHealAmount}`);
-        }
-        if (teamBCurrentProfession === 'supporter' && teamBDamageDigits.length > 0) {
-            damageDealtByB = Math.max(0, damageDealtByB - teamBMaxDigitDamage); // Invalidate own max damage
-            teamBSupporterBaseSkillHealAmount = teamBMaxDigitDamage; // Store max digit as heal amount
-            teamBProfessionEffectLog += `炼星师技能：转化最高位(${teamBMaxDigitDamage})数字伤害为治疗 ${teamBSupporterBaseSkillHealAmount}。`;
-            log(`队伍 B (${teamBCurrentProfession}) 发动技能：转化自身最高位伤害 ${teamBMaxDigitDamage} 为治疗。队伍 B 造成的伤害变为 ${damageDealtByB}，储存治疗量 ${teamBSupporterBaseSkillHealAmount}`);
-        }
-  
-        // 2. 矩盾手技能 - 从对方的原始伤害数字中随机选择一个无效化
-        // 这个无效化是用于减少对方对自己造成的伤害
-        let invalidatedDamageAByBDefender = 0; // B的矩盾手无效化的A的伤害 (减少B受到的伤害)
-        let invalidatedDamageBByADefender = 0; // A的矩盾手无效化的B的伤害 (减少A受到的伤害)
-  
-        if (teamACurrentProfession === 'defender') {
-            // A是矩盾手，从B的原始伤害数字中随机选择一个无效化，减少A受到的伤害
-            const potentialTargets = [...teamBDamageDigits]; // B的基础4位数字
-            if (teamBCurrentProfession === 'attacker') {
-                potentialTargets.push(teamBMaxDigitDamage); // 如果B是绝剑士，加入额外伤害作为第5个目标
-            }
-            if (potentialTargets.length > 0) {
-                const randomIndex = Math.floor(Math.random() * potentialTargets.length);
-                invalidatedDamageBByADefender = potentialTargets[randomIndex];
-                teamAProfessionEffectLog += `矩盾手技能：防御队伍B的随机一段伤害 ${invalidatedDamageBByADefender}。`;
-                log(`队伍 A (${teamACurrentProfession}) 发动技能：防御队伍B的随机一段伤害 ${invalidatedDamageBByADefender}。`);
-            } else {
-                teamAProfessionEffectLog += `矩盾手技能：队伍B无伤害数字可防御。`;
-                log(`队伍 A (${teamACurrentProfession}) 发动技能：队伍B无伤害数字可防御。`);
-            }
-        }
-  
-        if (teamBCurrentProfession === 'defender') {
-            // B是矩盾手，从A的原始伤害数字中随机选择一个无效化，减少B受到的伤害
-            const potentialTargets = [...teamADamageDigits]; // A的基础4位数字
-            if (teamACurrentProfession === 'attacker') {
-                potentialTargets.push(teamAMaxDigitDamage); // 如果A是绝剑士，加入额外伤害作为第5个目标
-            }
-            if (potentialTargets.length > 0) {
-                const randomIndex = Math.floor(Math.random() * potentialTargets.length);
-                invalidatedDamageAByBDefender = potentialTargets[randomIndex];
-                teamBProfessionEffectLog += `矩盾手技能：防御队伍A的随机一段伤害 ${invalidatedDamageAByBDefender}。`;
-                log(`队伍 B (${teamBCurrentProfession}) 发动技能：防御队伍A的随机一段伤害 ${invalidatedDamageAByBDefender}。`);
-            } else {
-                teamBProfessionEffectLog += `矩盾手技能：队伍A无伤害数字可防御。`;
-                log(`队伍 B (${teamBCurrentProfession}) 发动技能：队伍A无伤害数字可防御。`);
-            }
-        }
-  
-        // 3. 计算最终实际受到的伤害
-        // 实际受到的伤害 = 对方造成的伤害 (应用自身技能后) - 自身Defender无效化的伤害
-        let actualDamageReceivedByA = Math.max(0, damageDealtByB - invalidatedDamageBByADefender);
-        let actualDamageReceivedByB = Math.max(0, damageDealtByA - invalidatedDamageAByBDefender);
-  
-        log(`队伍 A 实际受到的伤害 (队伍B造成的 ${damageDealtByB} - 队伍A防御的 ${invalidatedDamageBByADefender})：${actualDamageReceivedByA}`);
-        log(`队伍 B 实际受到的伤害 (队伍A造成的 ${damageDealtByA} - 队伍B防御的 ${invalidatedDamageAByBDefender})：${actualDamageReceivedByB}`);
-  
-  
-        // 4. 计算受到伤害后的血量
-        let currentAHealth = this.matchData.teamA_score;
-        let currentBHealth = this.matchData.teamB_score;
-        log(`本轮开始前血量：A: ${currentAHealth}, B: ${currentBHealth}`);
-  
-        let healthAfterDamageA = currentAHealth - actualDamageReceivedByA;
-        let healthAfterDamageB = currentBHealth - actualDamageReceivedByB;
-        log(`应用实际伤害后血量 (未四舍五入)：A: ${healthAfterDamageA}, B: ${healthAfterDamageB}`);
-  
-  
-        // 计算溢出伤害（复影折镜前）- 用于矩盾手的复影折镜效果
-        let rawOverflowDamageToA = healthAfterDamageA < 0 ? Math.abs(healthAfterDamageA) : 0;
-        let rawOverflowDamageToB = healthAfterDamageB < 0 ? Math.abs(healthAfterDamageB) : 0;
-        if (rawOverflowDamageToA > 0) log(`队伍 A 溢出伤害 (触发折镜前): ${rawOverflowDamageToA}`);
-        if (rawOverflowDamageToB > 0) log(`队伍 B 溢出伤害 (触发折镜前): ${rawOverflowDamageToB}`);
-  
-  
-        // 5. 处理复影折镜触发
-        log('判断是否触发复影折镜...');
-        let teamAMirrorUsedThisTurn = false;
-        let teamBMirrorUsedThisTurn = false;
-        let teamAHealFromSupporterMirrorBonus = 0; // 炼星师复影折镜额外治疗
-        let teamBHealFromSupporterMirrorBonus = 0;
-        let teamAReflectedDamageByDefenderMirror = 0; // 矩盾手复影折镜反弹伤害
-        let teamBReflectedDamageByDefenderMirror = 0;
-        let teamAAttackerMirrorExtraDamage = 0; // 绝剑士复影折镜额外伤害
-        let teamBAttackerMirrorExtraDamage = 0;
-        let teamAMirrorEffectLog = ''; // 复影折镜效果总结
-        let teamBMirrorEffectLog = '';
-  
-        // 从受到伤害后的血量开始，准备处理复影折镜和治疗
-        let finalHealthA = healthAfterDamageA;
-        let finalHealthB = healthAfterDamageB;
-  
-        // 检查是否可以触发复影折镜
-        const canAInitiallyTriggerMirror = finalHealthA <= 0 && this.matchData.teamA_mirror_available;
-        const canBInitiallyTriggerMirror = finalHealthB <= 0 && this.matchData.teamB_mirror_available;
-  
-        // 处理同时触发复影折镜的情况
-        if (canAInitiallyTriggerMirror && canBInitiallyTriggerMirror) {
-            log('双方同时触发复影折镜！');
-            this.matchData.teamA_mirror_available = false;
-            this.matchData.teamB_mirror_available = false;
-            teamAMirrorUsedThisTurn = true;
-            teamBMirrorUsedThisTurn = true;
-            finalHealthA = MIRROR_HEALTH_RESTORE;
-            finalHealthB = MIRROR_HEALTH_RESTORE;
-            teamAMirrorEffectLog = '双方同时触发复影折镜，血量恢复至20。';
-            teamBMirrorEffectLog = '双方同时触发复影折镜，血量恢复至20。';
-            log(`双方血量重置为 ${MIRROR_HEALTH_RESTORE}`);
-            // Note: MATLAB doesn't apply profession mirror effects in simultaneous trigger case.
-        } else {
-            // 处理个体触发复影折镜（可能连锁）
-            // 队伍 A 先触发（如果符合条件）
-            if (canAInitiallyTriggerMirror) {
-                log('队伍 A 触发复影折镜！');
-                this.matchData.teamA_mirror_available = false;
-                teamAMirrorUsedThisTurn = true;
-                finalHealthA = MIRROR_HEALTH_RESTORE; // 先恢复血量
-                teamAMirrorEffectLog = '触发复影折镜，血量恢复至20。';
-                log(`队伍 A 血量恢复至 ${MIRROR_HEALTH_RESTORE}`);
-  
-                // 应用职业专属折镜效果（在恢复血量后）
-                if (teamACurrentProfession === 'attacker') {
-                    teamAAttackerMirrorExtraDamage = teamAMaxDigitDamage;
-                    finalHealthB -= teamAAttackerMirrorExtraDamage; // 对对方造成额外伤害
-                    teamAMirrorEffectLog += ` 绝剑士折镜：追加最高位数字伤害 ${teamAAttackerMirrorExtraDamage}。`;
-                    log(`队伍 A (${teamACurrentProfession}) 折镜效果：对队伍 B 追加伤害 ${teamAAttackerMirrorExtraDamage}。队伍 B 血量变为 ${finalHealthB}`);
-                } else if (teamACurrentProfession === 'defender') {
-                    teamAReflectedDamageByDefenderMirror = rawOverflowDamageToA; // 反弹触发折镜前的溢出伤害
-                    finalHealthB -= teamAReflectedDamageByDefenderMirror; // 反弹溢出伤害给对方
-                    teamAMirrorEffectLog += ` 矩盾手折镜：反弹自身溢出伤害 ${teamAReflectedDamageByDefenderMirror} 给队伍B。`;
-                    log(`队伍 A (${teamACurrentProfession}) 折镜效果：反弹自身溢出伤害 ${teamAReflectedDamageByDefenderMirror} 给队伍B。队伍 B 血量变为 ${finalHealthB}`);
-                } else if (teamACurrentProfession === 'supporter') {
-                    // MATLAB 逻辑：炼星师折镜使基础技能治疗量翻倍
-                    teamAHealFromSupporterMirrorBonus = teamASupporterBaseSkillHealAmount * 2;
-                    // 炼星师折镜不造成伤害，只治疗自身（稍后应用）
-                    teamAMirrorEffectLog += ` 炼星师折镜：额外治疗 ${teamAHealFromSupporterMirrorBonus}。`;
-                    log(`队伍 A (${teamACurrentProfession}) 折镜效果：额外储存治疗 ${teamAHealFromSupporterMirrorBonus}。`);
-                }
-            }
-  
-            // 队伍 B 触发（如果在队伍 A 效果后符合条件）
-            const canBTriggerAfterAPass1 = finalHealthB <= 0 && this.matchData.teamB_mirror_available && !teamBMirrorUsedThisTurn;
-            if (canBTriggerAfterAPass1) {
-                log('队伍 B 触发复影折镜 (在队伍 A 之后)！');
-                this.matchData.teamB_mirror_available = false;
-                teamBMirrorUsedThisTurn = true;
-                finalHealthB = MIRROR_HEALTH_RESTORE; // 先恢复血量
-                teamBMirrorEffectLog = '触发复影折镜，血量恢复至20。';
-                log(`队伍 B 血量恢复至 ${MIRROR_HEALTH_RESTORE}`);
-  
-  
-                // 应用职业专属折镜效果（在恢复血量后）
-                if (teamBCurrentProfession === 'attacker') {
-                    teamBAttackerMirrorExtraDamage = teamBMaxDigitDamage;
-                    finalHealthA -= teamBAttackerMirrorExtraDamage; // 对对方造成额外伤害
-                    teamBMirrorEffectLog += ` 绝剑士折镜：追加最高位数字伤害 ${teamBAttackerMirrorExtraDamage}。`;
-                    log(`队伍 B (${teamBCurrentProfession}) 折镜效果：对队伍 A 追加伤害 ${teamBAttackerMirrorExtraDamage}。队伍 A 血量变为 ${finalHealthA}`);
-                } else if (teamBCurrentProfession === 'defender') {
-                    teamBReflectedDamageByDefenderMirror = rawOverflowDamageToB; // 反弹触发折镜前的溢出伤害
-                    finalHealthA -= teamBReflectedDamageByDefenderMirror; // 反弹溢出伤害给对方
-                    teamBMirrorEffectLog += ` 矩盾手折镜：反弹自身溢出伤害 ${teamBReflectedDamageByDefenderMirror} 给队伍A。`;
-                    log(`队伍 B (${teamBCurrentProfession}) 折镜效果：反弹自身溢出伤害 ${teamBReflectedDamageByDefenderMirror} 给队伍A。队伍 A 血量变为 ${finalHealthA}`);
-                } else if (teamBCurrentProfession === 'supporter') {
-                    // MATLAB 逻辑：炼星师折镜使基础技能治疗量翻倍
-                    teamBHealFromSupporterMirrorBonus = teamBSupporterBaseSkillHealAmount * 2;
-                    // 炼星师折镜不造成伤害，只治疗自身（稍后应用）
-                    teamBMirrorEffectLog += ` 炼星师折镜：额外治疗 ${teamBHealFromSupporterMirrorBonus}。`;
-                    log(`队伍 B (${teamBCurrentProfession}) 折镜效果：额外储存治疗 ${teamBHealFromSupporterMirrorBonus}。`);
-                }
-            }
-  
-            // 队伍 A 再次触发（如果符合条件，连锁反应）
-            const canATriggerAfterBPass2 = finalHealthA <= 0 && this.matchData.teamA_mirror_available && !teamAMirrorUsedThisTurn;
-            if (canATriggerAfterBPass2) {
-                log('队伍 A 触发复影折镜 (连锁反应)！');
-                this.matchData.teamA_mirror_available = false;
-                teamAMirrorUsedThisTurn = true;
-                finalHealthA = MIRROR_HEALTH_RESTORE; // 恢复血量
-                teamAMirrorEffectLog += ' 触发复影折镜 (连锁反应)，血量恢复至20。'; // 标记为连锁反应触发
-                log(`队伍 A 血量恢复至 ${MIRROR_HEALTH_RESTORE} (连锁反应)。`);
-                // 根据MATLAB结构，连锁触发时职业效果似乎不重复应用，只恢复血量。
-                // 如果需要累加效果，此处逻辑需要调整。当前实现遵循简单解释。
-            }
-        }
-  
-        // 6. 应用炼星师基础技能治疗（MATLAB 在伤害和折镜处理后应用）
-        log(`应用炼星师基础技能治疗：A 治疗 ${teamASupporterBaseSkillHealAmount}, B 治疗 ${teamBSupporterBaseSkillHealAmount}`);
-        finalHealthA += teamASupporterBaseSkillHealAmount;
-        finalHealthB += teamBSupporterBaseSkillHealAmount;
-        log(`应用炼星师基础技能治疗后血量 (未四舍五入)：A: ${finalHealthA}, B: ${finalHealthB}`);
-  
-  
-        // 7. 应用炼星师复影折镜额外治疗（这部分已经在折镜处理时加到 finalHealth 中了）
-        // 无需再次添加。额外治疗量已经计入 finalHealth。
-        if (teamAHealFromSupporterMirrorBonus > 0) log(`应用炼星师折镜额外治疗：A 额外治疗 ${teamAHealFromSupporterMirrorBonus}`);
-        if (teamBHealFromSupporterMirrorBonus > 0) log(`应用炼星师折镜额外治疗：B 额外治疗 ${teamBHealFromSupporterMirrorBonus}`);
-  
-  
-        // 8. 应用小分调整 (Effect Values)
-        log(`应用小分调整：A 调整 ${teamAEffectValue}, B 调整 ${teamBEffectValue}`);
-        finalHealthA += teamAEffectValue;
-        finalHealthB += teamBEffectValue;
-        log(`应用小分调整后血量 (未四舍五入)：A: ${finalHealthA}, B: ${finalHealthB}`);
-  
-  
-        // Store health before final rounding for summary
-        const healthBeforeRoundingA = finalHealthA;
-        const healthBeforeRoundingB = finalHealthB;
-  
-        // Round final health to nearest integer
-        const finalScoreA = Math.round(finalHealthA);
-        const finalScoreB = Math.round(finalHealthB);
-  
-        // Update match state scores
-        this.matchData.teamA_score = finalScoreA;
-        this.matchData.teamB_score = finalScoreB;
-        log(`最终血量 (四舍五入)：A: ${this.matchData.teamA_score}, B: ${this.matchData.teamB_score}`);
-  
-  
-        // Determine if either team is defeated
-        const aDead = this.matchData.teamA_score <= 0;
-        const bDead = this.matchData.teamB_score <= 0;
-  
-        // Determine the new match status
-        let newStatus: MatchState['status'];
-        let matchEnded = false;
-  
-        // MATLAB logic for end condition: If any team <= 0, the match ends.
-        // If both <= 0, the one with higher score wins. If scores are equal, A wins (arbitrary tiebreak).
-        if (aDead || bDead) {
-            matchEnded = true;
-            if (aDead && bDead) {
-                if (this.matchData.teamA_score > this.matchData.teamB_score) {
-                    newStatus = 'team_A_wins'; // A wins on score tiebreak
-                    log(`双方血量均 <= 0，队伍 A 血量更高 (${this.matchData.teamA_score} > ${this.matchData.teamB_score})，队伍 A 获胜。`);
-                } else if (this.matchData.teamB_score > this.matchData.teamA_score) {
-                    newStatus = 'team_B_wins'; // B wins on score tiebreak
-                    log(`双方血量均 <= 0，队伍 B 血量更高 (${this.matchData.teamB_score} > ${this.matchData.teamA_score})，队伍 B 获胜。`);
-                } else {
-                    // MATLAB defaults to A winning if scores are equal and <= 0.
-                    newStatus = 'team_A_wins'; // Exact score tie, A wins by rule
-                    log(`双方血量均 <= 0 且相等 (${this.matchData.teamA_score} == ${this.matchData.teamB_score})，按规则队伍 A 获胜。`);
-                }
-            } else if (aDead) {
-                newStatus = 'team_B_wins';
-                log(`队伍 A 血量 <= 0 (${this.matchData.teamA_score})，队伍 B 获胜。`);
-            } else { // bDead
-                newStatus = 'team_A_wins';
-                log(`队伍 B 血量 <= 0 (${this.matchData.teamB_score})，队伍 A 获胜。`);
-            }
-        } else {
-            // No team defeated
-            // Check if standard rounds are finished (index 5 is the 6th song)
-            // and it's not already a tiebreaker song.
-            if (this.matchData.current_match_song_index >= STANDARD_ROUNDS_COUNT - 1 && !(this.matchData.current_song?.is_tiebreaker_song)) {
-                 // Finished standard rounds (index 5 is the 6th song), and current song is NOT a tiebreaker
-                 // Check scores to see if a tiebreaker is needed
-                 if (this.matchData.teamA_score === this.matchData.teamB_score) {
-                      newStatus = 'tiebreaker_pending_song'; // Scores are tied, need tiebreaker song
-                      log(`标准轮次结束，双方血量相等 (${this.matchData.teamA_score} == ${this.matchData.teamB_score})，进入加时赛选曲阶段。`);
-                 } else {
-                      // Scores are not tied after standard rounds, match ends
-                      newStatus = this.matchData.teamA_score > this.matchData.teamB_score ? 'team_A_wins' : 'team_B_wins';
-                      matchEnded = true;
-                      log(`标准轮次结束，双方血量不等 (${this.matchData.teamA_score} vs ${this.matchData.teamB_score})，比赛结束。`);
-                 }
-            } else {
-                 // Standard rounds not finished, or it was a tiebreaker round that didn't end the match
-                 newStatus = 'round_finished'; // Ready to advance to the next round
-                 log(`本轮结束，双方均未被击败，进入下一轮准备阶段。`);
-            }
+        const resolvedScores = await this.resolveRoundScores(payload, this.matchData.current_song);
+        if (!resolvedScores.success) {
+            return { success: false, message: `Cannot calculate round: ${resolvedScores.message}` };
         }
-        this.matchData.status = newStatus;
-        log(`本轮计算结束，比赛状态变为: ${this.matchData.status}`);
-  
-  
-        // Update the current song's status and details in the match song list
-        if (this.matchData.current_song) {
-             this.matchData.current_song.status = 'completed';
-             this.matchData.current_song.teamA_player_id = this.matchData.teamA_current_player_id ?? undefined;
-             this.matchData.current_song.teamB_player_id = this.matchData.teamB_current_player_id ?? undefined;
-             this.matchData.current_song.teamA_percentage = teamAPercentage;
-             this.matchData.current_song.teamB_percentage = teamBPercentage;
-             // Store the damage dealt *by* the player after their own skills (before opponent defense/healing)
-             this.matchData.current_song.teamA_damage_dealt = damageDealtByA; // Damage after A's own skills
-             this.matchData.current_song.teamB_damage_dealt = damageDealtByB; // Damage after B's own skills
-             this.matchData.current_song.teamA_effect_value = teamAEffectValue;
-             this.matchData.current_song.teamB_effect_value = teamBEffectValue;
-             this.matchData.current_song.teamA_health_after = this.matchData.teamA_score;
-             this.matchData.current_song.teamB_health_after = this.matchData.teamB_score;
-             this.matchData.current_song.teamA_mirror_triggered = teamAMirrorUsedThisTurn;
-             this.matchData.current_song.teamB_mirror_triggered = teamBMirrorUsedThisTurn;
-        }
-  
-  
-        // Create the round summary object
-        const summary: RoundSummary = {
-            round_number_in_match: this.matchData.current_match_song_index + 1,
-            song_id: this.matchData.current_song?.song_id ?? -1,
-            song_title: this.matchData.current_song?.song_title ?? '未知歌曲',
-            selected_difficulty: this.matchData.current_song?.song_difficulty ?? '未知难度',
-  
-            teamA_player_id: this.matchData.teamA_current_player_id ?? -1,
-            teamB_player_id: this.matchData.teamB_current_player_id ?? -1,
-            teamA_player_nickname: this.matchData.teamA_current_player_nickname,
-            teamB_player_nickname: this.matchData.teamB_current_player_nickname,
-  
-            teamA_percentage: teamAPercentage,
-            teamB_percentage: teamBPercentage,
-            teamA_effect_value_applied: teamAEffectValue,
-            teamB_effect_value_applied: teamBEffectValue,
-  
-            teamA_damage_digits: teamADamageDigits,
-            teamB_damage_digits: teamBDamageDigits,
-            teamA_base_damage: teamABaseDamage,
-            teamB_base_damage: teamBBaseDamage,
-            teamA_profession: teamACurrentProfession,
-            teamB_profession: teamBCurrentProfession,
-            teamA_profession_effect_applied: teamAProfessionEffectLog,
-            teamB_profession_effect_applied: teamBProfessionEffectLog,
-  
-            // Damage dealt by player after their own skills (before opponent defense/healing)
-            // This corresponds to 'damageDealtByA/B' before opponent's defender effect
-            teamA_final_damage_dealt: damageDealtByA,
-            teamB_final_damage_dealt: damageDealtByB,
-  
-            // Damage invalidated by opponent's Defender (amount reduced from incoming damage)
-            teamA_damage_invalidated_by_opponent_defender: invalidatedDamageAByBDefender, // A's Defender reduced B's damage by this amount
-            teamB_damage_invalidated_by_opponent_defender: invalidatedDamageBByADefender, // B's Defender reduced A's damage by this amount
-  
-            // Net damage received by each team after opponent's defense
-            teamA_modified_damage_to_B: actualDamageReceivedByB, // Damage B actually received from A
-            teamB_modified_damage_to_A: actualDamageReceivedByA, // Damage A actually received from B
-  
-  
-            // Health before applying damage, mirrors, supporter heal, effect values
-            teamA_health_before_round: currentAHealth,
-            teamB_health_before_round: currentBHealth,
-  
-            // Health after applying net damage, but before mirrors/supporter heal/effects
-            // This is the value used to check for initial mirror trigger
-            teamA_health_after_damage_and_defender_heal: healthAfterDamageA, // Renamed for clarity based on new logic
-            teamB_health_after_damage_and_defender_heal: healthAfterDamageB, // Renamed for clarity based on new logic
-  
-            teamA_mirror_triggered: teamAMirrorUsedThisTurn,
-            teamB_mirror_triggered: teamBMirrorUsedThisTurn,
-            teamA_mirror_effect_applied: teamAMirrorEffectLog,
-            teamB_mirror_effect_applied: teamBMirrorEffectLog,
-  
-            // Supporter healing amounts
-            teamA_supporter_base_skill_heal: teamASupporterBaseSkillHealAmount,
-            teamB_supporter_base_skill_heal: teamBSupporterBaseSkillHealAmount,
-            teamA_supporter_mirror_bonus_heal: teamAHealFromSupporterMirrorBonus,
-            teamB_supporter_mirror_bonus_heal: teamBHealFromSupporterMirrorBonus,
-  
-            // Attacker/Defender mirror damage dealt to opponent
-            teamA_attacker_mirror_extra_damage: teamAAttackerMirrorExtraDamage,
-            teamB_attacker_mirror_extra_damage: teamBAttackerMirrorExtraDamage,
-            teamA_reflected_damage_by_defender_mirror: teamAReflectedDamageByDefenderMirror,
-            teamB_reflected_damage_by_defender_mirror: teamBReflectedDamageByDefenderMirror,
-  
-  
-            // Net health change for the round
-            teamA_health_change: this.matchData.teamA_score - currentAHealth,
-            teamB_health_change: this.matchData.teamB_score - currentBHealth,
-  
-            // Final health after all calculations and rounding
-            teamA_health_after: this.matchData.teamA_score,
-            teamB_health_after: this.matchData.teamB_score,
-  
-            is_tiebreaker_song: this.matchData.current_song?.is_tiebreaker_song ?? false,
-  
-            log: calculationLog, // <-- Assign the collected log here
-        };
-        this.matchData.roundSummary = summary;
+        payload = resolvedScores.scores!;
+
+        // Scores are in, so the song's countdown (and any flag it raised) is done
+        this.matchData.timer = null;
+        this.matchData.referee_attention = null;
+
+        // Snapshot the state before this round mutates anything, so the round can be undone later.
+        // It is persisted together with the calculated state below.
+        const roundSnapshot = structuredClone(this.matchData);
+
+        // Derive the 矩盾手 rolls for this round from the match seed, then run the calculation against the live state
+        const defenderRolls = await this.rollDefenderTargets(this.matchData.current_match_song_index + 1);
+        const { summary, matchEnded } = this.computeRoundOutcome(this.matchData, payload, defenderRolls);
+
   
   
         try {
-            // Save the updated state
-            await this.state.storage.put('matchData', this.matchData);
+            // Save the updated state together with the pre-round snapshot and the round summary
+            await this.state.storage.put({
+                matchData: this.matchData,
+                [this.roundSnapshotKey(summary.round_number_in_match)]: roundSnapshot,
+                [this.roundSummaryKey(summary.round_number_in_match)]: summary,
+                ...this.nextEventEntry({
+                    type: 'calculate-round',
+                    payload: {
+                        round_number_in_match: summary.round_number_in_match,
+                        scores: payload,
+                        defender_rolls: defenderRolls,
+                        defender_picks: { teamA: summary.teamA_defender_target_index ?? null, teamB: summary.teamB_defender_target_index ?? null },
+                    },
+                }),
+            });
             // Broadcast the updated state
             this.broadcast(this.matchData);
-  
+
             // If the match ended, close WebSocket connections
             if (matchEnded || this.matchData.status === 'archived') {
-                this.websockets.forEach(ws => ws.close(1000, `Match ended. Status: ${this.matchData.status}`));
-                this.websockets = [];
+                this.closeAllConnections(1000, `Match ended. Status: ${this.matchData.status}`);
             }
             console.log(`DO (${this.match_do_id}) Round ${this.matchData.current_match_song_index + 1} calculated. New status: ${this.matchData.status}`);
             return { success: true, message: `Round ${this.matchData.current_match_song_index + 1} calculated. New status: ${this.matchData.status}`, roundSummary: summary };
@@ -863,113 +1030,455 @@ import type {
             return { success: false, message: `Failed to save state after calculation: ${e.message}` };
         }
     }
-  
-  
-    // Archive the current round's data to D1 match_rounds_history table
-    // Called automatically after calculateRoundOutcome if status is 'round_finished'
-    // Or called explicitly by Worker if needed (e.g., after draw resolution)
-    private async archiveCurrentRound(): Promise<{ success: boolean; message?: string; d1RecordId?: string | number | null }> {
-        if (!this.matchData || !this.matchData.roundSummary || !this.matchData.current_song) {
-            return { success: false, message: "No match data, round summary, or current song to archive round." };
+
+    // --- Dual Entry ---
+    // With ruleset.dual_entry, two different staff accounts submit each round's scores. An entry is compared with the
+    // latest entry of another referee: if they agree the round is calculated, otherwise both referees are alerted.
+    // Every entry is recorded in the event log with its author.
+    private async submitScoreEntry(payload: CalculateRoundPayload, kindeUserId: string): Promise<{ success: boolean; message?: string; roundSummary?: RoundSummary; pending?: boolean; conflict?: ScoreEntryConflict }> {
+        if (!this.matchData) {
+            return { success: false, message: "Match data not initialized." };
         }
-        if (this.matchData.status === 'archived') {
-            return { success: false, message: "Match is already archived, cannot archive rounds." };
+        if (this.matchData.status !== 'pending_scores' || !this.matchData.current_song) {
+            return { success: false, message: `Cannot calculate round: match is not in 'pending_scores' status (${this.matchData.status}).` };
         }
-  
-        const summary = this.matchData.roundSummary;
-        const currentSong = this.matchData.current_song;
-  
-        // Ensure tournament_match_id is valid before attempting D1 write
-        if (this.matchData.tournament_match_id === -1) {
-             console.warn(`DO (${this.match_do_id}) Cannot archive round ${summary.round_number_in_match}: tournament_match_id is -1.`);
-             return { success: false, message: "Match not linked to a tournament match ID." };
+        const resolvedScores = await this.resolveRoundScores(payload, this.matchData.current_song);
+        if (!resolvedScores.success) {
+            return { success: false, message: `Cannot calculate round: ${resolvedScores.message}` };
         }
-  
-  
-        try {
-            const stmt = this.env.DB.prepare(
-                `INSERT INTO match_rounds_history (
-                    tournament_match_id, match_do_id, round_number_in_match,
-                    song_id, selected_difficulty, picker_team_id, picker_member_id,
-                    team1_member_id, team2_member_id, team1_percentage, team2_percentage,
-                    team1_damage_dealt, team2_damage_dealt, team1_health_change, team2_health_change,
-                    team1_health_before, team2_health_before, team1_health_after, team2_health_after,
-                    team1_mirror_triggered, team2_mirror_triggered, team1_effect_value, team2_effect_value,
-                    is_tiebreaker_song, recorded_at, round_summary_json
-                 )
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-                 ON CONFLICT(tournament_match_id, round_number_in_match) DO UPDATE SET
-                    song_id = excluded.song_id,
-                    selected_difficulty = excluded.selected_difficulty,
-                    picker_team_id = excluded.picker_team_id,
-                    picker_member_id = excluded.picker_member_id,
-                    team1_member_id = excluded.team1_member_id,
-                    team2_member_id = excluded.team2_member_id,
-                    team1_percentage = excluded.team1_percentage,
-                    team2_percentage = excluded.team2_percentage,
-                    team1_damage_dealt = excluded.team1_damage_dealt,
-                    team2_damage_dealt = excluded.team2_damage_dealt,
-                    team1_health_change = excluded.team1_health_change,
-                    team2_health_change = excluded.team2_health_change,
-                    team1_health_before = excluded.team1_health_before,
-                    team2_health_before = excluded.team2_health_before,
-                    team1_health_after = excluded.team1_health_after,
-                    team2_health_after = excluded.team2_health_after,
-                    team1_mirror_triggered = excluded.team1_mirror_triggered,
-                    team2_mirror_triggered = excluded.team2_mirror_triggered,
-                    team1_effect_value = excluded.team1_effect_value,
-                    team2_effect_value = excluded.team2_effect_value,
-                    is_tiebreaker_song = excluded.is_tiebreaker_song,
-                    recorded_at = excluded.recorded_at,
-                    round_summary_json = excluded.round_summary_json
-                `
-            );
-  
-            const result = await stmt.bind(
-                this.matchData.tournament_match_id,
-                this.match_do_id,
-                summary.round_number_in_match,
-                summary.song_id,
-                summary.selected_difficulty,
-                currentSong.picker_team_id,
-                currentSong.picker_member_id,
-                summary.teamA_player_id,
-                summary.teamB_player_id,
-                summary.teamA_percentage,
-                summary.teamB_percentage,
-                summary.teamA_final_damage_dealt, // This is damage dealt *by* player after their own skills
-                summary.teamB_final_damage_dealt, // This is damage dealt *by* player after their own skills
-                summary.teamA_health_change,
-                summary.teamB_health_change,
-                summary.teamA_health_before_round,
-                summary.teamB_health_before_round,
-                summary.teamA_health_after,
-                summary.teamB_health_after,
-                summary.teamA_mirror_triggered ? 1 : 0, // Store boolean as integer 1 or 0
-                summary.teamB_mirror_triggered ? 1 : 0,
-                summary.teamA_effect_value_applied,
-                summary.teamB_effect_value_applied,
-                summary.is_tiebreaker_song ? 1 : 0, // Store boolean as integer 1 or 0
-                new Date().toISOString(),
-                JSON.stringify(summary) // Store the full summary JSON
-            ).run();
-  
-            if (result.success) {
-                console.log(`DO (${this.match_do_id}) Round ${summary.round_number_in_match} data archived/updated in D1 match_rounds_history.`);
-                return { success: true, message: `Round ${summary.round_number_in_match} archived.`, d1RecordId: result.meta.last_row_id };
-            } else {
-                console.error(`DO (${this.match_do_id}) failed to archive round ${summary.round_number_in_match} to D1:`, result.error);
-                return { success: false, message: `Failed to archive round: ${result.error}` };
+
+        const round = this.matchData.current_match_song_index + 1;
+        const entry: ScoreEntry = { round_number_in_match: round, kinde_user_id: kindeUserId, scores: resolvedScores.scores!, submitted_at: new Date().toISOString() };
+        const otherEntry = (this.matchData.score_entries ?? []).filter(e => e.round_number_in_match === round && e.kinde_user_id !== kindeUserId).pop();
+        const conflict = otherEntry ? this.compareScoreEntries(otherEntry, entry) : null;
+        this.applyScoreEntry(this.matchData, entry, conflict);
+        await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'score-entry', payload: { entry, conflict } }) });
+
+        if (!otherEntry) {
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Staff ${kindeUserId} entered the scores of round ${round}, waiting for a second referee.`);
+            return { success: true, pending: true, message: `Scores of round ${round} recorded, waiting for a second referee to enter them.` };
+        }
+        if (conflict) {
+            this.broadcast(this.matchData);
+            this.alertReferees(conflict, [otherEntry.kinde_user_id, kindeUserId]);
+            console.warn(`DO (${this.match_do_id}) Score entries of round ${round} disagree on ${conflict.fields.map(f => f.field).join(', ')}.`);
+            return { success: false, message: `Scores of round ${round} do not match the entry of another referee.`, conflict };
+        }
+        return this.calculateRoundOutcome(entry.scores);
+    }
+
+    // Helper to add a score entry to a state (live and when replaying the event log)
+    private applyScoreEntry(state: MatchState, entry: ScoreEntry, conflict: ScoreEntryConflict | null): void {
+        state.score_entries = [...(state.score_entries ?? []), entry];
+        state.score_entry_conflict = conflict;
+    }
+
+    // Helper to list the fields on which two score entries disagree, or null if they match
+    private compareScoreEntries(previous: ScoreEntry, entry: ScoreEntry): ScoreEntryConflict | null {
+        // Judgments are compared key by key in a fixed order, whatever order the clients sent them in
+        const judgmentKeys = [...NOTE_TYPES, ...JUDGMENTS, ...BREAK_JUDGMENTS];
+        const normalize = (field: keyof CalculateRoundPayload, value: any) =>
+            field.endsWith('_judgments') ? JSON.stringify(value, judgmentKeys) : value;
+
+        const fields: ScoreEntryConflict['fields'] = [];
+        for (const field of SCORE_ENTRY_FIELDS) {
+            const previousValue = previous.scores[field];
+            const value = entry.scores[field];
+            // A typed percentage and one computed from judgments are compared through the percentages
+            if (field.endsWith('_judgments') && (!previousValue || !value)) continue;
+            if (normalize(field, previousValue) !== normalize(field, value)) {
+                fields.push({
+                    field,
+                    entries: [
+                        { kinde_user_id: previous.kinde_user_id, value: previousValue ?? null },
+                        { kinde_user_id: entry.kinde_user_id, value: value ?? null },
+                    ],
+                });
             }
-  
-        } catch (e: any) {
-            console.error(`DO (${this.match_do_id}) exception during D1 round archive:`, e);
-            return { success: false, message: `Exception during round archive: ${e.message}` };
         }
+        return fields.length > 0 ? { round_number_in_match: entry.round_number_in_match, fields, flagged_at: entry.submitted_at } : null;
     }
-  
-    // Advance to the next round
-    // Called by the Worker after the frontend confirms the round summary.
+
+    // Sends a score entry conflict to the staff connections of the given referees only
+    private alertReferees(conflict: ScoreEntryConflict, kindeUserIds: string[]): void {
+        const message: ScoreEntryConflictMessage = { type: 'score_entry_conflict', conflict };
+        const payload = JSON.stringify(message);
+        this.getOpenWebSockets().forEach((ws) => {
+            const attachment = ws.deserializeAttachment() as MatchConnectionAttachment | null;
+            if (attachment?.role === 'staff' && attachment.kinde_user_id && kindeUserIds.includes(attachment.kinde_user_id)) {
+                this.sendToWebSocket(ws, payload);
+            }
+        });
+    }
+
+    // --- Player Self-Reports ---
+    // For rounds without a referee at the cabinet, the current player of each team reports their own percentage
+    // (the Worker matches the player by kinde_user_id and stores the photo). Reports stay pending until a referee
+    // approves or rejects them; once both teams' reports of the round are approved, the round is calculated from them.
+    private async submitSelfReport(payload: InternalSelfReportPayload): Promise<{ success: boolean; message?: string; report?: SelfReport }> {
+        if (!this.matchData) {
+            return { success: false, message: "Match data not initialized." };
+        }
+        if (this.matchData.status !== 'pending_scores' || !this.matchData.current_song) {
+            return { success: false, message: `Match is not in 'pending_scores' status (${this.matchData.status}). Cannot report a score.` };
+        }
+        const team = payload.member_id === this.matchData.teamA_current_player_id ? 'teamA'
+            : payload.member_id === this.matchData.teamB_current_player_id ? 'teamB'
+            : null;
+        if (!team) {
+            return { success: false, message: "Only the current player of a team can report the score of this round." };
+        }
+        const round = this.matchData.current_match_song_index + 1;
+        if ((this.matchData.self_reports ?? []).some(r => r.team === team && r.round_number_in_match === round && r.status === 'approved')) {
+            return { success: false, message: `The score of ${team} for round ${round} is already approved.` };
+        }
+
+        const report: SelfReport = {
+            team,
+            round_number_in_match: round,
+            member_id: payload.member_id,
+            kinde_user_id: payload.kinde_user_id,
+            percentage: canonicalPercentage(payload.percentage)!,
+            evidence_key: payload.evidence_key,
+            status: 'pending',
+            submitted_at: new Date().toISOString(),
+            reviewed_by: null,
+            reviewed_at: null,
+            review_reason: null,
+        };
+        this.applySelfReport(this.matchData, report);
+        await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'self-report', payload: { report } }) });
+        this.broadcast(this.matchData);
+        console.log(`DO (${this.match_do_id}) Player ${payload.member_id} (${team}) reported ${report.percentage}% for round ${round}.`);
+        return { success: true, message: `Score of round ${round} reported, waiting for a referee to approve it.`, report };
+    }
+
+    // Helper to add a self-report to a state; it replaces the team's pending report, reviewed ones stay on record
+    private applySelfReport(state: MatchState, report: SelfReport): void {
+        const kept = (state.self_reports ?? []).filter(r => !(r.team === report.team && r.round_number_in_match === report.round_number_in_match && r.status === 'pending'));
+        state.self_reports = [...kept, report];
+    }
+
+    private async reviewSelfReport(payload: ReviewSelfReportPayload, kindeUserId: string): Promise<{ success: boolean; message?: string; roundSummary?: RoundSummary }> {
+        if (!this.matchData) {
+            return { success: false, message: "Match data not initialized." };
+        }
+        if (this.matchData.status !== 'pending_scores') {
+            return { success: false, message: `Match is not in 'pending_scores' status (${this.matchData.status}). Cannot review a self-report.` };
+        }
+        const round = this.matchData.current_match_song_index + 1;
+        if (!(this.matchData.self_reports ?? []).some(r => r.team === payload.team && r.round_number_in_match === round && r.status === 'pending')) {
+            return { success: false, message: `No pending self-report of ${payload.team} for round ${round}.` };
+        }
+
+        const review = { team: payload.team, round_number_in_match: round, approve: payload.approve, reason: payload.reason?.trim() || null, reviewed_by: kindeUserId, reviewed_at: new Date().toISOString() };
+        this.applySelfReportReview(this.matchData, review);
+        await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'review-self-report', payload: review }) });
+        console.log(`DO (${this.match_do_id}) Staff ${kindeUserId} ${payload.approve ? 'approved' : 'rejected'} the self-report of ${payload.team} for round ${round}.`);
+
+        // Both teams approved: the round is calculated from the reported percentages
+        const approved = (team: 'teamA' | 'teamB') => this.matchData!.self_reports!.find(r => r.team === team && r.round_number_in_match === round && r.status === 'approved');
+        const teamAReport = approved('teamA');
+        const teamBReport = approved('teamB');
+        if (teamAReport && teamBReport) {
+            return this.calculateRoundOutcome({ teamA_percentage: teamAReport.percentage, teamB_percentage: teamBReport.percentage });
+        }
+        this.broadcast(this.matchData);
+        return { success: true, message: `Self-report of ${payload.team} for round ${round} ${payload.approve ? 'approved' : 'rejected'}.` };
+    }
+
+    // Helper to apply a referee's review to the pending self-report of a team (live and when replaying the event log)
+    private applySelfReportReview(state: MatchState, review: Extract<MatchEventBody, { type: 'review-self-report' }>['payload']): void {
+        const report = (state.self_reports ?? []).find(r => r.team === review.team && r.round_number_in_match === review.round_number_in_match && r.status === 'pending');
+        if (!report) return;
+        report.status = review.approve ? 'approved' : 'rejected';
+        report.reviewed_by = review.reviewed_by;
+        report.reviewed_at = review.reviewed_at;
+        report.review_reason = review.reason;
+    }
+
+    // Helper to collect the rules engine input for the current round of a state
+    private buildRoundEngineInput(
+        state: MatchState,
+        payload: CalculateRoundPayload,
+        defenderRolls?: { teamA: SeededRoll; teamB: SeededRoll } | null,
+        forcedDefenderPicks?: { teamA?: number | null; teamB?: number | null }
+    ): RoundEngineInput {
+        const round = state.current_match_song_index + 1;
+        return {
+            round_number_in_match: round,
+            song: state.current_song,
+            teamA_player_id: state.teamA_current_player_id,
+            teamB_player_id: state.teamB_current_player_id,
+            teamA_player_nickname: state.teamA_current_player_nickname,
+            teamB_player_nickname: state.teamB_current_player_nickname,
+            teamA_profession: state.teamA_current_player_profession,
+            teamB_profession: state.teamB_current_player_profession,
+            // A player's element is their member color; the engine ignores it unless the ruleset is elemental
+            teamA_element: elementOfColor(this.getMemberById(state.teamA_current_player_id, state.teamA_members)?.color),
+            teamB_element: elementOfColor(this.getMemberById(state.teamB_current_player_id, state.teamB_members)?.color),
+            teamA_health: state.teamA_score,
+            teamB_health: state.teamB_score,
+            teamA_mirror_available: state.teamA_mirror_available,
+            teamB_mirror_available: state.teamB_mirror_available,
+            scores: payload,
+            defender_rolls: defenderRolls,
+            forced_defender_picks: forcedDefenderPicks,
+            random_seed_commitment: state.random_seed_commitment,
+            penalties: (state.penalties ?? []).filter(penalty => penalty.round_number_in_match === round),
+        };
+    }
+
+    // --- What-if Preview ---
+    // Called by the Worker for referees/casters: what would the current round produce with these scores?
+    // Nothing is saved or broadcast. 矩盾手 picks are enumerated instead of rolled, so the seed is not used.
+    private previewRound(payload: CalculateRoundPayload): { success: boolean; message?: string; preview?: RoundPreview } {
+        if (!this.matchData) {
+            return { success: false, message: "Match data not initialized." };
+        }
+        if (this.matchData.status !== 'pending_scores' || !this.matchData.current_song) {
+            return { success: false, message: `Match is not in 'pending_scores' status (${this.matchData.status}). Cannot preview round.` };
+        }
+        const preview = previewRound(this.matchData.ruleset ?? DEFAULT_RULESET, this.buildRoundEngineInput(this.matchData, payload));
+        return { success: true, preview };
+    }
+
+    // --- Round Calculation (no persistence) ---
+    // Runs the rules engine for the current round of the given state and applies the result to it in place.
+    // Used for live calculation as well as for replaying rounds when a result is amended or verified.
+    // defenderRolls are the seeded rolls for the 矩盾手 picks of this round (see rollDefenderTargets);
+    // forcedDefenderPicks re-uses previously recorded choices instead, e.g. for rounds calculated before seeding.
+    private computeRoundOutcome(
+        state: MatchState,
+        payload: CalculateRoundPayload,
+        defenderRolls?: { teamA: SeededRoll; teamB: SeededRoll } | null,
+        forcedDefenderPicks?: { teamA?: number | null; teamB?: number | null }
+    ): { summary: RoundSummary; matchEnded: boolean } {
+        const result = calculateRound(state.ruleset ?? DEFAULT_RULESET, this.buildRoundEngineInput(state, payload, defenderRolls, forcedDefenderPicks));
+        const summary = result.summary;
+        const lineupChanges = (state.lineup_changes ?? []).filter(change => change.from_round === summary.round_number_in_match);
+        if (lineupChanges.length > 0) {
+            summary.lineup_changes = lineupChanges;
+        }
+        const scoreEntries = (state.score_entries ?? []).filter(entry => entry.round_number_in_match === summary.round_number_in_match);
+        if (scoreEntries.length > 0) {
+            summary.score_entries = scoreEntries;
+        }
+        const selfReports = (state.self_reports ?? []).filter(report => report.round_number_in_match === summary.round_number_in_match && report.status === 'approved');
+        if (selfReports.length > 0) {
+            summary.self_reports = selfReports;
+        }
+        state.score_entry_conflict = null;
+
+        // Update match state
+        state.teamA_score = summary.teamA_health_after;
+        state.teamB_score = summary.teamB_health_after;
+        state.teamA_mirror_available = result.teamA_mirror_available;
+        state.teamB_mirror_available = result.teamB_mirror_available;
+        state.status = result.status;
+
+        // Update the current song's status and details in the match song list
+        if (state.current_song) {
+             state.current_song.status = 'completed';
+             state.current_song.teamA_player_id = state.teamA_current_player_id ?? undefined;
+             state.current_song.teamB_player_id = state.teamB_current_player_id ?? undefined;
+             state.current_song.teamA_percentage = summary.teamA_percentage;
+             state.current_song.teamB_percentage = summary.teamB_percentage;
+             // Store the damage dealt *by* the player after their own skills (before opponent defense/healing)
+             state.current_song.teamA_damage_dealt = summary.teamA_final_damage_dealt;
+             state.current_song.teamB_damage_dealt = summary.teamB_final_damage_dealt;
+             state.current_song.teamA_effect_value = summary.teamA_effect_value_applied;
+             state.current_song.teamB_effect_value = summary.teamB_effect_value_applied;
+             state.current_song.teamA_health_after = state.teamA_score;
+             state.current_song.teamB_health_after = state.teamB_score;
+             state.current_song.teamA_mirror_triggered = summary.teamA_mirror_triggered;
+             state.current_song.teamB_mirror_triggered = summary.teamB_mirror_triggered;
+        }
+
+        // Tied at the end of the match: the ruleset's draw resolution decides a winner, another tiebreaker song or staff
+        let matchEnded = result.match_ended;
+        if (state.status === 'tiebreaker_pending_song') {
+            const resolution = evaluateDrawResolution(state.ruleset?.draw_resolution ?? DEFAULT_RULESET.draw_resolution, state);
+            state.draw_resolution = resolution;
+            if (resolution.outcome === 'teamA' || resolution.outcome === 'teamB') {
+                state.status = resolution.outcome === 'teamA' ? 'team_A_wins' : 'team_B_wins';
+                matchEnded = true;
+            } else if (resolution.outcome === 'manual') {
+                state.status = 'draw_pending_resolution';
+            }
+        }
+
+        state.roundSummary = summary;
+        return { summary, matchEnded };
+    }
+  
+  
+    // Helper to set up a state for playing the song at songIndex:
+    // moves current_song, determines the players for the round and resets status to pending_scores.
+    // Used when advancing normally, after a tiebreaker song is added, and when replaying amended rounds.
+    private prepareRound(state: MatchState, songIndex: number): void {
+        state.current_match_song_index = songIndex;
+        state.current_song = state.match_song_list[songIndex];
+        state.current_song.status = 'ongoing'; // Set the new current song status
+
+        // Determine players for the round
+        this.setCurrentPlayers(state);
+
+        // Clear the round summary, timer, referee flag, score entries and self-reports for the new round
+        state.roundSummary = null;
+        state.timer = null;
+        state.referee_attention = null;
+        state.score_entries = [];
+        state.score_entry_conflict = null;
+        state.self_reports = [];
+        // Set status back to pending_scores for the new round
+        state.status = 'pending_scores';
+    }
+
+    // Helper to build the UPSERT of one round into D1 match_rounds_history.
+    // Keyed on (tournament_match_id, round_number_in_match), so re-archiving a round overwrites it.
+    private buildRoundHistoryWrite(tournamentMatchId: number, summary: RoundSummary, song: MatchSong): D1Write {
+        return {
+            sql: `INSERT INTO match_rounds_history (
+                tournament_match_id, match_do_id, round_number_in_match,
+                song_id, selected_difficulty, picker_team_id, picker_member_id,
+                team1_member_id, team2_member_id, team1_percentage, team2_percentage,
+                team1_damage_dealt, team2_damage_dealt, team1_health_change, team2_health_change,
+                team1_health_before, team2_health_before, team1_health_after, team2_health_after,
+                team1_mirror_triggered, team2_mirror_triggered, team1_effect_value, team2_effect_value,
+                is_tiebreaker_song, recorded_at, round_summary_json
+             )
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(tournament_match_id, round_number_in_match) DO UPDATE SET
+                song_id = excluded.song_id,
+                selected_difficulty = excluded.selected_difficulty,
+                picker_team_id = excluded.picker_team_id,
+                picker_member_id = excluded.picker_member_id,
+                team1_member_id = excluded.team1_member_id,
+                team2_member_id = excluded.team2_member_id,
+                team1_percentage = excluded.team1_percentage,
+                team2_percentage = excluded.team2_percentage,
+                team1_damage_dealt = excluded.team1_damage_dealt,
+                team2_damage_dealt = excluded.team2_damage_dealt,
+                team1_health_change = excluded.team1_health_change,
+                team2_health_change = excluded.team2_health_change,
+                team1_health_before = excluded.team1_health_before,
+                team2_health_before = excluded.team2_health_before,
+                team1_health_after = excluded.team1_health_after,
+                team2_health_after = excluded.team2_health_after,
+                team1_mirror_triggered = excluded.team1_mirror_triggered,
+                team2_mirror_triggered = excluded.team2_mirror_triggered,
+                team1_effect_value = excluded.team1_effect_value,
+                team2_effect_value = excluded.team2_effect_value,
+                is_tiebreaker_song = excluded.is_tiebreaker_song,
+                recorded_at = excluded.recorded_at,
+                round_summary_json = excluded.round_summary_json
+            `,
+            params: [
+                tournamentMatchId,
+                this.match_do_id,
+                summary.round_number_in_match,
+                summary.song_id,
+                summary.selected_difficulty,
+                song.picker_team_id,
+                song.picker_member_id,
+                summary.teamA_player_id,
+                summary.teamB_player_id,
+                summary.teamA_percentage,
+                summary.teamB_percentage,
+                summary.teamA_final_damage_dealt, // This is damage dealt *by* player after their own skills
+                summary.teamB_final_damage_dealt, // This is damage dealt *by* player after their own skills
+                summary.teamA_health_change,
+                summary.teamB_health_change,
+                summary.teamA_health_before_round,
+                summary.teamB_health_before_round,
+                summary.teamA_health_after,
+                summary.teamB_health_after,
+                summary.teamA_mirror_triggered ? 1 : 0, // Store boolean as integer 1 or 0
+                summary.teamB_mirror_triggered ? 1 : 0,
+                summary.teamA_effect_value_applied,
+                summary.teamB_effect_value_applied,
+                summary.is_tiebreaker_song ? 1 : 0, // Store boolean as integer 1 or 0
+                new Date().toISOString(),
+                JSON.stringify(summary) // Store the full summary JSON
+            ].map(param => param ?? null), // D1 rejects undefined bindings
+        };
+    }
+
+    // Helper to build the DELETE of one round from D1 match_rounds_history
+    private buildRoundHistoryDelete(tournamentMatchId: number, roundNumber: number): D1Write {
+        return {
+            sql: 'DELETE FROM match_rounds_history WHERE tournament_match_id = ? AND round_number_in_match = ?',
+            params: [tournamentMatchId, roundNumber],
+        };
+    }
+
+    // Helper to build the INSERT of one penalty into D1 match_penalties (a no-op if it is already there)
+    private buildPenaltyWrite(state: MatchState, penalty: Penalty): D1Write {
+        return {
+            sql: `INSERT INTO match_penalties (
+                id, tournament_match_id, match_do_id, team_id, category, amount, reason, scope, round_number_in_match, issued_by, issued_at
+             )
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(id) DO NOTHING`,
+            params: [
+                penalty.id,
+                state.tournament_match_id,
+                this.match_do_id,
+                penalty.team === 'teamA' ? state.teamA_id : state.teamB_id,
+                penalty.category,
+                penalty.amount,
+                penalty.reason,
+                penalty.scope,
+                penalty.round_number_in_match,
+                penalty.issued_by,
+                penalty.issued_at,
+            ],
+        };
+    }
+
+    // Archive the current round's data to D1 match_rounds_history table
+    // Called automatically after calculateRoundOutcome if status is 'round_finished'
+    // Or called explicitly by Worker if needed (e.g., after draw resolution)
+    private async archiveCurrentRound(): Promise<{ success: boolean; message?: string; d1RecordId?: string | number | null }> {
+        if (!this.matchData || !this.matchData.roundSummary || !this.matchData.current_song) {
+            return { success: false, message: "No match data, round summary, or current song to archive round." };
+        }
+        if (this.matchData.status === 'archived') {
+            return { success: false, message: "Match is already archived, cannot archive rounds." };
+        }
+  
+        const summary = this.matchData.roundSummary;
+        const currentSong = this.matchData.current_song;
+  
+        // Ensure tournament_match_id is valid before attempting D1 write
+        if (this.matchData.tournament_match_id === -1) {
+             console.warn(`DO (${this.match_do_id}) Cannot archive round ${summary.round_number_in_match}: tournament_match_id is -1.`);
+             return { success: false, message: "Match not linked to a tournament match ID." };
+        }
+  
+  
+        try {
+            // Queued in the outbox first, so a failed D1 write is retried instead of lost
+            await this.state.storage.put(this.nextOutboxEntry(
+                `Archive round ${summary.round_number_in_match}`,
+                [this.buildRoundHistoryWrite(this.matchData.tournament_match_id, summary, currentSong)]
+            ));
+            const outbox = await this.flushOutbox();
+            if (outbox.pending > 0) {
+                return { success: true, message: `Round ${summary.round_number_in_match} queued for D1, will be retried (${outbox.last_error}).`, d1RecordId: null };
+            }
+            console.log(`DO (${this.match_do_id}) Round ${summary.round_number_in_match} data archived/updated in D1 match_rounds_history.`);
+            return { success: true, message: `Round ${summary.round_number_in_match} archived.`, d1RecordId: null };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) exception queuing round archive:`, e);
+            return { success: false, message: `Exception during round archive: ${e.message}` };
+        }
+    }
+  
+    // Advance to the next round
+    // Called by the Worker after the frontend confirms the round summary.
     private async nextRound(): Promise<{ success: boolean; message?: string }> {
         if (!this.matchData) {
             return { success: false, message: "No match data to advance round." };
@@ -982,8 +1491,7 @@ import type {
         const archiveResult = await this.archiveCurrentRound();
         if (!archiveResult.success) {
             console.warn(`DO (${this.match_do_id}) Failed to auto-archive current round ${this.matchData.current_match_song_index + 1} before advancing:`, archiveResult.message);
-            // Decide if you want to block advancing if archiving fails.
-            // For now, we'll log a warning and proceed, assuming archiving can be retried or isn't critical path.
+            // Only fails when the match has no tournament match or storage failed; D1 errors are retried from the outbox
         }
   
         const nextSongIndex = this.matchData.current_match_song_index + 1;
@@ -1003,30 +1511,11 @@ import type {
         }
   
         // Update state for the next round
-        this.matchData.current_match_song_index = nextSongIndex;
-        this.matchData.current_song = this.matchData.match_song_list[nextSongIndex];
-        this.matchData.current_song.status = 'ongoing'; // Set the new current song status
-  
-        // Determine players for the next round
-        const { playerAId, playerBId } = this.getCurrentPlayers(this.matchData);
-        const memberA = this.getMemberById(playerAId, this.matchData.teamA_members);
-        const memberB = this.getMemberById(playerBId, this.matchData.teamB_members);
-  
-        this.matchData.teamA_current_player_id = playerAId;
-        this.matchData.teamB_current_player_id = playerBId;
-        this.matchData.teamA_current_player_nickname = memberA?.nickname || '未知选手';
-        this.matchData.teamB_current_player_nickname = memberB?.nickname || '未知选手';
-        this.matchData.teamA_current_player_profession = this.getInternalProfession(memberA?.job);
-        this.matchData.teamB_current_player_profession = this.getInternalProfession(memberB?.job);
-  
-        // Clear the round summary for the new round
-        this.matchData.roundSummary = null;
-        // Set status back to pending_scores for the new round
-        this.matchData.status = 'pending_scores';
+        this.prepareRound(this.matchData, nextSongIndex);
   
         try {
             // Save the updated state
-            await this.state.storage.put('matchData', this.matchData);
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'next-round', payload: { song_index: nextSongIndex } }) });
             // Broadcast the updated state
             this.broadcast(this.matchData);
             console.log(`DO (${this.match_do_id}) advanced to Round ${this.matchData.current_match_song_index + 1}`);
@@ -1040,9 +1529,9 @@ import type {
         }
     }
   
-    // Staff selects a tiebreaker song
-    // This method now receives song_details from the Worker
-    private async selectTiebreakerSong(payload: SelectTiebreakerSongPayload & { song_details: Song }): Promise<{ success: boolean; message?: string }> {
+    // Staff selects a tiebreaker song, or has one drawn from a pool with the match seed
+    // This method receives the song (pick) or the pool's songs (draw) from the Worker
+    private async selectTiebreakerSong(payload: InternalSelectTiebreakerPayload): Promise<{ success: boolean; message?: string; tiebreakerDraw?: TiebreakerDraw }> {
         if (!this.matchData) {
             return { success: false, message: "No match data to select tiebreaker song." };
         }
@@ -1050,69 +1539,54 @@ import type {
             return { success: false, message: `Match status is '${this.matchData.status}'. Must be 'tiebreaker_pending_song' to select tiebreaker.` };
         }
   
-        console.log(`DO (${this.match_do_id}) Staff selecting tiebreaker song: ${payload.song_id} (${payload.selected_difficulty})`);
-  
-        try {
-            const song = payload.song_details; // Use song details passed from Worker
-            const parsedLevels: SongLevel = song.levels_json ? JSON.parse(song.levels_json) : {};
-            const difficultyValue = parsedLevels[payload.selected_difficulty as keyof SongLevel] || '??';
-            const fullDifficultyString = `${payload.selected_difficulty} ${difficultyValue}`;
-  
-            // Construct the MatchSong object for the tiebreaker
-            const tiebreakerSong: MatchSong = {
-                song_id: song.id,
-                song_title: song.title,
-                song_difficulty: fullDifficultyString,
-                // Example mapping for element based on category (adjust as needed)
-                song_element: song.category === 'original' ? 'fire' : song.category === 'niconico' ? 'wood' : null,
-                cover_filename: song.cover_filename,
-                bpm: song.bpm,
-                // Construct fullCoverUrl using the R2 bucket name
-                fullCoverUrl: song.cover_filename && this.env.SONG_COVER_BUCKET?.name
-                    ? `https://${this.env.SONG_COVER_BUCKET.name}.r2.dev/${song.cover_filename}`
-                    : undefined,
-  
-                // Assign picker info (can use a special ID for Staff/System)
-                // TODO: Define a Staff/System member ID or team ID for tiebreakers
-                picker_member_id: -1, // Placeholder for Staff/System
-                picker_team_id: -1, // Placeholder for Staff/System
+        let tiebreakerSong: MatchSong;
+        if (payload.mode === 'draw') {
+            const filter = payload.pool!;
+            const seed = await this.state.storage.get<string>(RANDOM_SEED_KEY);
+            if (!seed) {
+                return { success: false, message: "This match has no random seed, cannot draw a tiebreaker." };
+            }
+            const pool = filterTiebreakerPool(payload.pool_songs ?? [], filter, this.matchData.match_song_list.map(song => song.song_id));
+            if (pool.length === 0) {
+                return { success: false, message: "No song in the tiebreaker pool matches the filter." };
+            }
+            const roll = await deriveSeededRoll(seed, tiebreakerRollLabel(this.matchData.match_song_list.length + 1));
+            const song = pool[rollToIndex(roll.roll, pool.length)];
+            console.log(`DO (${this.match_do_id}) Drew tiebreaker song ${song.id} (${filter.difficulty}) from a pool of ${pool.length}`);
+            tiebreakerSong = {
+                ...this.buildMatchSong(song, filter.difficulty, 'draw'),
+                is_tiebreaker_song: true,
+                tiebreaker_draw: {
+                    filter,
+                    pool_song_ids: pool.map(candidate => candidate.id),
+                    roll,
+                    random_seed_commitment: this.matchData.random_seed_commitment ?? null,
+                },
+            };
+        } else {
+            console.log(`DO (${this.match_do_id}) Staff selecting tiebreaker song: ${payload.song_id} (${payload.selected_difficulty})`);
+            // Construct the MatchSong object for the tiebreaker from the song details passed from Worker
+            tiebreakerSong = {
+                ...this.buildMatchSong(payload.song_details!, payload.selected_difficulty!, 'staff'),
                 is_tiebreaker_song: true, // Mark as tiebreaker
-  
-                status: 'pending', // Status starts as pending
             };
+        }
+  
+        try {
   
             // Add the tiebreaker song to the end of the match song list
+            const tiebreakerEvent = this.nextEventEntry({ type: 'select-tiebreaker-song', payload: { song: structuredClone(tiebreakerSong) } });
             this.matchData.match_song_list.push(tiebreakerSong);
   
-            // Advance the index to the newly added tiebreaker song
-            this.matchData.current_match_song_index = this.matchData.match_song_list.length - 1;
-            this.matchData.current_song = tiebreakerSong;
-            this.matchData.current_song.status = 'ongoing'; // Set status to ongoing
-  
-            // Determine players for the tiebreaker round (usually continues the cycle)
-            const { playerAId, playerBId } = this.getCurrentPlayers(this.matchData);
-            const memberA = this.getMemberById(playerAId, this.matchData.teamA_members);
-            const memberB = this.getMemberById(playerBId, this.matchData.teamB_members);
-  
-            this.matchData.teamA_current_player_id = playerAId;
-            this.matchData.teamB_current_player_id = playerBId;
-            this.matchData.teamA_current_player_nickname = memberA?.nickname || '未知选手';
-            this.matchData.teamB_current_player_nickname = memberB?.nickname || '未知选手';
-            this.matchData.teamA_current_player_profession = this.getInternalProfession(memberA?.job);
-            this.matchData.teamB_current_player_profession = this.getInternalProfession(memberB?.job);
-  
-  
-            // Clear the round summary for the new round
-            this.matchData.roundSummary = null;
-            // Set status back to pending_scores for the tiebreaker round
-            this.matchData.status = 'pending_scores';
+            // Advance the index to the newly added tiebreaker song (players usually continue the cycle)
+            this.prepareRound(this.matchData, this.matchData.match_song_list.length - 1);
   
             // Save and broadcast the updated state
-            await this.state.storage.put('matchData', this.matchData);
+            await this.state.storage.put({ matchData: this.matchData, ...tiebreakerEvent });
             this.broadcast(this.matchData);
   
             console.log(`DO (${this.match_do_id}) Tiebreaker song selected. Advanced to Round ${this.matchData.current_match_song_index + 1}`);
-            return { success: true, message: `Tiebreaker song selected. Advanced to Round ${this.matchData.current_match_song_index + 1}` };
+            return { success: true, message: `Tiebreaker song selected. Advanced to Round ${this.matchData.current_match_song_index + 1}`, tiebreakerDraw: tiebreakerSong.tiebreaker_draw ?? undefined };
   
         } catch (e: any) {
             console.error(`DO (${this.match_do_id}) exception selecting tiebreaker song:`, e);
@@ -1124,17 +1598,172 @@ import type {
     }
   
   
+    // Helper to build a pending match song from a row of the songs table.
+    // difficulty is a key of levels_json (B/A/E/M/R); the stored difficulty also carries the level, e.g. "M 13+".
+    private buildMatchSong(song: Song, difficulty: string, pickerType: MatchSongPickerType, pickerMemberId: number | null = null, pickerTeamId: number | null = null): MatchSong {
+        const parsedLevels: SongLevel = song.levels_json ? JSON.parse(song.levels_json) : {};
+        const difficultyValue = parsedLevels[difficulty as keyof SongLevel] || '??';
+        return {
+            song_id: song.id,
+            song_title: song.title,
+            song_difficulty: `${difficulty} ${difficultyValue}`,
+            song_element: songElementOfCategory(song.category),
+            cover_filename: song.cover_filename,
+            bpm: song.bpm,
+            // Construct fullCoverUrl using the R2 bucket name
+            fullCoverUrl: song.cover_filename && this.env.SONG_COVER_BUCKET?.name
+                ? `https://${this.env.SONG_COVER_BUCKET.name}.r2.dev/${song.cover_filename}`
+                : undefined,
+            picker_type: pickerType,
+            picker_member_id: pickerMemberId,
+            picker_team_id: pickerTeamId,
+            status: 'pending', // Status starts as pending
+        };
+    }
+
+    // Helper to apply a song list edit to a state; song is the chart to put in place (null for a reorder).
+    // Only songs whose scores are not in can change: the current song while pending_scores (replace only)
+    // and every song after it. Used live and when replaying the event log.
+    private applySongListEdit(state: MatchState, edit: SongListEditPayload, song: MatchSong | null): { success: boolean; message?: string } {
+        if (state.status !== 'pending_scores' && state.status !== 'round_finished') {
+            return { success: false, message: `Match status is '${state.status}', cannot edit the song list.` };
+        }
+        const list = state.match_song_list;
+        const currentIndex = state.current_match_song_index;
+        // First song that has not started yet
+        const firstPending = currentIndex + 1;
+
+        if (edit.action === 'replace') {
+            const firstEditable = state.status === 'pending_scores' ? currentIndex : firstPending;
+            if (!Number.isInteger(edit.song_index) || edit.song_index < firstEditable || edit.song_index >= list.length || !song) {
+                return { success: false, message: `Song ${edit.song_index} cannot be replaced; songs ${firstEditable}-${list.length - 1} can.` };
+            }
+            const previous = list[edit.song_index];
+            // Keep the song's slot: who picked it and whether it is a tiebreaker
+            list[edit.song_index] = {
+                ...song,
+                picker_type: previous.picker_type,
+                picker_member_id: previous.picker_member_id,
+                picker_team_id: previous.picker_team_id,
+                is_tiebreaker_song: previous.is_tiebreaker_song,
+                tiebreaker_draw: previous.tiebreaker_draw,
+                status: previous.status,
+            };
+        } else if (edit.action === 'reorder') {
+            const pendingIndexes = list.map((_, index) => index).filter(index => index >= firstPending);
+            const sorted = (indexes: number[]) => [...indexes].sort((a, b) => a - b).join(',');
+            if (!Array.isArray(edit.song_indexes) || sorted(edit.song_indexes) !== sorted(pendingIndexes)) {
+                return { success: false, message: `song_indexes must list the pending songs (${pendingIndexes.join(', ')}) in their new order.` };
+            }
+            const reordered = edit.song_indexes.map(index => list[index]);
+            list.splice(firstPending, reordered.length, ...reordered);
+        } else if (edit.action === 'insert') {
+            if (!Number.isInteger(edit.song_index) || edit.song_index < firstPending || edit.song_index > list.length || !song) {
+                return { success: false, message: `A song can only be inserted at positions ${firstPending}-${list.length}.` };
+            }
+            list.splice(edit.song_index, 0, song);
+        } else {
+            return { success: false, message: `Unknown song list edit action.` };
+        }
+
+        state.current_song = list[currentIndex] ?? null;
+        return { success: true };
+    }
+
+    // Replace a pending song's chart or difficulty, reorder the pending songs, or insert a substitute song.
+    // Charts come from the songs table and the difficulty must exist in the song's levels_json.
+    private async editSongList(edit: SongListEditPayload): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to edit the song list." };
+        }
+
+        let song: MatchSong | null = null;
+        if (edit.action === 'replace' || edit.action === 'insert') {
+            const songId = edit.action === 'replace' ? edit.song_id ?? this.matchData.match_song_list[edit.song_index]?.song_id : edit.song_id;
+            const songRow = songId !== undefined
+                ? await this.env.DB.prepare('SELECT * FROM songs WHERE id = ?').bind(songId).first<Song>()
+                : null;
+            if (!songRow) {
+                return { success: false, message: `Song ${songId} not found.` };
+            }
+            const parsedLevels: SongLevel = songRow.levels_json ? JSON.parse(songRow.levels_json) : {};
+            if (!parsedLevels[edit.difficulty as keyof SongLevel]) {
+                return { success: false, message: `Song ${songRow.id} has no '${edit.difficulty}' difficulty (available: ${Object.keys(parsedLevels).join(', ') || 'none'}).` };
+            }
+            // Inserted songs are picked by staff, like tiebreakers
+            song = this.buildMatchSong(songRow, edit.difficulty, 'staff');
+        }
+
+        const result = this.applySongListEdit(this.matchData, edit, song);
+        if (!result.success) {
+            return result;
+        }
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'edit-song-list', payload: { edit, song } }) });
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Song list edited (${edit.action})${edit.reason ? `: ${edit.reason}` : ''}`);
+            return { success: true, message: `Song list edited (${edit.action}).` };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after editing the song list:`, e);
+            return { success: false, message: `Failed to edit song list: ${e.message}` };
+        }
+    }
+
+
+    // Close a live match with a forfeit, disqualification or double no-show instead of playing it out.
+    // The result replaces the scores: the match is archived with the given winner and no final scores.
+    private async recordAdministrativeResult(payload: RecordMatchResultPayload): Promise<{ success: boolean; message?: string; d1RecordId?: string | number | null }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to record a result for." };
+        }
+        if (this.matchData.status === 'archived') {
+            return { success: false, message: "Match is already archived." };
+        }
+        const winnerTeamId = payload.winner_team_id ?? null;
+        if (payload.result_type === 'double_no_show' ? winnerTeamId !== null : winnerTeamId !== this.matchData.teamA_id && winnerTeamId !== this.matchData.teamB_id) {
+            return { success: false, message: `Invalid winner_team_id ${winnerTeamId} for a ${payload.result_type}.` };
+        }
+
+        console.log(`DO (${this.match_do_id}) recording ${payload.result_type}, winner ${winnerTeamId}: ${payload.reason}`);
+        return this.archiveMatch({ result_type: payload.result_type, winner_team_id: winnerTeamId, reason: payload.reason, recorded_at: new Date().toISOString() });
+    }
+
+    // Helper to check that no protest against a round is waiting for an admin ruling, which keeps the result from being finalized
+    private async checkNoOpenDisputes(): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData || this.matchData.tournament_match_id === -1) {
+            return { success: true };
+        }
+        try {
+            const openDisputes = await this.env.DB.prepare("SELECT COUNT(*) AS count FROM round_disputes WHERE tournament_match_id = ? AND status = 'open'")
+                .bind(this.matchData.tournament_match_id)
+                .first<{ count: number }>();
+            if (openDisputes && openDisputes.count > 0) {
+                return { success: false, message: `${openDisputes.count} open dispute(s) must be ruled on first.` };
+            }
+            return { success: true };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) Failed to check open disputes:`, e);
+            return { success: false, message: `Failed to check open disputes: ${e.message}` };
+        }
+    }
+
     // Archive the entire match summary and rounds to D1
-    // Called by the Worker when the match is finalized (e.g., after a win/loss or draw resolution).
-    private async archiveMatch(): Promise<{ success: boolean; message?: string; d1RecordId?: string | number | null }> {
+    // Called by the Worker when the match is finalized (e.g., after a win/loss or draw resolution),
+    // or with the administrative result of a match that was not played out.
+    private async archiveMatch(administrativeResult: AdministrativeResult | null = null): Promise<{ success: boolean; message?: string; d1RecordId?: string | number | null }> {
         if (!this.matchData) {
             return { success: false, message: "No match data to archive match." };
         }
         if (this.matchData.status === 'archived') {
             return { success: true, message: "Match already archived.", d1RecordId: this.match_do_id };
         }
+        const disputes = await this.checkNoOpenDisputes();
+        if (!disputes.success) {
+            return { success: false, message: `Cannot archive match: ${disputes.message}` };
+        }
         // Log a warning if archiving from a non-final state
-        if (!['team_A_wins', 'team_B_wins', 'draw_pending_resolution', 'completed'].includes(this.matchData.status)) {
+        if (!administrativeResult && !['team_A_wins', 'team_B_wins', 'draw_pending_resolution', 'completed'].includes(this.matchData.status)) {
              console.warn(`DO (${this.match_do_id}): Archiving match from non-final state: ${this.matchData.status}`);
         }
   
@@ -1163,64 +1792,90 @@ import type {
             // The current flow assumes rounds are archived one by one via nextRound or this final archive.
   
   
-            // Update the tournament_matches record in D1 with final status and scores
+            // Reveal the seed so that every 矩盾手 pick of this match can be verified against the commitment
+            const randomSeed = await this.state.storage.get<string>(RANDOM_SEED_KEY);
+            this.matchData.random_seed = randomSeed ?? null;
+            if (administrativeResult) {
+                this.matchData.administrative_result = administrativeResult;
+            }
+            const archiveEvent = this.nextEventEntry({ type: 'archive-match', payload: { random_seed: this.matchData.random_seed, ...(administrativeResult ? { administrative_result: administrativeResult } : {}) } });
+
+            // Update the tournament_matches record in D1 with final status and scores, queued in the outbox with the final state
+            let outboxEntry: Record<string, D1OutboxEntry> = {};
             if (this.matchData.tournament_match_id && this.matchData.tournament_match_id !== -1) {
-                try {
-                    const winnerTeamId = this.determineWinnerTeamId(this.matchData);
-  
-                    // Map DO status to D1 tournament_matches status
-                    const tournamentMatchStatus = ['team_A_wins', 'team_B_wins'].includes(this.matchData.status) ? 'completed'
-                                                    : this.matchData.status === 'draw_pending_resolution' ? 'completed' // Draw is also a completed state
-                                                    : 'archived'; // Any other state when archiving is just archived
-  
-  
-                    const updateTournamentStmt = this.env.DB.prepare(
-                        `UPDATE tournament_matches SET
-                           status = ?,
-                           winner_team_id = ?,
-                           final_score_team1 = ?,
-                           final_score_team2 = ?,
-                           match_do_id = ?, -- Store the DO ID in the D1 record
-                           updated_at = ?
-                         WHERE id = ?`
-                    );
-                    const updateTournamentResult = await updateTournamentStmt.bind(
+                const winnerTeamId = administrativeResult ? administrativeResult.winner_team_id : this.determineWinnerTeamId(this.matchData);
+  
+                // Map DO status to D1 tournament_matches status
+                const tournamentMatchStatus = administrativeResult ? 'completed'
+                                                : ['team_A_wins', 'team_B_wins'].includes(this.matchData.status) ? 'completed'
+                                                : this.matchData.status === 'draw_pending_resolution' ? 'completed' // Draw is also a completed state
+                                                : 'archived'; // Any other state when archiving is just archived
+                // Administrative results have no final scores; a match archived from a non-final state has no result
+                const resultType = administrativeResult ? administrativeResult.result_type : tournamentMatchStatus === 'completed' ? 'played' : null;
+  
+  
+                const updateTournament: D1Write = {
+                    sql: `UPDATE tournament_matches SET
+                       status = ?,
+                       winner_team_id = ?,
+                       final_score_team1 = ?,
+                       final_score_team2 = ?,
+                       match_do_id = ?, -- Store the DO ID in the D1 record
+                       random_seed_commitment = ?,
+                       random_seed = ?, -- Revealed seed
+                       draw_resolution_json = ?,
+                       result_type = ?,
+                       result_reason = ?,
+                       updated_at = ?
+                     WHERE id = ?`,
+                    params: [
                         tournamentMatchStatus,
                         winnerTeamId,
-                        this.matchData.teamA_score,
-                        this.matchData.teamB_score,
+                        administrativeResult ? null : this.matchData.teamA_score,
+                        administrativeResult ? null : this.matchData.teamB_score,
                         this.match_do_id, // Save the DO ID
+                        this.matchData.random_seed_commitment ?? null,
+                        this.matchData.random_seed,
+                        this.matchData.draw_resolution ? JSON.stringify(this.matchData.draw_resolution) : null,
+                        resultType,
+                        administrativeResult?.reason ?? null,
                         new Date().toISOString(),
                         this.matchData.tournament_match_id
-                    ).run();
-  
-                    if (!updateTournamentResult.success) {
-                        console.error(`DO (${this.match_do_id}) failed to update tournament_matches entry ${this.matchData.tournament_match_id}:`, updateTournamentResult.error);
-                    } else {
-                        console.log(`DO (${this.match_do_id}) updated tournament_matches entry ${this.matchData.tournament_match_id} status to '${tournamentMatchStatus}'.`);
-                    }
-  
-                } catch (e: any) {
-                    console.error(`DO (${this.match_do_id}) exception during tournament_matches update:`, e);
-                    // Decide if this failure should prevent archiving the DO state
-                    // For now, we'll log and continue.
-                }
+                    ],
+                };
+
+                // Copy the event log (including this archive) to D1, replacing any log of an earlier run of this match
+                const storedEvents = await this.state.storage.list<MatchEvent>({ prefix: MATCH_EVENT_PREFIX });
+                const events = [...storedEvents.values(), ...Object.values(archiveEvent)];
+                const tournamentMatchId = this.matchData.tournament_match_id;
+                outboxEntry = this.nextOutboxEntry(`Archive match ${tournamentMatchId} as '${tournamentMatchStatus}' with ${events.length} events`, [
+                    updateTournament,
+                    { sql: 'DELETE FROM match_events WHERE tournament_match_id = ?', params: [tournamentMatchId] },
+                    ...events.map(event => ({
+                        sql: 'INSERT INTO match_events (tournament_match_id, seq, event_type, payload_json, created_at) VALUES (?, ?, ?, ?, ?)',
+                        params: [tournamentMatchId, event.seq, event.type, JSON.stringify(event.payload), event.created_at],
+                    })),
+                ]);
             }
   
   
-            // Set the DO's internal state to archived
+            // Set the DO's internal state to archived and stop a running song timer
             this.matchData.status = 'archived';
+            this.matchData.timer = null;
             // Save the final state to storage
-            await this.state.storage.put('matchData', this.matchData);
+            await this.state.storage.put({ matchData: this.matchData, ...archiveEvent, ...outboxEntry });
             // Broadcast the final state
             this.broadcast(this.matchData);
   
             // Close all WebSocket connections
-            this.websockets.forEach(ws => ws.close(1000, "Match archived and finished."));
-            this.websockets = [];
+            this.closeAllConnections(1000, "Match archived and finished.");
   
             console.log(`DO (${this.match_do_id}) Match archived.`);
-            // Return success even if D1 update failed, as the DO state is archived
+            const outbox = await this.flushOutbox();
+            if (outbox.pending > 0) {
+                // The DO state is archived; the D1 writes are retried from the outbox
+                return { success: true, message: `Match data archived, D1 update queued for retry (${outbox.last_error}).`, d1RecordId: this.match_do_id };
+            }
             return { success: true, message: "Match data archived.", d1RecordId: this.match_do_id };
   
   
@@ -1240,9 +1895,22 @@ import type {
         if (this.matchData.status !== 'draw_pending_resolution') {
             return { success: false, message: `Match status is '${this.matchData.status}'. Must be 'draw_pending_resolution' to resolve.` };
         }
+        // Checked before the winner is recorded, so a draw that cannot be archived yet stays unresolved
+        const disputes = await this.checkNoOpenDisputes();
+        if (!disputes.success) {
+            return { success: false, message: `Cannot resolve draw: ${disputes.message}` };
+        }
   
         console.log(`DO (${this.match_do_id}) Resolving draw. Winner: ${winnerDesignation}`);
   
+        // Record the decision next to the strategies that could not break the tie
+        this.matchData.draw_resolution = {
+            round_number_in_match: this.matchData.draw_resolution?.round_number_in_match ?? this.matchData.current_match_song_index + 1,
+            steps: this.matchData.draw_resolution?.steps ?? [{ strategy: 'manual' }],
+            decided_by: 'manual',
+            outcome: winnerDesignation,
+        };
+
         // Set the final status based on the winner designation
         if (winnerDesignation === 'teamA') {
             this.matchData.status = 'team_A_wins';
@@ -1258,7 +1926,8 @@ import type {
             return { success: false, message: "Invalid winner designation." };
         }
   
-        // Archive the match after resolving the draw
+        // Record the resolution, then archive the match
+        await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'resolve-draw', payload: { winner: winnerDesignation } }) });
         const archiveResult = await this.archiveMatch();
         if (!archiveResult.success) {
             console.error(`DO (${this.match_do_id}) Failed to auto-archive match after draw resolution:`, archiveResult.message);
@@ -1270,68 +1939,953 @@ import type {
         console.log(`DO (${this.match_do_id}) Draw resolved. New status: ${this.matchData.status}`);
         return { success: true, message: `Draw resolved. ${this.matchData.status.replace('_', ' ')}.` };
     }
-  
-  
+
+    // Undo the most recently calculated round by restoring the snapshot taken before it was calculated.
+    // Called by the Worker when a referee mistyped a score.
+    private async undoLastRound(): Promise<{ success: boolean; message?: string; undoneRound?: number }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to undo round." };
+        }
+        if (this.matchData.status === 'archived') {
+            return { success: false, message: "Match is already archived, cannot undo rounds." };
+        }
+        if (this.matchData.status === 'paused') {
+            return { success: false, message: "Match is paused. Resume it before undoing rounds." };
+        }
+
+        // The last snapshot in key order belongs to the most recently calculated round
+        const snapshots = await this.state.storage.list<MatchState>({ prefix: ROUND_SNAPSHOT_PREFIX });
+        const snapshotKeys = Array.from(snapshots.keys());
+        if (snapshotKeys.length === 0) {
+            return { success: false, message: "No calculated round to undo." };
+        }
+        const snapshotKey = snapshotKeys[snapshotKeys.length - 1];
+        const snapshot = snapshots.get(snapshotKey)!;
+        const roundNumber = snapshot.current_match_song_index + 1;
+
+        console.log(`DO (${this.match_do_id}) Undoing round ${roundNumber}. Current status: ${this.matchData.status}`);
+
+        // Remove the round from D1 history (a no-op if it was never archived), queued in the outbox with the restored state
+        const outboxEntry = this.matchData.tournament_match_id !== -1
+            ? this.nextOutboxEntry(`Undo round ${roundNumber}`, [this.buildRoundHistoryDelete(this.matchData.tournament_match_id, roundNumber)])
+            : {};
+
+        // Restore the snapshot and re-link current_song to the entry in the restored song list.
+        // Lineup changes, penalties and song list edits made since then only affect this or later rounds, so they are kept.
+        snapshot.lineup_changes = this.matchData.lineup_changes;
+        snapshot.penalties = this.matchData.penalties;
+        this.adoptPendingSongs(snapshot, this.matchData);
+        this.matchData = snapshot;
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...outboxEntry, ...this.nextEventEntry({ type: 'undo-round', payload: { round_number_in_match: roundNumber } }) });
+            await this.state.storage.delete([snapshotKey, this.roundSummaryKey(roundNumber)]);
+            await this.flushOutbox();
+            // Broadcast the restored state
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Round ${roundNumber} undone. Status restored to: ${this.matchData.status}`);
+            return { success: true, message: `Round ${roundNumber} undone.`, undoneRound: roundNumber };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after undo:`, e);
+            return { success: false, message: `Failed to save state after undo: ${e.message}` };
+        }
+    }
+
+
+    // Helper to validate a substitution or re-order against the team's member list and apply it to a state.
+    // Used live and when replaying the event log.
+    private applyLineupChange(state: MatchState, payload: LineupChangePayload, changedAt: string): { success: boolean; message?: string; lineupChange?: LineupChange } {
+        if (!['pending_scores', 'round_finished', 'tiebreaker_pending_song'].includes(state.status)) {
+            return { success: false, message: `Match status is '${state.status}', cannot change the lineup.` };
+        }
+        const currentRound = state.current_match_song_index + 1;
+        // The current round can still change as long as its scores are not in
+        const earliestRound = state.status === 'pending_scores' ? currentRound : currentRound + 1;
+        if (!Number.isInteger(payload.from_round) || payload.from_round < earliestRound) {
+            return { success: false, message: `Lineup changes can only take effect from round ${earliestRound} on.` };
+        }
+        if (!payload.substitution === !payload.player_order_ids) {
+            return { success: false, message: "Provide either a substitution or player_order_ids." };
+        }
+
+        const team = payload.team;
+        const members = (team === 'teamA' ? state.teamA_members : state.teamB_members) ?? [];
+        const previousOrder = this.getPlayerOrder(state, team, payload.from_round);
+        let newOrder: number[];
+        if (payload.substitution) {
+            const { out_player_id, in_player_id } = payload.substitution;
+            if (!previousOrder.includes(out_player_id)) {
+                return { success: false, message: `Player ${out_player_id} is not in the ${team} lineup for round ${payload.from_round}.` };
+            }
+            if (!members.some(member => member.id === in_player_id)) {
+                return { success: false, message: `Player ${in_player_id} is not a member of ${team}.` };
+            }
+            if (previousOrder.includes(in_player_id)) {
+                return { success: false, message: `Player ${in_player_id} is already in the ${team} lineup.` };
+            }
+            newOrder = previousOrder.map(id => id === out_player_id ? in_player_id : id);
+        } else {
+            newOrder = payload.player_order_ids as number[];
+            const sorted = (ids: number[]) => [...ids].sort((a, b) => a - b).join(',');
+            if (!Array.isArray(newOrder) || sorted(newOrder) !== sorted(previousOrder)) {
+                return { success: false, message: `player_order_ids must re-order the current ${team} lineup (${previousOrder.join(', ')}).` };
+            }
+        }
+
+        const lineupChange: LineupChange = {
+            team,
+            kind: payload.substitution ? 'substitution' : 'reorder',
+            from_round: payload.from_round,
+            previous_order_ids: previousOrder,
+            player_order_ids: newOrder,
+            out_player_id: payload.substitution?.out_player_id,
+            in_player_id: payload.substitution?.in_player_id,
+            reason: payload.reason ?? null,
+            changed_at: changedAt,
+        };
+        // A change supersedes the team's changes that were due to start at the same round or later
+        state.lineup_changes = [
+            ...(state.lineup_changes ?? []).filter(change => change.team !== team || change.from_round < payload.from_round),
+            lineupChange,
+        ];
+        if (payload.from_round === currentRound) {
+            this.setCurrentPlayers(state);
+        }
+        return { success: true, lineupChange };
+    }
+
+    // Substitute a player (e.g. injured or disconnected) or re-order a team's slots from a given round on
+    private async changeLineup(payload: LineupChangePayload): Promise<{ success: boolean; message?: string; lineupChange?: LineupChange }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to change the lineup." };
+        }
+        const changedAt = new Date().toISOString();
+        const result = this.applyLineupChange(this.matchData, payload, changedAt);
+        if (!result.success) {
+            return result;
+        }
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'change-lineup', payload }, changedAt) });
+            this.broadcast(this.matchData);
+            const message = `${payload.team} lineup changed from round ${payload.from_round}: ${result.lineupChange!.player_order_ids.join(', ')}`;
+            console.log(`DO (${this.match_do_id}) ${message}`);
+            return { success: true, message, lineupChange: result.lineupChange };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after lineup change:`, e);
+            return { success: false, message: `Failed to change lineup: ${e.message}` };
+        }
+    }
+
+    // Helper to add an issued penalty to a state (live and when replaying the event log)
+    private applyPenalty(state: MatchState, penalty: Penalty): void {
+        state.penalties = [...(state.penalties ?? []), penalty];
+    }
+
+    // Helper used while replaying a round calculated before penalties existed: its raw 小分调整 values are added to
+    // the state as penalties, so the replay applies them again
+    private adoptLegacyEffectValues(state: MatchState, summary: RoundSummary): void {
+        if (summary.penalties) return;
+        const known = new Set((state.penalties ?? []).map(penalty => penalty.id));
+        const legacy = legacyEffectPenalties(summary.round_number_in_match, summary.teamA_effect_value_applied, summary.teamB_effect_value_applied, new Date().toISOString())
+            .filter(penalty => !known.has(penalty.id));
+        if (legacy.length > 0) {
+            state.penalties = [...(state.penalties ?? []), ...legacy];
+        }
+    }
+
+    // Helper to find the round a new penalty applies to by default: the current round while its scores are not in,
+    // otherwise the next one. null once the match is decided.
+    private nextPenaltyRound(state: MatchState): number | null {
+        const currentRound = state.current_match_song_index + 1;
+        if (state.status === 'pending_scores') return currentRound;
+        if (state.status === 'round_finished' || state.status === 'tiebreaker_pending_song') return currentRound + 1;
+        return null;
+    }
+
+    // Issue a penalty or bonus to a team. It is applied at step 8 of its round: the next round to be calculated, or for
+    // a round penalty on an already calculated round, by amending that round (rounds after it are replayed).
+    private async issuePenalty(payload: IssuePenaltyPayload, kindeUserId: string): Promise<{ success: boolean; message?: string; penalty?: Penalty; amendment?: AmendRoundResult }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to issue a penalty." };
+        }
+        if (this.matchData.status === 'archived' || this.matchData.status === 'paused') {
+            return { success: false, message: `Match status is '${this.matchData.status}', cannot issue a penalty.` };
+        }
+
+        const nextRound = this.nextPenaltyRound(this.matchData);
+        const round = payload.scope === 'round' && payload.round_number_in_match !== undefined ? payload.round_number_in_match : nextRound;
+        if (round === null) {
+            return { success: false, message: "The match is decided, a penalty can only be issued on one of its rounds." };
+        }
+        if (nextRound !== null && round > nextRound) {
+            return { success: false, message: `Penalties can only be issued up to round ${nextRound}.` };
+        }
+
+        const penalty: Penalty = {
+            id: crypto.randomUUID(),
+            team: payload.team,
+            category: payload.category,
+            amount: payload.amount,
+            reason: payload.reason.trim(),
+            scope: payload.scope,
+            round_number_in_match: round,
+            issued_by: kindeUserId,
+            issued_at: new Date().toISOString(),
+        };
+
+        // An already calculated round: recalculate it (and every later round) with its stored scores plus the penalty
+        if (nextRound === null || round < nextRound) {
+            const storedSummary = await this.state.storage.get<RoundSummary>(this.roundSummaryKey(round));
+            if (!storedSummary) {
+                return { success: false, message: `Round ${round} has not been calculated, cannot issue a penalty on it.` };
+            }
+            const amendResult = await this.amendRound({
+                round_number_in_match: round,
+                teamA_percentage: storedSummary.teamA_percentage,
+                teamB_percentage: storedSummary.teamB_percentage,
+                dry_run: payload.dry_run,
+            }, penalty);
+            if (!amendResult.success) {
+                return { success: false, message: amendResult.message };
+            }
+            const message = `${penalty.team} ${penalty.category} penalty of ${penalty.amount} on round ${round}${payload.dry_run ? ' (dry run)' : ''}: ${amendResult.message}`;
+            console.log(`DO (${this.match_do_id}) ${message}`);
+            return { success: true, message, penalty, amendment: amendResult.amendment };
+        }
+
+        this.applyPenalty(this.matchData, penalty);
+        const outboxEntry = this.matchData.tournament_match_id !== -1
+            ? this.nextOutboxEntry(`Penalty ${penalty.id}`, [this.buildPenaltyWrite(this.matchData, penalty)])
+            : {};
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...outboxEntry, ...this.nextEventEntry({ type: 'issue-penalty', payload: { penalty } }) });
+            await this.flushOutbox();
+            this.broadcast(this.matchData);
+            const message = `${penalty.team} ${penalty.category} penalty of ${penalty.amount} issued, applied in round ${round}.`;
+            console.log(`DO (${this.match_do_id}) ${message}`);
+            return { success: true, message, penalty };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after issuing a penalty:`, e);
+            return { success: false, message: `Failed to issue penalty: ${e.message}` };
+        }
+    }
+
+    // Pause the match (e.g. a broken controller). Every command that checks the status is blocked until resume,
+    // and a running timer keeps its remaining time.
+    private async pauseMatch(payload: PauseMatchPayload): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to pause." };
+        }
+        if (this.matchData.status === 'paused' || this.matchData.status === 'archived') {
+            return { success: false, message: `Match status is '${this.matchData.status}', cannot pause.` };
+        }
+
+        const pausedAt = new Date().toISOString();
+        this.applyPause(this.matchData, payload.reason, pausedAt);
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'pause', payload: { reason: payload.reason } }, pausedAt) });
+            await this.scheduleAlarm();
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Match paused: ${payload.reason}`);
+            return { success: true, message: "Match paused." };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after pausing:`, e);
+            return { success: false, message: `Failed to pause match: ${e.message}` };
+        }
+    }
+
+    // Resume a paused match: restores the status it was paused in and restarts a paused timer
+    private async resumeMatch(): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to resume." };
+        }
+        if (this.matchData.status !== 'paused' || !this.matchData.pause) {
+            return { success: false, message: `Match status is '${this.matchData.status}'. Must be 'paused' to resume.` };
+        }
+
+        const resumedAt = new Date().toISOString();
+        this.applyResume(this.matchData, resumedAt);
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'resume', payload: {} }, resumedAt) });
+            await this.scheduleAlarm();
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Match resumed. Status: ${this.matchData.status}`);
+            return { success: true, message: `Match resumed. Status: ${this.matchData.status}` };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after resuming:`, e);
+            return { success: false, message: `Failed to resume match: ${e.message}` };
+        }
+    }
+
+    // Helper to pause a state (live and when replaying the event log): a running timer keeps its remaining time
+    private applyPause(state: MatchState, reason: string, pausedAt: string): void {
+        state.pause = { reason, paused_at: pausedAt, resume_status: state.status as MatchPause['resume_status'] };
+        state.status = 'paused';
+        if (state.timer && !state.timer.expired && state.timer.ends_at) {
+            state.timer.remaining_seconds = Math.max(0, Math.ceil((Date.parse(state.timer.ends_at) - Date.parse(pausedAt)) / 1000));
+            state.timer.ends_at = null;
+        }
+    }
+
+    // Helper to resume a paused state (live and when replaying the event log), restarting a paused timer
+    private applyResume(state: MatchState, resumedAt: string): void {
+        if (!state.pause) return;
+        state.status = state.pause.resume_status;
+        state.pause = null;
+        if (state.timer && !state.timer.expired) {
+            state.timer.ends_at = new Date(Date.parse(resumedAt) + state.timer.remaining_seconds * 1000).toISOString();
+        }
+    }
+
+    // Helper to start a timer on a state (live and when replaying the event log)
+    private applyStartTimer(state: MatchState, payload: StartTimerPayload, startedAt: string): void {
+        state.timer = {
+            phase: payload.phase,
+            duration_seconds: payload.duration_seconds,
+            started_at: startedAt,
+            ends_at: new Date(Date.parse(startedAt) + payload.duration_seconds * 1000).toISOString(),
+            remaining_seconds: payload.duration_seconds,
+            expired: false,
+        };
+        state.referee_attention = null;
+    }
+
+    // Helper to mark the running timer of a state as expired and flag the round for the referee
+    private applyTimerExpiry(state: MatchState, flaggedAt: string): void {
+        if (!state.timer) return;
+        state.timer.expired = true;
+        state.timer.remaining_seconds = 0;
+        state.referee_attention = {
+            reason: 'timer_expired',
+            phase: state.timer.phase,
+            round_number_in_match: state.current_match_song_index + 1,
+            flagged_at: flaggedAt,
+        };
+    }
+
+    // Start a countdown for the current song (warm-up, play or score entry), replacing any running one
+    private async startTimer(payload: StartTimerPayload): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to start a timer." };
+        }
+        if (!['pending_scores', 'round_finished', 'tiebreaker_pending_song', 'draw_pending_resolution'].includes(this.matchData.status)) {
+            return { success: false, message: `Match status is '${this.matchData.status}', cannot start a timer.` };
+        }
+
+        const startedAt = new Date().toISOString();
+        this.applyStartTimer(this.matchData, payload, startedAt);
+
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'start-timer', payload: { phase: payload.phase, duration_seconds: payload.duration_seconds } }, startedAt) });
+            await this.scheduleAlarm();
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Started ${payload.phase} timer (${payload.duration_seconds}s)`);
+            return { success: true, message: `Started ${payload.phase} timer.` };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to start timer:`, e);
+            return { success: false, message: `Failed to start timer: ${e.message}` };
+        }
+    }
+
+    // Stop the running timer and clear the referee flag it may have raised
+    private async stopTimer(): Promise<{ success: boolean; message?: string }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to stop a timer." };
+        }
+        if (!this.matchData.timer) {
+            return { success: false, message: "No timer is running." };
+        }
+
+        this.matchData.timer = null;
+        this.matchData.referee_attention = null;
+        try {
+            await this.state.storage.put({ matchData: this.matchData, ...this.nextEventEntry({ type: 'stop-timer', payload: {} }) });
+            await this.scheduleAlarm();
+            this.broadcast(this.matchData);
+            return { success: true, message: "Timer stopped." };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to stop timer:`, e);
+            return { success: false, message: `Failed to stop timer: ${e.message}` };
+        }
+    }
+
+    // --- Durable Object Alarm Handler ---
+    // Retries the D1 outbox when its head entry is due, then drives the song timer.
+    async alarm(): Promise<void> {
+        const head = (await this.listPendingOutbox())[0];
+        if (head && Date.parse(head.next_attempt_at) <= Date.now()) {
+            await this.flushOutbox();
+        }
+        await this.tickTimer();
+        await this.scheduleAlarm();
+    }
+
+    // Broadcasts a tick every TIMER_TICK_MS and flags the round for the referee on expiry
+    private async tickTimer(): Promise<void> {
+        const timer = this.matchData?.timer;
+        if (!this.matchData || !timer || timer.expired || !timer.ends_at || this.matchData.status === 'paused') {
+            return; // Timer stopped, expired or paused since the alarm was set
+        }
+
+        const now = Date.now();
+        const remainingMs = Date.parse(timer.ends_at) - now;
+        if (remainingMs > 0) {
+            this.broadcast({ type: 'timer_tick', phase: timer.phase, remaining_seconds: Math.ceil(remainingMs / 1000), ends_at: timer.ends_at, server_time: now });
+            return;
+        }
+
+        // Logged, so the referee flag is part of the match record
+        const flaggedAt = new Date(now).toISOString();
+        this.applyTimerExpiry(this.matchData, flaggedAt);
+        await this.state.storage.put({
+            matchData: this.matchData,
+            ...this.nextEventEntry({ type: 'timer-expired', payload: { phase: timer.phase, round_number_in_match: this.matchData.current_match_song_index + 1 } }, flaggedAt),
+        });
+        this.broadcast({ type: 'timer_expired', phase: timer.phase, round_number_in_match: this.matchData.current_match_song_index + 1, server_time: now });
+        this.broadcast(this.matchData);
+        console.log(`DO (${this.match_do_id}) ${timer.phase} timer expired in round ${this.matchData.current_match_song_index + 1}, referee action required.`);
+    }
+
+    // Helper to list the fields whose values differ between two objects
+    private diffFields<T extends object>(before: T, after: T, fields: (keyof T)[]): Record<string, FieldChange> {
+        const changes: Record<string, FieldChange> = {};
+        for (const field of fields) {
+            if (before[field] !== after[field]) {
+                changes[field as string] = { before: before[field], after: after[field] };
+            }
+        }
+        return changes;
+    }
+
+    // Helper used when restoring or replaying a state: take the songs after its current one from source, since pending
+    // songs may have been edited in the meantime. Tiebreaker songs are left out (advanceReplayedState adds them back).
+    private adoptPendingSongs(state: MatchState, source: MatchState): void {
+        const index = state.current_match_song_index;
+        state.match_song_list = [
+            ...state.match_song_list.slice(0, index + 1),
+            ...structuredClone(source.match_song_list.slice(index + 1).filter(song => !song.is_tiebreaker_song)),
+        ];
+        state.current_song = state.match_song_list[index] ?? null;
+    }
+
+    // Helper used while replaying: move a replayed state on to the round that originally followed.
+    // originalSong is the song that was played in that round; a tiebreaker song is added back to the list if
+    // the replay still ends standard rounds tied. Returns false if the replayed match no longer continues.
+    private advanceReplayedState(state: MatchState, originalSong: MatchSong | undefined): boolean {
+        const nextSongIndex = state.current_match_song_index + 1;
+        if (state.status === 'round_finished' && nextSongIndex < state.match_song_list.length) {
+            this.prepareRound(state, nextSongIndex);
+            return true;
+        }
+        if (state.status === 'tiebreaker_pending_song' && originalSong?.is_tiebreaker_song) {
+            state.match_song_list.push(structuredClone(originalSong));
+            this.prepareRound(state, state.match_song_list.length - 1);
+            return true;
+        }
+        return false;
+    }
+
+    // Replays rounds targetRound..lastRound on a copy of the state taken before targetRound, with the amended inputs
+    // for targetRound. Later rounds reuse their recorded inputs and 矩盾手 picks, so only the corrected values change
+    // the outcome. current is the state before the amendment. Shared by amendRound and replayEvents.
+    private async replayAmendedRounds(
+        payload: AmendRoundPayload,
+        lastRound: number,
+        snapshotOf: (round: number) => MatchState,
+        summaryOf: (round: number) => RoundSummary,
+        rollsOf: (round: number) => Promise<{ teamA: SeededRoll; teamB: SeededRoll } | null>,
+        current: MatchState
+    ): Promise<{ state: MatchState; snapshots: Map<number, MatchState>; summaries: Map<number, RoundSummary>; rounds: AmendedRoundDiff[]; lastReplayedRound: number; invalidatedRounds: number[] }> {
+        const targetRound = payload.round_number_in_match;
+        const state = structuredClone(snapshotOf(targetRound));
+        state.current_song = state.match_song_list[state.current_match_song_index] ?? null;
+        // Replayed rounds keep the lineup changes and penalties made after the snapshot
+        state.lineup_changes = structuredClone(current.lineup_changes);
+        state.penalties = structuredClone(current.penalties);
+
+        const snapshots = new Map<number, MatchState>();
+        const summaries = new Map<number, RoundSummary>();
+        const rounds: AmendedRoundDiff[] = [];
+        let lastReplayedRound = targetRound - 1;
+
+        for (let round = targetRound; round <= lastRound; round++) {
+            const originalSummary = summaryOf(round);
+            if (round > targetRound) {
+                const originalSong = snapshotOf(round).match_song_list[round - 1];
+                this.adoptPendingSongs(state, snapshotOf(round));
+                if (!this.advanceReplayedState(state, originalSong)) {
+                    break; // The match now ends before this round
+                }
+                snapshots.set(round, structuredClone(state));
+            }
+
+            // The amended round uses the corrected values, every later round uses its stored inputs.
+            // Penalties come from the state, so every round keeps the ones issued on it.
+            const roundPayload: CalculateRoundPayload = round === targetRound
+                ? { teamA_percentage: payload.teamA_percentage, teamB_percentage: payload.teamB_percentage }
+                : { teamA_percentage: originalSummary.teamA_percentage, teamB_percentage: originalSummary.teamB_percentage };
+            this.adoptLegacyEffectValues(state, originalSummary);
+            const { summary } = this.computeRoundOutcome(state, roundPayload, await rollsOf(round), {
+                teamA: originalSummary.teamA_defender_target_index,
+                teamB: originalSummary.teamB_defender_target_index,
+            });
+
+            summaries.set(round, summary);
+            rounds.push({ round_number_in_match: round, outcome: 'recalculated', changes: this.diffFields(originalSummary, summary, ROUND_DIFF_FIELDS) });
+            lastReplayedRound = round;
+        }
+
+        // Rounds after the new end of the match no longer happen
+        const invalidatedRounds: number[] = [];
+        for (let round = lastReplayedRound + 1; round <= lastRound; round++) {
+            invalidatedRounds.push(round);
+            rounds.push({ round_number_in_match: round, outcome: 'invalidated', changes: {} });
+        }
+
+        if (invalidatedRounds.length === 0) {
+            this.adoptPendingSongs(state, current);
+            // If the match had already advanced to the next (not yet calculated) round, advance the replayed state too
+            if (current.status === 'pending_scores' && current.current_match_song_index === lastRound) {
+                this.advanceReplayedState(state, current.match_song_list[lastRound]);
+            }
+        }
+
+        return { state, snapshots, summaries, rounds, lastReplayedRound, invalidatedRounds };
+    }
+
+    // Amend the inputs of an already calculated round and replay every round after it.
+    // Later rounds reuse their stored inputs and 矩盾手 picks, so only the corrected values change the outcome.
+    // With dry_run the diff is returned without touching storage or D1, so the referee can confirm it first.
+    // penalty is a penalty issued on the amended round (see issuePenalty), saved together with the amendment.
+    private async amendRound(payload: AmendRoundPayload, penalty?: Penalty): Promise<{ success: boolean; message?: string; amendment?: AmendRoundResult }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to amend round." };
+        }
+        if (this.matchData.status === 'archived') {
+            return { success: false, message: "Match is already archived, cannot amend rounds." };
+        }
+        if (this.matchData.status === 'paused') {
+            return { success: false, message: "Match is paused. Resume it before amending rounds." };
+        }
+
+        const targetRound = payload.round_number_in_match;
+        const snapshots = await this.state.storage.list<MatchState>({ prefix: ROUND_SNAPSHOT_PREFIX });
+        const summaries = await this.state.storage.list<RoundSummary>({ prefix: ROUND_SUMMARY_PREFIX });
+
+        // The last stored summary in key order belongs to the most recently calculated round
+        const storedRounds = Array.from(summaries.values()).map(summary => summary.round_number_in_match);
+        const lastRound = storedRounds.length > 0 ? storedRounds[storedRounds.length - 1] : 0;
+        if (!Number.isInteger(targetRound) || targetRound < 1 || targetRound > lastRound) {
+            return { success: false, message: `Round ${targetRound} has not been calculated, cannot amend it.` };
+        }
+        for (let round = targetRound; round <= lastRound; round++) {
+            if (!snapshots.has(this.roundSnapshotKey(round)) || !summaries.has(this.roundSummaryKey(round))) {
+                return { success: false, message: `Stored data for round ${round} is missing, cannot replay rounds ${targetRound}-${lastRound}.` };
+            }
+        }
+
+        const resolvedScores = await this.resolveRoundScores(payload, snapshots.get(this.roundSnapshotKey(targetRound))!.current_song);
+        if (!resolvedScores.success) {
+            return { success: false, message: resolvedScores.message };
+        }
+        payload = resolvedScores.scores!;
+
+        console.log(`DO (${this.match_do_id}) Amending round ${targetRound} and replaying up to round ${lastRound}${payload.dry_run ? ' (dry run)' : ''}.`);
+
+        const { state, snapshots: replayedSnapshots, summaries: replayedSummaries, rounds, lastReplayedRound, invalidatedRounds } = await this.replayAmendedRounds(
+            payload,
+            lastRound,
+            round => snapshots.get(this.roundSnapshotKey(round))!,
+            round => summaries.get(this.roundSummaryKey(round))!,
+            round => this.rollDefenderTargets(round),
+            penalty ? { ...this.matchData, penalties: [...(this.matchData.penalties ?? []), penalty] } : this.matchData
+        );
+        const newSnapshots: Record<string, MatchState> = {};
+        replayedSnapshots.forEach((snapshot, round) => { newSnapshots[this.roundSnapshotKey(round)] = snapshot; });
+        const newSummaries: Record<string, RoundSummary> = {};
+        replayedSummaries.forEach((summary, round) => { newSummaries[this.roundSummaryKey(round)] = summary; });
+
+        const amendment: AmendRoundResult = {
+            round_number_in_match: targetRound,
+            dry_run: !!payload.dry_run,
+            rounds,
+            final_changes: this.diffFields(this.matchData, state, MATCH_DIFF_FIELDS),
+        };
+        if (payload.dry_run) {
+            return { success: true, message: `Dry run of amending round ${targetRound}.`, amendment };
+        }
+
+        // Rewrite D1 history, queued in the outbox with the amended state
+        let outboxEntry: Record<string, D1OutboxEntry> = {};
+        if (this.matchData.tournament_match_id !== -1) {
+            const writes: D1Write[] = [];
+            for (let round = targetRound; round <= lastReplayedRound; round++) {
+                writes.push(this.buildRoundHistoryWrite(
+                    this.matchData.tournament_match_id,
+                    newSummaries[this.roundSummaryKey(round)],
+                    state.match_song_list[round - 1]
+                ));
+            }
+            for (const round of invalidatedRounds) {
+                writes.push(this.buildRoundHistoryDelete(this.matchData.tournament_match_id, round));
+            }
+            if (penalty) {
+                writes.push(this.buildPenaltyWrite(this.matchData, penalty));
+            }
+            outboxEntry = this.nextOutboxEntry(`Amend round ${targetRound}`, writes);
+        }
+
+        try {
+            const { dry_run, ...amendedInputs } = payload;
+            await this.state.storage.put({ matchData: state, ...newSnapshots, ...newSummaries, ...outboxEntry, ...this.nextEventEntry({ type: 'amend-round', payload: penalty ? { ...amendedInputs, penalty } : amendedInputs }) });
+            if (invalidatedRounds.length > 0) {
+                await this.state.storage.delete(invalidatedRounds.flatMap(round => [this.roundSnapshotKey(round), this.roundSummaryKey(round)]));
+            }
+            await this.flushOutbox();
+            this.matchData = state;
+            // Broadcast the amended state
+            this.broadcast(this.matchData);
+            console.log(`DO (${this.match_do_id}) Round ${targetRound} amended. Status is now: ${this.matchData.status}`);
+            return { success: true, message: `Round ${targetRound} amended, rounds ${targetRound}-${lastReplayedRound} recalculated.`, amendment };
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) failed to save state after amending round:`, e);
+            return { success: false, message: `Failed to save state after amending round: ${e.message}` };
+        }
+    }
+
+    // Recompute an archived round from its stored inputs with the revealed seed, so anyone can check the 矩盾手 picks.
+    // Called by the Worker's public verification endpoint.
+    private async verifyRound(roundNumber: number): Promise<{ success: boolean; message?: string; verification?: RoundVerificationResult }> {
+        if (!this.matchData) {
+            return { success: false, message: "No match data to verify." };
+        }
+        if (this.matchData.status !== 'archived' || !this.matchData.random_seed) {
+            return { success: false, message: "The seed is only revealed once the match is archived." };
+        }
+        const snapshot = await this.state.storage.get<MatchState>(this.roundSnapshotKey(roundNumber));
+        const storedSummary = await this.state.storage.get<RoundSummary>(this.roundSummaryKey(roundNumber));
+        if (!snapshot || !storedSummary) {
+            return { success: false, message: `Round ${roundNumber} was not played in this match.` };
+        }
+
+        const seed = this.matchData.random_seed;
+        const commitmentValid = (await computeSeedCommitment(seed)) === this.matchData.random_seed_commitment;
+        const defenderRolls = {
+            teamA: await deriveSeededRoll(seed, defenderRollLabel(roundNumber, 'teamA')),
+            teamB: await deriveSeededRoll(seed, defenderRollLabel(roundNumber, 'teamB')),
+        };
+
+        // Replay the round on the snapshot taken before it, using the recorded inputs and every penalty of the match
+        // (penalties issued on the round after it was calculated are not in the snapshot)
+        const state = structuredClone(snapshot);
+        state.current_song = state.match_song_list[state.current_match_song_index] ?? null;
+        state.penalties = structuredClone(this.matchData.penalties);
+        this.adoptLegacyEffectValues(state, storedSummary);
+        const { summary } = this.computeRoundOutcome(state, {
+            teamA_percentage: storedSummary.teamA_percentage,
+            teamB_percentage: storedSummary.teamB_percentage,
+        }, defenderRolls);
+
+        const mismatches = this.diffFields(storedSummary, summary, [
+            ...ROUND_DIFF_FIELDS,
+            'teamA_defender_target_index', 'teamB_defender_target_index',
+        ]);
+
+        return {
+            success: true,
+            verification: {
+                round_number_in_match: roundNumber,
+                random_seed: seed,
+                random_seed_commitment: this.matchData.random_seed_commitment ?? null,
+                commitment_valid: commitmentValid,
+                teamA_defender_roll: summary.teamA_defender_roll ?? null,
+                teamB_defender_roll: summary.teamB_defender_roll ?? null,
+                teamA_defender_target_index: summary.teamA_defender_target_index ?? null,
+                teamB_defender_target_index: summary.teamB_defender_target_index ?? null,
+                mismatches,
+                verified: commitmentValid && Object.keys(mismatches).length === 0,
+            },
+        };
+    }
+
+    // Rebuild a MatchState from an event log by re-running every command on a fresh state, without storage, D1 or
+    // the seed (recorded 矩盾手 rolls and picks are reused). Used to audit matches and regression-test the rules engine.
+    private async replayEvents(events: MatchEvent[]): Promise<MatchState | null> {
+        let state: MatchState | null = null;
+        // Per-round snapshots and summaries of the replay, like the ones live rounds keep in storage
+        const snapshots = new Map<number, MatchState>();
+        const summaries = new Map<number, RoundSummary>();
+
+        for (const event of [...events].sort((a, b) => a.seq - b.seq)) {
+            if (event.type === 'initialize') {
+                const { schedule, ruleset, random_seed_commitment } = structuredClone(event.payload);
+                state = this.buildInitialState(schedule, ruleset, random_seed_commitment);
+                snapshots.clear();
+                summaries.clear();
+                continue;
+            }
+            if (!state) {
+                throw new Error(`Event ${event.seq} (${event.type}) comes before the match was initialized.`);
+            }
+
+            switch (event.type) {
+                case 'score-entry':
+                    this.applyScoreEntry(state, event.payload.entry, event.payload.conflict);
+                    break;
+                case 'self-report':
+                    this.applySelfReport(state, structuredClone(event.payload.report));
+                    break;
+                case 'review-self-report':
+                    this.applySelfReportReview(state, event.payload);
+                    break;
+                case 'calculate-round': {
+                    const round = state.current_match_song_index + 1;
+                    // As when the round was calculated: scores end the song's countdown before the snapshot is taken
+                    state.timer = null;
+                    state.referee_attention = null;
+                    snapshots.set(round, structuredClone(state));
+                    // Rounds calculated before penalties carry raw 小分调整 values in their scores
+                    const legacyScores = event.payload.scores as { teamA_effect_value?: number; teamB_effect_value?: number };
+                    const legacy = legacyEffectPenalties(round, legacyScores.teamA_effect_value, legacyScores.teamB_effect_value, event.created_at);
+                    if (legacy.length > 0) {
+                        state.penalties = [...(state.penalties ?? []), ...legacy];
+                    }
+                    const { summary } = this.computeRoundOutcome(state, event.payload.scores, event.payload.defender_rolls, event.payload.defender_picks);
+                    summaries.set(round, summary);
+                    break;
+                }
+                case 'next-round':
+                    this.prepareRound(state, event.payload.song_index);
+                    break;
+                case 'select-tiebreaker-song':
+                    state.match_song_list.push(structuredClone(event.payload.song));
+                    this.prepareRound(state, state.match_song_list.length - 1);
+                    break;
+                case 'resolve-draw':
+                    state.draw_resolution = {
+                        round_number_in_match: state.draw_resolution?.round_number_in_match ?? state.current_match_song_index + 1,
+                        steps: state.draw_resolution?.steps ?? [{ strategy: 'manual' }],
+                        decided_by: 'manual',
+                        outcome: event.payload.winner,
+                    };
+                    state.status = event.payload.winner === 'teamA' ? 'team_A_wins' : 'team_B_wins';
+                    break;
+                case 'undo-round': {
+                    const round = event.payload.round_number_in_match;
+                    const snapshot = snapshots.get(round);
+                    if (!snapshot) {
+                        throw new Error(`Event ${event.seq} undoes round ${round}, which was not calculated.`);
+                    }
+                    const restored: MatchState = { ...structuredClone(snapshot), lineup_changes: state.lineup_changes, penalties: state.penalties };
+                    this.adoptPendingSongs(restored, state);
+                    state = restored;
+                    snapshots.delete(round);
+                    summaries.delete(round);
+                    break;
+                }
+                case 'amend-round': {
+                    const lastRound = Math.max(0, ...summaries.keys());
+                    const amended = await this.replayAmendedRounds(
+                        event.payload,
+                        lastRound,
+                        round => snapshots.get(round)!,
+                        round => summaries.get(round)!,
+                        async (round) => {
+                            const summary = summaries.get(round)!;
+                            return summary.teamA_defender_roll && summary.teamB_defender_roll
+                                ? { teamA: summary.teamA_defender_roll, teamB: summary.teamB_defender_roll }
+                                : null;
+                        },
+                        event.payload.penalty ? { ...state, penalties: [...(state.penalties ?? []), event.payload.penalty] } : state
+                    );
+                    state = amended.state;
+                    amended.snapshots.forEach((snapshot, round) => snapshots.set(round, snapshot));
+                    amended.summaries.forEach((summary, round) => summaries.set(round, summary));
+                    amended.invalidatedRounds.forEach((round) => {
+                        snapshots.delete(round);
+                        summaries.delete(round);
+                    });
+                    break;
+                }
+                case 'pause':
+                    if (state.status !== 'paused' && state.status !== 'archived') {
+                        this.applyPause(state, event.payload.reason, event.created_at);
+                    }
+                    break;
+                case 'resume':
+                    this.applyResume(state, event.created_at);
+                    break;
+                case 'start-timer':
+                    this.applyStartTimer(state, event.payload, event.created_at);
+                    break;
+                case 'stop-timer':
+                    state.timer = null;
+                    state.referee_attention = null;
+                    break;
+                case 'timer-expired':
+                    this.applyTimerExpiry(state, event.created_at);
+                    break;
+                case 'issue-penalty':
+                    this.applyPenalty(state, structuredClone(event.payload.penalty));
+                    break;
+                case 'change-lineup': {
+                    const result = this.applyLineupChange(state, event.payload, event.created_at);
+                    if (!result.success) {
+                        throw new Error(`Event ${event.seq} (change-lineup) cannot be replayed: ${result.message}`);
+                    }
+                    break;
+                }
+                case 'edit-song-list': {
+                    const result = this.applySongListEdit(state, event.payload.edit, event.payload.song);
+                    if (!result.success) {
+                        throw new Error(`Event ${event.seq} (edit-song-list) cannot be replayed: ${result.message}`);
+                    }
+                    break;
+                }
+                case 'archive-match':
+                    state.random_seed = event.payload.random_seed;
+                    if (event.payload.administrative_result) {
+                        state.administrative_result = event.payload.administrative_result;
+                    }
+                    state.status = 'archived';
+                    state.timer = null;
+                    break;
+            }
+        }
+        return state;
+    }
+
     // --- Durable Object Fetch Handler ---
     // This method receives requests forwarded from the Worker.
     async fetch(request: Request): Promise<Response> {
         const url = new URL(request.url);
   
-        // Handle WebSocket upgrade requests
+        // Handle WebSocket upgrade requests, e.g. /websocket?role=overlay&team=teamA
         if (url.pathname === '/websocket') {
             if (request.headers.get('Upgrade') !== 'websocket') {
                 return new Response('Expected Upgrade: websocket', { status: 426 });
             }
-            // Create a WebSocketPair and accept the connection
+            const role = (url.searchParams.get('role') ?? 'spectator') as MatchConnectionRole;
+            if (!CONNECTION_ROLES.includes(role)) {
+                return new Response(JSON.stringify({ success: false, error: `Invalid role. Expected one of: ${CONNECTION_ROLES.join(', ')}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+            const teamParam = url.searchParams.get('team');
+            if (teamParam !== null && teamParam !== 'teamA' && teamParam !== 'teamB') {
+                return new Response(JSON.stringify({ success: false, error: "Invalid team. Expected 'teamA' or 'teamB'" }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+            const team = teamParam as MatchConnectionAttachment['team'];
+            const format = (url.searchParams.get('format') ?? 'delta') as MatchConnectionAttachment['format'];
+            if (format !== 'delta' && format !== 'full') {
+                return new Response(JSON.stringify({ success: false, error: "Invalid format. Expected 'delta' or 'full'" }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+            // Check staff auth before accepting, so a rejected upgrade never leaves an accepted socket behind
+            const staffUserId = request.headers.get(STAFF_USER_HEADER);
+            if (role === 'staff' && !staffUserId) {
+                return new Response(JSON.stringify({ success: false, error: 'Staff connections must be authenticated.' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+            }
+
+            // Create a WebSocketPair and hand the server end to the runtime so it can hibernate
             const [client, server] = Object.values(new WebSocketPair());
-            this.websockets.push(server); // Add the server end to our list
-            server.accept();
-            console.log(`DO (${this.match_do_id}) WebSocket connected. Total: ${this.websockets.length}`);
-  
-            // Send the current state immediately upon connection
+            const tags = [`role:${role}`];
+            if (team) tags.push(`team:${team}`);
+            this.state.acceptWebSocket(server, tags);
+            const attachment: MatchConnectionAttachment = { role, team, connected_at: Date.now(), kinde_user_id: role === 'staff' ? staffUserId : null, format };
+            server.serializeAttachment(attachment);
+            console.log(`DO (${this.match_do_id}) WebSocket connected (${tags.join(', ')}). Total: ${this.getOpenWebSockets().length}`);
+
+            // Let everyone else see the new connection count, then send the current state to the new connection
             if (this.matchData) {
-                 server.send(JSON.stringify(this.matchData));
+                 this.broadcast(this.matchData, server);
+                 this.sendSnapshot(server);
             } else {
                  // Should not happen if Worker initializes correctly, but handle defensively
                  server.send(JSON.stringify({ success: false, error: "Match data not initialized in DO" }));
             }
-  
-            // Add event listeners for messages, close, and errors
-            server.addEventListener('message', event => {
-                console.log(`DO (${this.match_do_id}) WS message from client:`, event.data);
-                // TODO: Handle incoming messages from clients if needed (e.g., chat, player actions)
-            });
-            server.addEventListener('close', (event) => {
-                console.log(`DO (${this.match_do_id}) WebSocket closed. Code: ${event.code}, Reason: ${event.reason}`);
-                // Remove the closed socket from the list
-                this.websockets = this.websockets.filter(ws => ws.readyState === WebSocket.OPEN);
-                console.log(`DO (${this.match_do_id}) WebSocket disconnected. Remaining: ${this.websockets.length}`);
-            });
-            server.addEventListener('error', (err) => {
-                console.error(`DO (${this.match_do_id}) WebSocket error:`, err);
-                // Remove the socket on error
-                this.websockets = this.websockets.filter(ws => ws !== server);
-                console.log(`DO (${this.match_do_id}) WebSocket error disconnected. Remaining: ${this.websockets.length}`);
-            });
-  
+
             // Return the client end of the WebSocketPair
             return new Response(null, { status: 101, webSocket: client });
         }
-  
+
+        // Handle Server-Sent Events subscriptions. EventSource sends Last-Event-ID when reconnecting;
+        // clients that cannot set headers can pass ?last_event_id= instead.
+        if (url.pathname === '/events' && request.method === 'GET') {
+            return this.openSseStream(request.headers.get('Last-Event-ID') ?? url.searchParams.get('last_event_id'));
+        }
+
         // Handle HTTP GET request for the current state
         if (url.pathname === '/state' && request.method === 'GET') {
              if (!this.matchData) {
                  return new Response(JSON.stringify({ success: false, error: "Match data not initialized in DO" }), { status: 500, headers: { 'Content-Type': 'application/json' } });
              }
             // Return the current match state as JSON
-            return new Response(JSON.stringify(this.matchData), {
+            return new Response(JSON.stringify({ ...this.toClientState(this.matchData), state_version: this.stateVersion }), {
                 headers: { 'Content-Type': 'application/json' },
             });
         }
   
+        // Handle requests to verify an archived round, e.g. /verify-round/3
+        const verifyMatch = url.pathname.match(/^\/verify-round\/(\d+)$/);
+        if (verifyMatch && request.method === 'GET') {
+            const verifyResult = await this.verifyRound(parseInt(verifyMatch[1], 10));
+            if (verifyResult.success) {
+                return new Response(JSON.stringify({ success: true, verification: verifyResult.verification }), { headers: { 'Content-Type': 'application/json' } });
+            } else {
+                return new Response(JSON.stringify({ success: false, error: verifyResult.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+        }
+  
         // --- Internal Endpoints for Actions (Called by Worker) ---
         // These endpoints are typically called by the Worker to trigger state changes.
   
+        // Pending D1 writes: GET lists them, POST retries them now instead of waiting for the alarm,
+        // or with a body { action: 'retry' | 'discard', id } re-queues or drops one entry
+        if (url.pathname === '/internal/outbox' && (request.method === 'GET' || request.method === 'POST')) {
+            try {
+                if (request.method === 'POST') {
+                    const bodyText = await request.text();
+                    const actionResult = await this.applyOutboxAction(bodyText ? JSON.parse(bodyText) as OutboxActionPayload : {});
+                    if (!actionResult.success) {
+                        return new Response(JSON.stringify({ success: false, error: actionResult.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                    }
+                }
+                const entries = await this.listOutbox();
+                const deadLettered = entries.filter(entry => entry.dead_lettered_at).length;
+                return new Response(JSON.stringify({ success: true, pending: entries.length - deadLettered, dead_lettered: deadLettered, entries }), { headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing /internal/outbox:`, e);
+                return new Response(JSON.stringify({ success: false, error: `Failed to read the D1 outbox: ${e.message}` }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+            }
+        }
+
+        // Return this match's event log (internal, the Worker serves it to admins)
+        if (url.pathname === '/internal/events' && request.method === 'GET') {
+            const events = await this.state.storage.list<MatchEvent>({ prefix: MATCH_EVENT_PREFIX });
+            return new Response(JSON.stringify({ success: true, events: Array.from(events.values()) }), { headers: { 'Content-Type': 'application/json' } });
+        }
+
+        // Replay an event log (body: { events?: MatchEvent[] }). Without events the stored log is replayed
+        // and compared with the current state.
+        if (url.pathname === '/internal/replay-events' && request.method === 'POST') {
+            try {
+                const body = await request.json<{ events?: MatchEvent[] }>().catch(() => ({} as { events?: MatchEvent[] }));
+                const events = Array.isArray(body.events)
+                    ? body.events
+                    : Array.from((await this.state.storage.list<MatchEvent>({ prefix: MATCH_EVENT_PREFIX })).values());
+                const replayed = await this.replayEvents(events);
+                const replay: MatchReplayResult = { event_count: events.length, state: replayed };
+                if (!Array.isArray(body.events) && this.matchData) {
+                    replay.differences_from_current = diffJson(replayed, this.matchData);
+                }
+                return new Response(JSON.stringify({ success: true, replay }), { headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception replaying events:`, e);
+                return new Response(JSON.stringify({ success: false, error: `Failed to replay events: ${e.message}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+        }
+
         // Internal endpoint to initialize the DO state from schedule data
         if (url.pathname === '/internal/initialize-from-schedule' && request.method === 'POST') {
             try {
@@ -1343,7 +2897,7 @@ import type {
   
                 const initResult = await this.initializeFromSchedule(scheduleData);
                 if (initResult.success) {
-                    return new Response(JSON.stringify({ success: true, message: initResult.message }), { headers: { 'Content-Type': 'application/json' } });
+                    return new Response(JSON.stringify({ success: true, message: initResult.message, random_seed_commitment: initResult.randomSeedCommitment }), { headers: { 'Content-Type': 'application/json' } });
                 } else {
                     // Return error response if initialization failed
                     return new Response(JSON.stringify({ success: false, error: initResult.message }), { status: 500, headers: { 'Content-Type': 'application/json' } });
@@ -1365,10 +2919,27 @@ import type {
             try {
                 const payload = await request.json<CalculateRoundPayload>();
                 // Validate payload
-                if (typeof payload.teamA_percentage !== 'number' || typeof payload.teamB_percentage !== 'number') {
-                    return new Response(JSON.stringify({ success: false, error: "Invalid calculate-round payload: percentages must be numbers." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                const scoresError = this.scoresError(payload, true);
+                if (scoresError) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid calculate-round payload: ${scoresError}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                // In dual-entry mode the scores count as one referee's entry, the round is calculated once two entries match
+                let result: { success: boolean; message?: string; roundSummary?: RoundSummary; pending?: boolean; conflict?: ScoreEntryConflict };
+                if (this.matchData.ruleset?.dual_entry) {
+                    const staffUserId = request.headers.get(STAFF_USER_HEADER);
+                    if (!staffUserId) {
+                        return new Response(JSON.stringify({ success: false, error: "This match requires dual entry: scores must be submitted by a signed-in staff account." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                    }
+                    result = await this.submitScoreEntry(payload, staffUserId);
+                } else {
+                    result = await this.calculateRoundOutcome(payload);
+                }
+                if (result.conflict) {
+                    return new Response(JSON.stringify({ success: false, error: result.message, conflict: result.conflict }), { status: 409, headers: { 'Content-Type': 'application/json' } });
+                }
+                if (result.pending) {
+                    return new Response(JSON.stringify({ success: true, pending_confirmation: true, message: result.message }), { headers: { 'Content-Type': 'application/json' } });
                 }
-                const result = await this.calculateRoundOutcome(payload);
                 if (result.success) {
                     // Return success response, including the round summary
                     return new Response(JSON.stringify({ success: true, message: result.message, roundSummary: result.roundSummary }), { headers: { 'Content-Type': 'application/json' } });
@@ -1383,6 +2954,26 @@ import type {
             }
         }
   
+        // Internal endpoint to preview the current round without saving anything
+        if (url.pathname === '/internal/preview-round' && request.method === 'POST') {
+            try {
+                const payload = await request.json<CalculateRoundPayload>();
+                const scoresError = this.scoresError(payload, false);
+                if (scoresError) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid preview-round payload: ${scoresError}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const previewResult = this.previewRound(payload);
+                if (previewResult.success) {
+                    return new Response(JSON.stringify({ success: true, preview: previewResult.preview }), { headers: { 'Content-Type': 'application/json' } });
+                } else {
+                    return new Response(JSON.stringify({ success: false, error: previewResult.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing preview-round payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid preview-round payload', details: e.message }), { status: 400 });
+            }
+        }
+  
         // Internal endpoint to archive the current round's data to D1
         // This is called by the Worker, often after calculate-round and before next-round.
         if (url.pathname === '/internal/archive-round' && request.method === 'POST') {
@@ -1405,16 +2996,185 @@ import type {
             }
         }
   
+        // Internal endpoint to undo the most recently calculated round
+        if (url.pathname === '/internal/undo-round' && request.method === 'POST') {
+            const undoResult = await this.undoLastRound();
+            if (undoResult.success) {
+                return new Response(JSON.stringify({ success: true, message: undoResult.message, undoneRound: undoResult.undoneRound }), { headers: { 'Content-Type': 'application/json' } });
+            } else {
+                // Return 400 if there is nothing to undo or the match is archived
+                return new Response(JSON.stringify({ success: false, error: undoResult.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+            }
+        }
+
+        // Internal endpoint for a player's own score report (body: InternalSelfReportPayload, built by the Worker)
+        if (url.pathname === '/internal/self-report' && request.method === 'POST') {
+            try {
+                const payload = await request.json<InternalSelfReportPayload>();
+                const error = percentageError(payload.percentage);
+                if (typeof payload.member_id !== 'number' || typeof payload.kinde_user_id !== 'string' || error) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid self-report payload: member_id, kinde_user_id and a valid percentage are required.${error ? ` ${error}` : ''}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.submitSelfReport(payload);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, report: result.report } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing self-report payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid self-report payload', details: e.message }), { status: 400 });
+            }
+        }
+        // Internal endpoint for a referee to approve or reject a team's pending self-report (body: ReviewSelfReportPayload)
+        if (url.pathname === '/internal/review-self-report' && request.method === 'POST') {
+            try {
+                const payload = await request.json<ReviewSelfReportPayload>();
+                if ((payload.team !== 'teamA' && payload.team !== 'teamB') || typeof payload.approve !== 'boolean') {
+                    return new Response(JSON.stringify({ success: false, error: "Invalid review-self-report payload: team ('teamA' or 'teamB') and approve (boolean) are required." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const staffUserId = request.headers.get(STAFF_USER_HEADER);
+                if (!staffUserId) {
+                    return new Response(JSON.stringify({ success: false, error: "Self-reports must be reviewed by a signed-in staff account." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.reviewSelfReport(payload, staffUserId);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, roundSummary: result.roundSummary } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing review-self-report payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid review-self-report payload', details: e.message }), { status: 400 });
+            }
+        }
+        // Internal endpoint for staff to issue a penalty or bonus to a team (body: IssuePenaltyPayload)
+        if (url.pathname === '/internal/issue-penalty' && request.method === 'POST') {
+            try {
+                const payload = await request.json<IssuePenaltyPayload>();
+                const error = penaltyPayloadError(payload);
+                if (error) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid issue-penalty payload: ${error}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const staffUserId = request.headers.get(STAFF_USER_HEADER);
+                if (!staffUserId) {
+                    return new Response(JSON.stringify({ success: false, error: "Penalties must be issued by a signed-in staff account." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.issuePenalty(payload, staffUserId);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, penalty: result.penalty, amendment: result.amendment } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing issue-penalty payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid issue-penalty payload', details: e.message }), { status: 400 });
+            }
+        }
+
+        // Internal endpoints to pause and resume the match (body: PauseMatchPayload)
+        if (url.pathname === '/internal/pause' && request.method === 'POST') {
+            try {
+                const payload = await request.json<PauseMatchPayload>();
+                if (typeof payload.reason !== 'string' || payload.reason.trim() === '') {
+                    return new Response(JSON.stringify({ success: false, error: "Invalid pause payload: reason (string) is required." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.pauseMatch({ reason: payload.reason.trim() });
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing pause payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid pause payload', details: e.message }), { status: 400 });
+            }
+        }
+        if (url.pathname === '/internal/resume' && request.method === 'POST') {
+            const result = await this.resumeMatch();
+            return new Response(JSON.stringify(result.success ? { success: true, message: result.message } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+        }
+
+        // Internal endpoint to substitute a player or re-order a team's slots (body: LineupChangePayload)
+        if (url.pathname === '/internal/change-lineup' && request.method === 'POST') {
+            try {
+                const payload = await request.json<LineupChangePayload>();
+                if ((payload.team !== 'teamA' && payload.team !== 'teamB') || typeof payload.from_round !== 'number') {
+                    return new Response(JSON.stringify({ success: false, error: "Invalid lineup payload: team ('teamA' | 'teamB') and from_round are required." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.changeLineup(payload);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, lineupChange: result.lineupChange } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing lineup payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid lineup payload', details: e.message }), { status: 400 });
+            }
+        }
+
+        // Internal endpoint to edit the songs that have not been played yet (body: SongListEditPayload)
+        if (url.pathname === '/internal/edit-song-list' && request.method === 'POST') {
+            try {
+                const payload = await request.json<SongListEditPayload>();
+                if (!['replace', 'reorder', 'insert'].includes(payload.action) || (payload.action !== 'reorder' && typeof payload.difficulty !== 'string')) {
+                    return new Response(JSON.stringify({ success: false, error: "Invalid song list payload: action ('replace' | 'reorder' | 'insert') is required, and difficulty for replace and insert." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.editSongList(payload);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing song list payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid song list payload', details: e.message }), { status: 400 });
+            }
+        }
+
+        // Internal endpoints to start (body: StartTimerPayload) and stop the current song's timer
+        if (url.pathname === '/internal/start-timer' && request.method === 'POST') {
+            try {
+                const payload = await request.json<StartTimerPayload>();
+                if (!TIMER_PHASES.includes(payload.phase) || !Number.isInteger(payload.duration_seconds) || payload.duration_seconds <= 0) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid start-timer payload: phase (${TIMER_PHASES.join(', ')}) and duration_seconds (positive integer) are required.` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const result = await this.startTimer(payload);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, timer: this.matchData?.timer } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing start-timer payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid start-timer payload', details: e.message }), { status: 400 });
+            }
+        }
+        if (url.pathname === '/internal/stop-timer' && request.method === 'POST') {
+            const result = await this.stopTimer();
+            return new Response(JSON.stringify(result.success ? { success: true, message: result.message } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+        }
+
+        // Internal endpoint to amend an earlier round and recompute every round after it
+        if (url.pathname === '/internal/amend-round' && request.method === 'POST') {
+            try {
+                const payload = await request.json<AmendRoundPayload>();
+                // Validate payload
+                if (typeof payload.round_number_in_match !== 'number') {
+                    return new Response(JSON.stringify({ success: false, error: "Invalid amend-round payload: round_number_in_match must be a number." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const scoresError = this.scoresError(payload, true);
+                if (scoresError) {
+                    return new Response(JSON.stringify({ success: false, error: `Invalid amend-round payload: ${scoresError}` }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+                const amendResult = await this.amendRound(payload);
+                if (amendResult.success) {
+                    return new Response(JSON.stringify({ success: true, message: amendResult.message, amendment: amendResult.amendment }), { headers: { 'Content-Type': 'application/json' } });
+                } else {
+                    return new Response(JSON.stringify({ success: false, error: amendResult.message }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                }
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing amend-round payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid amend-round payload', details: e.message }), { status: 400 });
+            }
+        }
+
         // Internal endpoint to archive the entire match
         if (url.pathname === '/internal/archive-match' && request.method === 'POST') {
             const archiveResult = await this.archiveMatch();
             if (archiveResult.success) {
                 return new Response(JSON.stringify({ success: true, message: archiveResult.message, d1RecordId: archiveResult.d1RecordId }), { headers: { 'Content-Type': 'application/json' } });
             } else {
-                return new Response(JSON.stringify({ success: false, error: archiveResult.message }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+                const status = archiveResult.message?.includes("open dispute") ? 409 : 500; // Open protests block archiving
+                return new Response(JSON.stringify({ success: false, error: archiveResult.message }), { status, headers: { 'Content-Type': 'application/json' } });
             }
         }
   
+        // Internal endpoint to close the match with a forfeit, disqualification or double no-show (Worker validates the payload)
+        if (url.pathname === '/internal/record-result' && request.method === 'POST') {
+            try {
+                const payload = await request.json<RecordMatchResultPayload>();
+                const result = await this.recordAdministrativeResult(payload);
+                return new Response(JSON.stringify(result.success ? { success: true, message: result.message, d1RecordId: result.d1RecordId } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+            } catch (e: any) {
+                console.error(`DO (${this.match_do_id}) Exception processing record-result payload:`, e);
+                return new Response(JSON.stringify({ success: false, error: 'Invalid record-result payload', details: e.message }), { status: 400 });
+            }
+        }
+
         // Internal endpoint to resolve a draw
         if (url.pathname === '/internal/resolve-draw' && request.method === 'POST') {
             try {
@@ -1440,12 +3200,24 @@ import type {
         // This now expects the payload to include song_details fetched by the Worker
         if (url.pathname === '/internal/select-tiebreaker-song' && request.method === 'POST') {
              try {
-                 // The payload now includes song_details fetched by the Worker
-                 interface InternalSelectTiebreakerPayload extends SelectTiebreakerSongPayload {
-                     song_details: Song;
-                 }
+                 // The payload includes song_details (pick) or pool_songs (draw) fetched by the Worker
                  const payload = await request.json<InternalSelectTiebreakerPayload>();
+                 // Staff WebSocket commands arrive without the songs resolved, so load them here
+                 if (payload.mode === 'draw' && payload.pool && !payload.pool_songs) {
+                     payload.pool_songs = await loadTiebreakerPoolSongs(this.env.DB, payload.pool);
+                 }
+                 if (payload.mode !== 'draw' && typeof payload.song_id === 'number' && !payload.song_details) {
+                     payload.song_details = (await this.env.DB.prepare('SELECT * FROM songs WHERE id = ?').bind(payload.song_id).first<Song>()) ?? undefined;
+                 }
   
+                 if (payload.mode === 'draw') {
+                     if (!payload.pool || typeof payload.pool.difficulty !== 'string' || !Array.isArray(payload.pool_songs)) {
+                         return new Response(JSON.stringify({ success: false, error: "Invalid select-tiebreaker-song payload: pool (with difficulty) is required to draw." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+                     }
+                     const result = await this.selectTiebreakerSong(payload);
+                     return new Response(JSON.stringify(result.success ? { success: true, message: result.message, tiebreakerDraw: result.tiebreakerDraw } : { success: false, error: result.message }), { status: result.success ? 200 : 400, headers: { 'Content-Type': 'application/json' } });
+                 }
+
                  // Validate payload, including the presence and basic structure of song_details
                  if (typeof payload.song_id !== 'number' || typeof payload.selected_difficulty !== 'string' || !payload.song_details || typeof payload.song_details.id !== 'number') {
                      return new Response(JSON.stringify({ success: false, error: "Invalid select-tiebreaker-song payload: song_id (number), selected_difficulty (string), and song_details (Song) are required." }), { status: 400, headers: { 'Content-Type': 'application/json' } });
@@ -1474,5 +3246,96 @@ import type {
         // Fallback for unmatched internal paths
         return new Response('DO Not Found.', { status: 404 });
     }
+
+    // --- Hibernatable WebSocket handlers ---
+    // The runtime calls these instead of per-socket event listeners, waking the object if it was evicted.
+
+    async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+        if (typeof message !== 'string') {
+            return;
+        }
+        let parsed: { type?: string } | null = null;
+        try {
+            parsed = JSON.parse(message);
+        } catch (e) {
+            // Not JSON, ignore
+        }
+        // JSON heartbeat for clients that want the server time back; the plain 'ping' text is auto-answered
+        if (parsed?.type === 'ping') {
+            ws.send(JSON.stringify({ type: 'pong', server_time: Date.now() }));
+            return;
+        }
+        if (parsed?.type === 'resync') {
+            this.handleResync(ws, (parsed as { since?: unknown }).since);
+            return;
+        }
+        const attachment = ws.deserializeAttachment() as MatchConnectionAttachment | null;
+        if (parsed?.type === 'command') {
+            await this.handleStaffCommand(ws, attachment, parsed as StaffCommandMessage);
+            return;
+        }
+        console.log(`DO (${this.match_do_id}) WS message from ${attachment?.role ?? 'unknown'} client:`, message);
+    }
+
+    // Runs a staff command through the matching internal route and replies with an ack or error carrying the command id
+    private async handleStaffCommand(ws: WebSocket, attachment: MatchConnectionAttachment | null, message: StaffCommandMessage): Promise<void> {
+        const id = typeof message.id === 'string' ? message.id : null;
+        const command = Object.prototype.hasOwnProperty.call(STAFF_COMMAND_PATHS, message.command) ? message.command : null;
+        const reply = (response: StaffCommandReply) => {
+            try {
+                ws.send(JSON.stringify(response));
+            } catch (e) {
+                console.error(`DO (${this.match_do_id}) Error sending command reply:`, e);
+            }
+        };
+
+        if (attachment?.role !== 'staff' || !attachment.kinde_user_id) {
+            reply({ type: 'error', id, command, error: 'Only authenticated staff connections can send commands.' });
+            return;
+        }
+        if (!id || !command) {
+            reply({ type: 'error', id, command, error: `Invalid command: id (string) and command (${Object.keys(STAFF_COMMAND_PATHS).join(', ')}) are required.` });
+            return;
+        }
+
+        console.log(`DO (${this.match_do_id}) Staff ${attachment.kinde_user_id} sent command ${command} (${id})`);
+        this.commandSockets.set(ws, null);
+        try {
+            const response = await this.fetch(new Request(`https://dummy-host${STAFF_COMMAND_PATHS[command]}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', [STAFF_USER_HEADER]: attachment.kinde_user_id },
+                body: JSON.stringify(message.payload ?? {}),
+            }));
+            const result = await response.json<any>().catch(() => null);
+            if (response.ok && result?.success !== false) {
+                reply({ type: 'ack', id, command, result });
+            } else {
+                reply({ type: 'error', id, command, error: result?.error ?? `Command failed with status ${response.status}`, details: result?.details });
+            }
+        } catch (e: any) {
+            console.error(`DO (${this.match_do_id}) Exception processing staff command ${command}:`, e);
+            reply({ type: 'error', id, command, error: 'Failed to process command', details: e.message });
+        } finally {
+            const pendingClose = this.commandSockets.get(ws);
+            this.commandSockets.delete(ws);
+            if (pendingClose) {
+                this.closeWebSocket(ws, pendingClose.code, pendingClose.reason);
+            }
+        }
+    }
+
+    async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+        console.log(`DO (${this.match_do_id}) WebSocket closed. Code: ${code}, Reason: ${reason}, Clean: ${wasClean}`);
+        // Complete the closing handshake (1005/1006 cannot be sent back)
+        this.closeWebSocket(ws, code === 1005 || code === 1006 ? 1000 : code, reason);
+        if (this.matchData && this.matchData.status !== 'archived') {
+            this.broadcast(this.matchData); // Updated connection count
+        }
+        console.log(`DO (${this.match_do_id}) WebSocket disconnected. Remaining: ${this.getOpenWebSockets().length}`);
+    }
+
+    async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+        console.error(`DO (${this.match_do_id}) WebSocket error:`, error);
+        this.closeWebSocket(ws, 1011, 'WebSocket error');
+    }
   }
-  
\ No newline at end of file
@@ -4,6 +4,14 @@
 // Import @tsndr/cloudflare-worker-jwt for Kinde Auth
 import jwt from '@tsndr/cloudflare-worker-jwt';
 import { calculateSemifinalScore } from './utils/semifinalScoreCalculator';
+import { generateRandomSeed, computeSeedCommitment, deriveSeededRoll, semifinalRollLabel } from './utils/seededRandom';
+import { resolveRuleset, DEFAULT_RULESET } from './utils/roundEngine';
+import { loadTiebreakerPoolSongs } from './utils/tiebreakerPool';
+import { DRAW_RESOLUTION_STRATEGIES } from './utils/drawResolution';
+import { PLAYER_ROTATIONS, songPickOrder } from './utils/playerRotation';
+import { songElementOfCategory } from './utils/elements';
+import { calculateAchievement, parseChartNoteCounts, validateJudgments } from './utils/achievementCalculator';
+import { canonicalPercentage, percentageError } from './utils/percentage';
 // Import your backend types (Ensure this file exists and contains necessary types)
 import type {
     Env,
@@ -38,10 +46,26 @@ import type {
     CreateTournamentMatchPayload, // Used in handleCreateTournamentMatch
     ConfirmMatchSetupPayload, // Used in handleConfirmMatchSetup
     SemifinalMatch, // <-- Import new types
+    SemifinalVerificationResult,
+    MatchRuleset,
+    MatchRulesetRecord,
+    SemifinalScoreResult,
+    PlayerCalculationData,
+    FieldChange,
+    MatchEvent,
+    MatchEventRecord,
+    MatchReplayResult,
+    RecordMatchResultPayload,
+    InternalSelfReportPayload,
+    RoundAttachment,
+    RoundDispute,
+    FileRoundDisputePayload,
+    RuleRoundDisputePayload,
+    AmendRoundPayload,
 
 } from './types'; // Adjust path to your types file
 
-import { MatchDO } from './durable-objects/matchDo'; // Adjust path to your DO file
+import { MatchDO, STAFF_USER_HEADER } from './durable-objects/matchDo'; // Adjust path to your DO file
 
 // Import standard Worker types for clarity
 import { D1Database, R2Bucket, ExecutionContext, DurableObjectStub, DurableObjectId } from "@cloudflare/workers-types";
@@ -67,12 +91,21 @@ const getMatchDO = (doName: string, env: Env): DurableObjectStub => {
     return env.MATCH_DO.get(id);
 };
 
+// Helper to pass the verified admin to the DO in STAFF_USER_HEADER (a value sent by the client is replaced)
+const withStaffUser = (request: Request, kindeUserId: string): Request => {
+    const headers = new Headers(request.headers);
+    headers.set(STAFF_USER_HEADER, kindeUserId);
+    return new Request(request, { headers });
+};
+
 // Helper to handle forwarding requests to DOs
 const forwardRequestToDO = async (doIdString: string, env: Env, request: Request, internalPath: string, method: string = 'POST', bodyData?: any): Promise<Response> => {
     try {
         const doStub = getMatchDO(doIdString, env);
         const doUrl = new URL(`https://dummy-host`); // Dummy host is fine for DO fetch
         doUrl.pathname = internalPath;
+        // Keep the query string, e.g. /websocket?role=overlay&team=teamA
+        doUrl.search = new URL(request.url).search;
 
         const newHeaders = new Headers();
         for (const [key, value] of request.headers.entries()) {
@@ -189,6 +222,36 @@ async function uploadAvatar(env: Env, file: File, identifier: string, teamCode:
     }
 }
 
+// Largest result-screen photo accepted with a score report
+const MAX_EVIDENCE_PHOTO_BYTES = 10 * 1024 * 1024;
+// Largest screenshot or video accepted as a round attachment
+const MAX_ROUND_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+// Stores evidence (e.g. a result-screen photo) in the private EVIDENCE_BUCKET and returns its object key.
+// Evidence has no public URL, admins fetch it through GET /api/evidence/:key.
+async function uploadEvidence(env: Env, file: File, keyPrefix: string): Promise<string | null> {
+    console.log(`Uploading evidence ${file.name} under ${keyPrefix}`);
+    try {
+        const fileExtension = file.name.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'bin';
+        const objectKey = `${keyPrefix}_${Date.now()}.${fileExtension}`;
+        await env.EVIDENCE_BUCKET.put(objectKey, file.stream(), { httpMetadata: { contentType: file.type || 'application/octet-stream' } });
+        return objectKey;
+    } catch (e) {
+        console.error("R2 evidence upload failed:", e);
+        return null;
+    }
+}
+
+// Removes an evidence object that ended up attached to nothing, best effort
+async function deleteEvidence(env: Env, objectKey: string): Promise<void> {
+    try {
+        await env.EVIDENCE_BUCKET.delete(objectKey);
+        console.log(`Evidence ${objectKey} deleted.`);
+    } catch (e) {
+        console.error(`R2 evidence deletion of ${objectKey} failed:`, e);
+    }
+}
+
 // Placeholder for R2 Avatar Deletion
 async function deleteAvatarFromR2(env: Env, url: string): Promise<void> {
     console.log(`Deleting avatar from R2: ${url}`);
@@ -916,12 +979,15 @@ async function handleJoinTeam(request: Request, env: Env, ctx: ExecutionContext,
          const conflictCheck = teamChecks[3]?.results?.[0];
 
          if (!teamResult) return errorResponse(`Team with code ${teamCode} not found.`, 404);
-         if (memberCount >= 3) return errorResponse(`Team ${teamCode} is already full (3 members).`, 409);
+         // Teams are not tied to a stage, so they may grow to the largest team size of any stage
+         const maxTeamSize = await loadMaxTeamSize(env);
+         if (memberCount >= maxTeamSize) return errorResponse(`Team ${teamCode} is already full (${maxTeamSize} members).`, 409);
          if (existingMemberWithKindeId) {
              return errorResponse('你已经报名过了，一个账号只能报名一次。', 409);
          }
 
-         if (conflictCheck) {
+         // There are three colors and jobs: the first three members must all differ, a 4th member repeats one
+         if (conflictCheck && memberCount < 3) {
              const colorConflict = await env.DB.prepare('SELECT 1 FROM members WHERE team_code = ? AND color = ? LIMIT 1').bind(teamCode, color).first();
              if (colorConflict) return errorResponse(`The color '${color}' is already taken in team ${teamCode}.`, 409);
              const jobConflict = await env.DB.prepare('SELECT 1 FROM members WHERE team_code = ? AND job = ? LIMIT 1').bind(teamCode, job).first();
@@ -1823,7 +1889,7 @@ async function handleCreateTournamentMatch(request: Request, env: Env, ctx: Exec
 
         const now = new Date().toISOString();
         const insertResult = await env.DB.prepare(
-            'INSERT INTO tournament_matches (round_name, team1_id, team2_id, status, scheduled_time, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+            'INSERT INTO tournament_matches (round_name, team1_id, team2_id, status, scheduled_time, tournament_stage, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
         )
         .bind(
             payload.round_name,
@@ -1831,6 +1897,7 @@ async function handleCreateTournamentMatch(request: Request, env: Env, ctx: Exec
             payload.team2_id,
             'pending_song_confirmation', // Initial status is pending song selection/confirmation
             payload.scheduled_time || null,
+            payload.tournament_stage || null, // Selects the ruleset; NULL uses 'default'
             now,
             now
         )
@@ -2032,10 +2099,11 @@ async function handleCheckMatchSelectionStatus(request: Request, env: Env, ctx:
 
     try {
         // Fetch match details
-        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
+        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status, tournament_stage FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
         if (!match) {
             return errorResponse('Match not found.', 404);
         }
+        const ruleset = await loadStageRuleset(env, match.tournament_stage);
 
         // Fetch teams and members for both teams
         const [team1Result, team2Result, team1MembersResult, team2MembersResult, selectionsResult] = await env.DB.batch([
@@ -2057,8 +2125,9 @@ async function handleCheckMatchSelectionStatus(request: Request, env: Env, ctx:
              return errorResponse('Could not retrieve team information for the match.', 500);
         }
 
-        const team1Required = team1Members.length;
-        const team2Required = team2Members.length;
+        // Each team fields ruleset.team_size players; larger teams leave some members out
+        const team1Required = ruleset.team_size;
+        const team2Required = ruleset.team_size;
 
         const team1Completed = selections.filter(s => s.team_id === team1.id).length;
         const team2Completed = selections.filter(s => s.team_id === team2.id).length;
@@ -2066,8 +2135,9 @@ async function handleCheckMatchSelectionStatus(request: Request, env: Env, ctx:
         const team1SelectedMemberIds = new Set(selections.filter(s => s.team_id === team1.id).map(s => s.member_id));
         const team2SelectedMemberIds = new Set(selections.filter(s => s.team_id === team2.id).map(s => s.member_id));
 
-        const team1MissingMembers = team1Members.filter(m => !team1SelectedMemberIds.has(m.id)).map(m => ({ id: m.id, nickname: m.nickname }));
-        const team2MissingMembers = team2Members.filter(m => !team2SelectedMemberIds.has(m.id)).map(m => ({ id: m.id, nickname: m.nickname }));
+        // Members without a selection, listed only while the team still has open slots
+        const team1MissingMembers = team1Completed >= team1Required ? [] : team1Members.filter(m => !team1SelectedMemberIds.has(m.id)).map(m => ({ id: m.id, nickname: m.nickname }));
+        const team2MissingMembers = team2Completed >= team2Required ? [] : team2Members.filter(m => !team2SelectedMemberIds.has(m.id)).map(m => ({ id: m.id, nickname: m.nickname }));
 
         const isReadyToCompile = team1Completed === team1Required && team2Completed === team2Required;
 
@@ -2112,39 +2182,37 @@ async function handleCompileMatchSetup(request: Request, env: Env, ctx: Executio
 
     try {
         // Fetch match details and check status
-        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
+        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status, tournament_stage FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
         if (!match) {
             return errorResponse('Match not found.', 404);
         }
         if (match.status !== 'pending_song_confirmation') {
              return errorResponse(`Match status is "${match.status}", cannot compile setup. Status must be 'pending_song_confirmation'.`, 400);
         }
+        const ruleset = await loadStageRuleset(env, match.tournament_stage);
 
-        // Fetch teams and members for both teams
-        const [team1Result, team2Result, team1MembersResult, team2MembersResult, selectionsResult] = await env.DB.batch([
+        // Fetch teams and selections for both teams
+        const [team1Result, team2Result, selectionsResult] = await env.DB.batch([
             env.DB.prepare('SELECT id, name FROM teams WHERE id = ? LIMIT 1').bind(match.team1_id),
             env.DB.prepare('SELECT id, name FROM teams WHERE id = ? LIMIT 1').bind(match.team2_id),
-            env.DB.prepare('SELECT id, nickname, team_code FROM members WHERE team_code = (SELECT code FROM teams WHERE id = ? LIMIT 1)').bind(match.team1_id),
-            env.DB.prepare('SELECT id, nickname, team_code FROM members WHERE team_code = (SELECT code FROM teams WHERE id = ? LIMIT 1)').bind(match.team2_id),
             env.DB.prepare('SELECT mps.*, m.nickname FROM match_player_selections mps JOIN members m ON mps.member_id = m.id WHERE mps.tournament_match_id = ?').bind(matchId),
         ]);
 
         const team1 = team1Result.results[0] as { id: number; name: string } | undefined;
         const team2 = team2Result.results[0] as { id: number; name: string } | undefined;
-        const team1Members = team1MembersResult.results as { id: number; nickname: string; team_code: string }[] || [];
-        const team2Members = team2MembersResult.results as { id: number; nickname: string; team_code: string }[] || [];
         const selections = selectionsResult.results as (MatchPlayerSelection & { nickname: string })[] || [];
 
         if (!team1 || !team2) {
              return errorResponse('Could not retrieve team information for the match.', 500);
         }
 
-        const team1Required = team1Members.length;
-        const team2Required = team2Members.length;
+        // Each team fields ruleset.team_size players, one selection per order slot
+        const team1Required = ruleset.team_size;
+        const team2Required = ruleset.team_size;
         const completedSelectionsCount = selections.length;
 
         if (completedSelectionsCount !== team1Required + team2Required) {
-             // Check if all members from both teams have submitted selections
+             // Check if every order slot of both teams has a selection
              const team1SelectedCount = selections.filter(s => s.team_id === team1.id).length;
              const team2SelectedCount = selections.filter(s => s.team_id === team2.id).length;
 
@@ -2154,6 +2222,7 @@ async function handleCompileMatchSetup(request: Request, env: Env, ctx: Executio
                  let errorMessage = "Cannot compile setup: Not all players have submitted their song selections.";
                  if (missingTeam1 > 0) errorMessage += ` Team ${team1.name} is missing ${missingTeam1} selection(s).`;
                  if (missingTeam2 > 0) errorMessage += ` Team ${team2.name} is missing ${missingTeam2} selection(s).`;
+                 if (missingTeam1 < 0 || missingTeam2 < 0) errorMessage = `Cannot compile setup: the stage allows ${ruleset.team_size} player(s) per team, but more selections were submitted.`;
                  return errorResponse(errorMessage, 400);
              }
         }
@@ -2166,152 +2235,56 @@ async function handleCompileMatchSetup(request: Request, env: Env, ctx: Executio
         const team1PlayerOrder = team1Selections.map(s => s.member_id);
         const team2PlayerOrder = team2Selections.map(s => s.member_id);
 
-        // Construct match song list (alternating players, then song 1/song 2)
+        // Construct match song list: teams alternate rounds, each round's song picked by that team's player on stage under the ruleset's rotation
         const matchSongList: MatchSong[] = [];
-        const maxPlayersPerTeam = Math.max(team1Selections.length, team2Selections.length); // Should be equal if all selected
 
         // Fetch song details for all selected songs efficiently
         const songIds = new Set<number>();
         selections.forEach(s => {
             songIds.add(s.song1_id);
-            songIds.add(s.song2_id);
+            if (ruleset.songs_per_player >= 2 && s.song2_id !== null) songIds.add(s.song2_id);
         });
-        const songDetailsResult = await env.DB.prepare(`SELECT id, title, cover_filename, levels_json FROM songs WHERE id IN (${Array.from(songIds).join(',')})`).all<Song & { levels_json: string | null }>();
+        const songDetailsResult = await env.DB.prepare(`SELECT id, title, category, cover_filename, levels_json FROM songs WHERE id IN (${Array.from(songIds).join(',')})`).all<Song & { levels_json: string | null }>();
         const songDetailsMap = new Map<number, Song & { levels_json: string | null }>();
         songDetailsResult.results?.forEach(song => songDetailsMap.set(song.id, song));
 
-
-        // Add Song 1 for each player, alternating teams
-        for (let i = 0; i < maxPlayersPerTeam; i++) {
-            if (i < team1Selections.length) {
-                const selection = team1Selections[i];
-                const songDetail = songDetailsMap.get(selection.song1_id);
-                if (songDetail) {
-                    matchSongList.push({
-                        song_id: selection.song1_id,
-                        song_difficulty: selection.song1_difficulty, // Use song_difficulty field name
-                        picker_member_id: selection.member_id, // Use picker_member_id field name
-                        picker_team_id: selection.team_id, // Use picker_team_id field name
-                        song_title: songDetail.title, // Use song_title field name
-                        cover_filename: songDetail.cover_filename,
-                        // Note: MatchSong type doesn't typically store parsedLevels or fullCoverUrl directly,
-                        // but the frontend might expect them if you denormalize heavily.
-                        // Let's add them for consistency with frontend expectations based on MatchSong type in store.ts
-                        parsedLevels: songDetail.levels_json ? JSON.parse(songDetail.levels_json) : undefined,
-                        fullCoverUrl: songDetail.cover_filename && env.R2_PUBLIC_BUCKET_URL
-                            ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${songDetail.cover_filename}` // Correct R2 path
-                            : undefined,
-                        // Add other MatchSong fields with default/initial values
-                        status: 'pending', // Initial status in the match song list
-                        song_element: null, // Assuming element is not selected by player
-                        bpm: songDetail.bpm, // Assuming bpm is needed
-                        teamA_player_id: undefined, teamB_player_id: undefined,
-                        teamA_percentage: undefined, teamB_percentage: undefined,
-                        teamA_damage_dealt: undefined, teamB_damage_dealt: undefined,
-                        teamA_effect_value: undefined, teamB_effect_value: undefined,
-                        teamA_health_after: undefined, teamB_health_after: undefined,
-                        teamA_mirror_triggered: undefined, teamB_mirror_triggered: undefined,
-                    } as MatchSong); // Cast to MatchSong
-                } else {
-                     console.error(`Song details not found for ID ${selection.song1_id} during compilation.`);
-                     // Decide how to handle missing song details - error or skip? Error is safer.
-                     return errorResponse(`Failed to find details for song ID ${selection.song1_id} during compilation.`, 500);
-                }
-            }
-            if (i < team2Selections.length) {
-                const selection = team2Selections[i];
-                 const songDetail = songDetailsMap.get(selection.song1_id);
-                 if (songDetail) {
-                    matchSongList.push({
-                        song_id: selection.song1_id,
-                        song_difficulty: selection.song1_difficulty,
-                        picker_member_id: selection.member_id,
-                        picker_team_id: selection.team_id,
-                        song_title: songDetail.title,
-                        cover_filename: songDetail.cover_filename,
-                        parsedLevels: songDetail.levels_json ? JSON.parse(songDetail.levels_json) : undefined,
-                        fullCoverUrl: songDetail.cover_filename && env.R2_PUBLIC_BUCKET_URL
-                            ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${songDetail.cover_filename}` // Correct R2 path
-                            : undefined,
-                        status: 'pending',
-                        song_element: null,
-                        bpm: songDetail.bpm,
-                        teamA_player_id: undefined, teamB_player_id: undefined,
-                        teamA_percentage: undefined, teamB_percentage: undefined,
-                        teamA_damage_dealt: undefined, teamB_damage_dealt: undefined,
-                        teamA_effect_value: undefined, teamB_effect_value: undefined,
-                        teamA_health_after: undefined, teamB_health_after: undefined,
-                        teamA_mirror_triggered: undefined, teamB_mirror_triggered: undefined,
-                    } as MatchSong); // Cast to MatchSong
-                 } else {
-                     console.error(`Song details not found for ID ${selection.song1_id} during compilation.`);
-                     return errorResponse(`Failed to find details for song ID ${selection.song1_id} during compilation.`, 500);
-                 }
-            }
-        }
-
-        // Add Song 2 for each player, alternating teams
-        for (let i = 0; i < maxPlayersPerTeam; i++) {
-            if (i < team1Selections.length) {
-                const selection = team1Selections[i];
-                 const songDetail = songDetailsMap.get(selection.song2_id);
-                 if (songDetail) {
-                    matchSongList.push({
-                        song_id: selection.song2_id,
-                        song_difficulty: selection.song2_difficulty,
-                        picker_member_id: selection.member_id,
-                        picker_team_id: selection.team_id,
-                        song_title: songDetail.title,
-                        cover_filename: songDetail.cover_filename,
-                        parsedLevels: songDetail.levels_json ? JSON.parse(songDetail.levels_json) : undefined,
-                        fullCoverUrl: songDetail.cover_filename && env.R2_PUBLIC_BUCKET_URL
-                            ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${songDetail.cover_filename}` // Correct R2 path
-                            : undefined,
-                        status: 'pending',
-                        song_element: null,
-                        bpm: songDetail.bpm,
-                        teamA_player_id: undefined, teamB_player_id: undefined,
-                        teamA_percentage: undefined, teamB_percentage: undefined,
-                        teamA_damage_dealt: undefined, teamB_damage_dealt: undefined,
-                        teamA_effect_value: undefined, teamB_effect_value: undefined,
-                        teamA_health_after: undefined, teamB_health_after: undefined,
-                        teamA_mirror_triggered: undefined, teamB_mirror_triggered: undefined,
-                    } as MatchSong); // Cast to MatchSong
-                 } else {
-                     console.error(`Song details not found for ID ${selection.song2_id} during compilation.`);
-                     return errorResponse(`Failed to find details for song ID ${selection.song2_id} during compilation.`, 500);
-                 }
-            }
-            if (i < team2Selections.length) {
-                const selection = team2Selections[i];
-                 const songDetail = songDetailsMap.get(selection.song2_id);
-                 if (songDetail) {
-                    matchSongList.push({
-                        song_id: selection.song2_id,
-                        song_difficulty: selection.song2_difficulty,
-                        picker_member_id: selection.member_id,
-                        picker_team_id: selection.team_id,
-                        song_title: songDetail.title,
-                        cover_filename: songDetail.cover_filename,
-                        parsedLevels: songDetail.levels_json ? JSON.parse(songDetail.levels_json) : undefined,
-                        fullCoverUrl: songDetail.cover_filename && env.R2_PUBLIC_BUCKET_URL
-                            ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${songDetail.cover_filename}` // Correct R2 path
-                            : undefined,
-                        status: 'pending',
-                        song_element: null,
-                        bpm: songDetail.bpm,
-                        teamA_player_id: undefined, teamB_player_id: undefined,
-                        teamA_percentage: undefined, teamB_percentage: undefined,
-                        teamA_damage_dealt: undefined, teamB_damage_dealt: undefined,
-                        teamA_effect_value: undefined, teamB_effect_value: undefined,
-                        teamA_health_after: undefined, teamB_health_after: undefined,
-                        teamA_mirror_triggered: undefined, teamB_mirror_triggered: undefined,
-                    } as MatchSong); // Cast to MatchSong
-                 } else {
-                     console.error(`Song details not found for ID ${selection.song2_id} during compilation.`);
-                     return errorResponse(`Failed to find details for song ID ${selection.song2_id} during compilation.`, 500);
-                 }
+        for (const pick of songPickOrder(ruleset.rotation, ruleset.team_size, ruleset.songs_per_player)) {
+            const selection = (pick.team === 0 ? team1Selections : team2Selections)[pick.slot];
+            const songSlot = pick.songSlot;
+            const songId = songSlot === 1 ? selection.song1_id : selection.song2_id;
+            const songDifficulty = songSlot === 1 ? selection.song1_difficulty : selection.song2_difficulty;
+            const songDetail = songId !== null ? songDetailsMap.get(songId) : undefined;
+            if (songId === null || songDifficulty === null || !songDetail) {
+                console.error(`Song ${songSlot} of member ${selection.member_id} (ID ${songId}) not found during compilation.`);
+                // Decide how to handle missing song details - error or skip? Error is safer.
+                return errorResponse(`Failed to find details for song ${songSlot} of member ${selection.member_id} (ID ${songId}) during compilation.`, 500);
             }
+            matchSongList.push({
+                song_id: songId,
+                song_difficulty: songDifficulty, // Use song_difficulty field name
+                picker_type: 'member',
+                picker_member_id: selection.member_id, // Use picker_member_id field name
+                picker_team_id: selection.team_id, // Use picker_team_id field name
+                song_title: songDetail.title, // Use song_title field name
+                cover_filename: songDetail.cover_filename,
+                // Note: MatchSong type doesn't typically store parsedLevels or fullCoverUrl directly,
+                // but the frontend might expect them if you denormalize heavily.
+                // Let's add them for consistency with frontend expectations based on MatchSong type in store.ts
+                parsedLevels: songDetail.levels_json ? JSON.parse(songDetail.levels_json) : undefined,
+                fullCoverUrl: songDetail.cover_filename && env.R2_PUBLIC_BUCKET_URL
+                    ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${songDetail.cover_filename}` // Correct R2 path
+                    : undefined,
+                // Add other MatchSong fields with default/initial values
+                status: 'pending', // Initial status in the match song list
+                song_element: songElementOfCategory(songDetail.category), // Only affects damage in elemental stages
+                bpm: songDetail.bpm, // Assuming bpm is needed
+                teamA_player_id: undefined, teamB_player_id: undefined,
+                teamA_percentage: undefined, teamB_percentage: undefined,
+                teamA_damage_dealt: undefined, teamB_damage_dealt: undefined,
+                teamA_effect_value: undefined, teamB_effect_value: undefined,
+                teamA_health_after: undefined, teamB_health_after: undefined,
+                teamA_mirror_triggered: undefined, teamB_mirror_triggered: undefined,
+            } as MatchSong); // Cast to MatchSong
         }
 
 
@@ -2496,21 +2469,22 @@ async function handleFetchUserMatchSelectionData(request: Request, env: Env, ctx
             member_nickname: s.nickname, // Include nickname
         }));
 
-        // Determine available order slots count (assuming it's the number of members in the team)
-        const availableOrderSlotsCount = myTeamMembers.length; // Or opponentTeamMembers.length, should be the same for a valid match
+        // Order slots and songs per player come from the ruleset of the match's stage
+        const ruleset = await loadStageRuleset(env, matchResult.tournament_stage);
+        const availableOrderSlotsCount = ruleset.team_size;
 
         // --- ADDED: Fetch details for selected songs if a selection exists ---
         let mySelection: MatchPlayerSelectionFrontend | null = null;
 
         if (mySelectionRaw) {
             // Fetch song details for song1_id and song2_id in one batch
-            const songIds = [mySelectionRaw.song1_id, mySelectionRaw.song2_id];
+            const songIds = [mySelectionRaw.song1_id, mySelectionRaw.song2_id ?? mySelectionRaw.song1_id];
             const songDetailsResult = await env.DB.prepare(`SELECT id, title, cover_filename, levels_json FROM songs WHERE id IN (?, ?)`).bind(songIds[0], songIds[1]).all<Song & { levels_json: string | null }>();
             const songDetailsMap = new Map<number, Song & { levels_json: string | null }>();
             songDetailsResult.results?.forEach(song => songDetailsMap.set(song.id, song));
 
             const song1Detail = songDetailsMap.get(mySelectionRaw.song1_id);
-            const song2Detail = songDetailsMap.get(mySelectionRaw.song2_id);
+            const song2Detail = mySelectionRaw.song2_id !== null ? songDetailsMap.get(mySelectionRaw.song2_id) : undefined;
 
             mySelection = {
                 ...mySelectionRaw,
@@ -2521,7 +2495,7 @@ async function handleFetchUserMatchSelectionData(request: Request, env: Env, ctx
                     : undefined,
                 song1_parsedLevels: song1Detail?.levels_json ? JSON.parse(song1Detail.levels_json) as SongLevel : undefined,
                 // Populate denormalized fields for song 2
-                song2_title: song2Detail?.title || '未知歌曲',
+                song2_title: mySelectionRaw.song2_id !== null ? song2Detail?.title || '未知歌曲' : undefined,
                 song2_fullCoverUrl: song2Detail?.cover_filename && env.R2_PUBLIC_BUCKET_URL
                     ? `${env.R2_PUBLIC_BUCKET_URL}/song_covers/${song2Detail.cover_filename}` // Correct R2 path
                     : undefined,
@@ -2547,6 +2521,7 @@ async function handleFetchUserMatchSelectionData(request: Request, env: Env, ctx
             mySelection: mySelection, // Use the processed selection with song details
             occupiedOrderIndices: occupiedOrderIndices,
             availableOrderSlotsCount: availableOrderSlotsCount,
+            songsPerPlayer: ruleset.songs_per_player,
             // REMOVED: song1Details, song2Details - Details are now inside mySelection
         };
 
@@ -2594,7 +2569,7 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
 
 
         // 2. Fetch match details and determine user's team ID
-        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
+        const match = await env.DB.prepare('SELECT id, team1_id, team2_id, status, tournament_stage FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
         if (!match) {
             return errorResponse('Match not found.', 404);
         }
@@ -2610,22 +2585,24 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
              return errorResponse("Your team is not participating in this match.", 403);
         }
 
-        // 3. Validate payload
+        // 3. Validate payload; song 2 is only picked when the stage has two songs per player
+        const ruleset = await loadStageRuleset(env, match.tournament_stage);
+        const needsSong2 = ruleset.songs_per_player >= 2;
         if (
             payload.song1_id === undefined || payload.song1_id === null ||
             payload.song1_difficulty === undefined || payload.song1_difficulty === null ||
-            payload.song2_id === undefined || payload.song2_id === null ||
-            payload.song2_difficulty === undefined || payload.song2_difficulty === null ||
+            (needsSong2 && (payload.song2_id === undefined || payload.song2_id === null || isNaN(payload.song2_id))) ||
+            (needsSong2 && (payload.song2_difficulty === undefined || payload.song2_difficulty === null)) ||
             payload.selected_order_index === undefined || payload.selected_order_index === null ||
-            isNaN(payload.song1_id) || isNaN(payload.song2_id) || isNaN(payload.selected_order_index)
+            isNaN(payload.song1_id) || isNaN(payload.selected_order_index)
         ) {
              return errorResponse("Invalid or missing song/order data in payload.", 400);
         }
+        const song2Id = needsSong2 ? payload.song2_id! : null;
+        const song2Difficulty = needsSong2 ? payload.song2_difficulty! : null;
 
-        // Basic range check for order index (assuming 3v3, indices 0, 1, 2)
-        // You might need to fetch team size to make this dynamic
-        const teamSizeResult = await env.DB.prepare('SELECT COUNT(*) as count FROM members WHERE team_code = ?').bind(member.team_code).first<{ count: number }>();
-        const teamSize = teamSizeResult?.count ?? 0;
+        // Range check for order index: one slot per player of the stage's team size
+        const teamSize = ruleset.team_size;
 
         if (payload.selected_order_index < 0 || payload.selected_order_index >= teamSize) {
              return errorResponse(`Invalid selected_order_index. Must be between 0 and ${teamSize - 1}.`, 400);
@@ -2635,7 +2612,7 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
         // Check if songs exist
         const songsExist = await env.DB.batch([
             env.DB.prepare("SELECT id FROM songs WHERE id = ? LIMIT 1").bind(payload.song1_id),
-            env.DB.prepare("SELECT id FROM songs WHERE id = ? LIMIT 1").bind(payload.song2_id),
+            env.DB.prepare("SELECT id FROM songs WHERE id = ? LIMIT 1").bind(song2Id ?? payload.song1_id),
         ]);
         if (!songsExist[0].results[0] || !songsExist[1].results[0]) {
              return errorResponse("One or both selected songs not found.", 400);
@@ -2672,8 +2649,8 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
             .bind(
                 payload.song1_id,
                 payload.song1_difficulty,
-                payload.song2_id,
-                payload.song2_difficulty,
+                song2Id,
+                song2Difficulty,
                 payload.selected_order_index,
                 now,
                 existingSelection.id
@@ -2692,8 +2669,8 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
                 myTeamId, // 使用正确的 myTeamId (数字)
                 payload.song1_id,
                 payload.song1_difficulty,
-                payload.song2_id,
-                payload.song2_difficulty,
+                song2Id,
+                song2Difficulty,
                 payload.selected_order_index,
                 now,
                 now
@@ -2719,14 +2696,14 @@ async function handleSaveMatchPlayerSelection(request: Request, env: Env, ctx: E
                 FROM match_player_selections mps
                 JOIN members m ON mps.member_id = m.id
                 JOIN songs s1 ON mps.song1_id = s1.id
-                JOIN songs s2 ON mps.song2_id = s2.id
+                LEFT JOIN songs s2 ON mps.song2_id = s2.id -- song2_id is NULL with one song per player
                 WHERE mps.id = ? LIMIT 1
             `;
             const savedSelectionRaw = await env.DB.prepare(savedSelectionQuery).bind(savedSelectionId).first<
                 MatchPlayerSelection & {
                     nickname: string;
                     song1_title: string; song1_cover_filename: string | null; song1_levels_json: string | null;
-                    song2_title: string; song2_cover_filename: string | null; song2_levels_json: string | null;
+                    song2_title: string | null; song2_cover_filename: string | null; song2_levels_json: string | null;
                 }
             >();
 
@@ -2789,15 +2766,21 @@ async function handleCreateSemifinalMatch(request: Request, env: Env): Promise<R
     }
 
     try {
+        // Seed for the 矩盾手 bonus roll; only the commitment is returned until the match is archived
+        const randomSeed = generateRandomSeed();
+        const randomSeedCommitment = await computeSeedCommitment(randomSeed);
+
         const result = await env.DB.prepare(
-            'INSERT INTO semifinal_matches (round_name, player1_id, player2_id, scheduled_time, status) VALUES (?, ?, ?, ?, ?)'
+            'INSERT INTO semifinal_matches (round_name, player1_id, player2_id, scheduled_time, status, random_seed, random_seed_commitment) VALUES (?, ?, ?, ?, ?, ?, ?)'
         )
         .bind(
             payload.round_name,
             payload.player1_id,
             payload.player2_id,
             payload.scheduled_time,
-            'scheduled' // Initial status
+            'scheduled', // Initial status
+            randomSeed,
+            randomSeedCommitment
         )
         .run();
 
@@ -2818,6 +2801,14 @@ async function handleCreateSemifinalMatch(request: Request, env: Env): Promise<R
     }
 }
 
+// Helper to hide a semifinal match's seed until the match is archived (only the commitment is public before that)
+function redactSemifinalSeed(match: SemifinalMatch): SemifinalMatch {
+    if (match.status !== 'archived') {
+        delete match.random_seed;
+    }
+    return match;
+}
+
 // GET /api/semifinal_matches (Admin)
 async function handleFetchSemifinalMatches(request: Request, env: Env): Promise<Response> {
     // Admin middleware is applied by the router
@@ -2839,7 +2830,7 @@ async function handleFetchSemifinalMatches(request: Request, env: Env): Promise<
 
         // Manually parse JSON fields for each result
         const processedResults = results.map(match => {
-            const processedMatch = { ...match } as SemifinalMatch;
+            const processedMatch = redactSemifinalSeed({ ...match } as SemifinalMatch);
             if (match.results_json) {
                 try { processedMatch.results = JSON.parse(match.results_json); } catch (e) { console.error("Failed to parse results_json", e); }
             }
@@ -2863,9 +2854,20 @@ async function handleSubmitSemifinalScores(request: Request, env: Env, matchId:
     const payload: SubmitSemifinalScoresPayload = await request.json();
     console.log(`Received semifinal scores payload for match ${matchId}:`, payload);
 
-    // Basic payload validation: check for player objects and percentages
-    if (!payload.player1 || !payload.player2 || payload.player1.percentage === undefined || payload.player2.percentage === undefined) {
-        return errorResponse('Invalid payload: missing player data or percentage', 400);
+    // Basic payload validation: check for player objects and a percentage or judgments for each
+    if (!payload.player1 || !payload.player2 ||
+        (payload.player1.percentage === undefined && !payload.player1.judgments) ||
+        (payload.player2.percentage === undefined && !payload.player2.judgments)) {
+        return errorResponse('Invalid payload: missing player data, percentage or judgments', 400);
+    }
+    if ((payload.player1.judgments || payload.player2.judgments) && (typeof payload.song_id !== 'number' || !payload.difficulty)) {
+        return errorResponse('Invalid payload: song_id and difficulty are required with judgments', 400);
+    }
+    for (const key of ['player1', 'player2'] as const) {
+        const error = payload[key].judgments ? null : percentageError(payload[key].percentage);
+        if (error) {
+            return errorResponse(`Invalid payload: ${key} ${error}`, 400);
+        }
     }
 
     try {
@@ -2912,28 +2914,56 @@ async function handleSubmitSemifinalScores(request: Request, env: Env, matchId:
         }
 
 
+        // Compute percentages from judgment breakdowns against the chart's note counts
+        let player1Percentage = payload.player1.percentage;
+        let player2Percentage = payload.player2.percentage;
+        if (payload.player1.judgments || payload.player2.judgments) {
+            const song = await env.DB.prepare('SELECT notes_json FROM songs WHERE id = ?').bind(payload.song_id).first<Pick<Song, 'notes_json'>>();
+            if (!song) {
+                return errorResponse('Song not found', 404);
+            }
+            const noteCounts = parseChartNoteCounts(song.notes_json, payload.difficulty!);
+            if (!noteCounts) {
+                return errorResponse(`No note counts stored for song ${payload.song_id} (${payload.difficulty}), enter the percentages instead.`, 400);
+            }
+            for (const [key, nickname] of [['player1', player1Member.nickname], ['player2', player2Member.nickname]] as const) {
+                const judgments = payload[key].judgments;
+                if (!judgments) continue;
+                const error = validateJudgments(noteCounts, judgments);
+                if (error) {
+                    return errorResponse(`Invalid judgments for ${nickname}: ${error}`, 400);
+                }
+                const { percentage } = calculateAchievement(noteCounts, judgments);
+                if (key === 'player1') player1Percentage = percentage; else player2Percentage = percentage;
+            }
+        }
+
         // Prepare data for calculation using DB data for nickname and profession
         const player1Data: PlayerCalculationData = {
             id: player1Id,
             nickname: player1Member.nickname,
             profession: player1Profession, // Use profession from DB
-            percentage: payload.player1.percentage
+            percentage: canonicalPercentage(player1Percentage)!
         };
         const player2Data: PlayerCalculationData = {
             id: player2Id,
             nickname: player2Member.nickname,
             profession: player2Profession, // Use profession from DB
-            percentage: payload.player2.percentage
+            percentage: canonicalPercentage(player2Percentage)!
         };
 
         console.log(`Calculating scores for match ${matchId} with DB professions: ${player1Data.nickname} (${player1Data.profession}, ${player1Data.percentage}%) vs ${player2Data.nickname} (${player2Data.profession}, ${player2Data.percentage}%)`);
 
 
+        // Derive the 矩盾手 bonus rolls from the match seed (matches created before seeding fall back to Math.random)
+        const player1Roll = match.random_seed ? await deriveSeededRoll(match.random_seed, semifinalRollLabel('player1')) : null;
+        const player2Roll = match.random_seed ? await deriveSeededRoll(match.random_seed, semifinalRollLabel('player2')) : null;
+
         // Perform calculation
         // Pass player1Data as player and player2Data as opponent for result1
-        const result1 = calculateSemifinalScore(player1Data, player2Data);
+        const result1 = calculateSemifinalScore(player1Data, player2Data, player1Roll);
         // Pass player2Data as player and player1Data as opponent for result2
-        const result2 = calculateSemifinalScore(player2Data, player1Data);
+        const result2 = calculateSemifinalScore(player2Data, player1Data, player2Roll);
 
 
         // --- ADD CHECKS HERE ---
@@ -2966,8 +2996,9 @@ async function handleSubmitSemifinalScores(request: Request, env: Env, matchId:
 
         // Store results in the database
         const semifinalResults = {
-            player1: result1,
-            player2: result2,
+            player1: payload.player1.judgments ? { ...result1, judgments: payload.player1.judgments } : result1,
+            player2: payload.player2.judgments ? { ...result2, judgments: payload.player2.judgments } : result2,
+            ...(payload.player1.judgments || payload.player2.judgments ? { song_id: payload.song_id, difficulty: payload.difficulty } : {}),
             submitted_at: new Date().toISOString()
         };
 
@@ -2983,8 +3014,8 @@ async function handleSubmitSemifinalScores(request: Request, env: Env, matchId:
         .bind(
             'completed', // Mark as completed
             winnerPlayerId,
-            payload.player1.percentage, // Store submitted percentage
-            payload.player2.percentage, // Store submitted percentage
+            player1Data.percentage, // Store submitted (or computed) percentage
+            player2Data.percentage, // Store submitted (or computed) percentage
             player1Profession, // MODIFICATION: Use profession from DB
             player2Profession, // MODIFICATION: Use profession from DB
             result1.totalScore,
@@ -3020,6 +3051,9 @@ async function handleSubmitSemifinalScores(request: Request, env: Env, matchId:
          if (updatedMatch && updatedMatch.results_json) {
              try { updatedMatch.results = JSON.parse(updatedMatch.results_json); } catch (e) { console.error("Failed to parse results_json for updated match", matchId, e); }
          }
+         if (updatedMatch) {
+             redactSemifinalSeed(updatedMatch);
+         }
 
 
         return jsonResponse<SubmitSemifinalScoresResponse>({
@@ -3069,7 +3103,7 @@ async function handleFetchSemifinalMatch(request: Request, env: Env, matchId: nu
          // Remove results_json before sending to frontend if you prefer
          // delete match.results_json; // Or handle this in the frontend type/parsing
 
-         return jsonResponse(match);
+         return jsonResponse(redactSemifinalSeed(match));
 
      } catch (e: any) {
          console.error(`Error fetching semifinal match ${matchId}:`, e);
@@ -3077,6 +3111,58 @@ async function handleFetchSemifinalMatch(request: Request, env: Env, matchId: nu
      }
 }
 
+// GET /api/semifinal-matches/:id/verify (Public)
+// Recomputes an archived semifinal match with its revealed seed so anyone can check the 矩盾手 bonus roll.
+async function handleVerifySemifinalMatch(request: Request, env: Env, matchId: number): Promise<Response> {
+     try {
+         const match = await env.DB.prepare('SELECT * FROM semifinal_matches WHERE id = ?').bind(matchId).first<SemifinalMatch>();
+         if (!match) {
+             return errorResponse('Semifinal match not found', 404);
+         }
+         if (match.status !== 'archived' || !match.random_seed) {
+             return errorResponse('The seed is only revealed once the match is archived', 400);
+         }
+         if (match.player1_percentage == null || match.player2_percentage == null || !match.player1_profession || !match.player2_profession) {
+             return errorResponse('Match has no recorded scores to verify', 400);
+         }
+
+         const members = await env.DB.prepare('SELECT id, nickname FROM members WHERE id IN (?, ?)').bind(match.player1_id, match.player2_id).all<{ id: number; nickname: string }>();
+         const nicknameOf = (id: number) => members.results.find(m => m.id === id)?.nickname ?? `选手${id}`;
+         const player1Data: PlayerCalculationData = { id: match.player1_id, nickname: nicknameOf(match.player1_id), profession: match.player1_profession, percentage: match.player1_percentage };
+         const player2Data: PlayerCalculationData = { id: match.player2_id, nickname: nicknameOf(match.player2_id), profession: match.player2_profession, percentage: match.player2_percentage };
+
+         // Recompute both results from the stored inputs and the revealed seed
+         const player1 = calculateSemifinalScore(player1Data, player2Data, await deriveSeededRoll(match.random_seed, semifinalRollLabel('player1')));
+         const player2 = calculateSemifinalScore(player2Data, player1Data, await deriveSeededRoll(match.random_seed, semifinalRollLabel('player2')));
+
+         const recorded = match.results_json ? JSON.parse(match.results_json) as { player1?: SemifinalScoreResult; player2?: SemifinalScoreResult } : {};
+         const mismatches: Record<string, FieldChange> = {};
+         const compare = (field: string, before: any, after: any) => {
+             if (before !== after) mismatches[field] = { before, after };
+         };
+         compare('final_score_player1', match.final_score_player1, player1.totalScore);
+         compare('final_score_player2', match.final_score_player2, player2.totalScore);
+         compare('player1.bonusIndex', recorded.player1?.bonusIndex ?? null, player1.bonusIndex ?? null);
+         compare('player2.bonusIndex', recorded.player2?.bonusIndex ?? null, player2.bonusIndex ?? null);
+
+         const commitmentValid = (await computeSeedCommitment(match.random_seed)) === match.random_seed_commitment;
+
+         return jsonResponse<SemifinalVerificationResult>({
+             semifinal_match_id: matchId,
+             random_seed: match.random_seed,
+             random_seed_commitment: match.random_seed_commitment ?? null,
+             commitment_valid: commitmentValid,
+             player1,
+             player2,
+             mismatches,
+             verified: commitmentValid && Object.keys(mismatches).length === 0,
+         });
+     } catch (e: any) {
+         console.error(`Error verifying semifinal match ${matchId}:`, e);
+         return errorResponse('Failed to verify semifinal match', 500, e.message);
+     }
+}
+
 // POST /api/semifinal-matches/:id/archive (Admin)
 async function handleArchiveSemifinalMatch(request: Request, env: Env, matchId: number): Promise<Response> {
      // Admin middleware is applied by the router
@@ -3284,8 +3370,8 @@ async function handleCalculateRound(request: Request, env: Env, ctx: ExecutionCo
     const parts = new URL(request.url).pathname.split('/');
     const matchDoName = parts[3]; // /api/matches/:matchId/calculate-round -> parts[3]
     console.log(`Admin user ${kindeUserId} forwarding calculate-round to DO ${matchDoName}...`);
-    // Forward the request to the specific Match DO instance
-    return forwardRequestToDO(matchDoName, env, request, '/internal/calculate-round', 'POST');
+    // Forward the request to the specific Match DO instance (with the referee, for dual entry)
+    return forwardRequestToDO(matchDoName, env, withStaffUser(request, kindeUserId), '/internal/calculate-round', 'POST');
 }
 
 // POST /api/matches/:matchId/resolve-draw (Admin Only)
@@ -3307,6 +3393,165 @@ async function handleSelectTiebreakerSong(request: Request, env: Env, ctx: Execu
 }
 
 // POST /api/tournament_matches/:matchId/start_live (Admin Only)
+// Helper to load the ruleset of a tournament stage from D1, falling back to the 'default' stage and then to DEFAULT_RULESET
+async function loadStageRuleset(env: Env, stage?: string | null): Promise<MatchRuleset> {
+    const record = await env.DB.prepare(
+        "SELECT * FROM match_rulesets WHERE stage IN (?, 'default') ORDER BY CASE WHEN stage = ? THEN 0 ELSE 1 END LIMIT 1"
+    ).bind(stage || 'default', stage || 'default').first<MatchRulesetRecord>();
+    if (!record) {
+        return { ...DEFAULT_RULESET };
+    }
+    try {
+        return resolveRuleset(JSON.parse(record.ruleset_json));
+    } catch (e) {
+        console.error(`Failed to parse ruleset_json for stage ${record.stage}, using default ruleset`, e);
+        return { ...DEFAULT_RULESET };
+    }
+}
+
+// Helper to get the largest team size of any stage's ruleset (DEFAULT_RULESET when no 'default' stage is stored)
+async function loadMaxTeamSize(env: Env): Promise<number> {
+    const { results } = await env.DB.prepare('SELECT * FROM match_rulesets').all<MatchRulesetRecord>();
+    const records = results ?? [];
+    let maxTeamSize = records.some(record => record.stage === 'default') ? 0 : DEFAULT_RULESET.team_size;
+    for (const record of records) {
+        try {
+            maxTeamSize = Math.max(maxTeamSize, resolveRuleset(JSON.parse(record.ruleset_json)).team_size);
+        } catch (e) {
+            console.error(`Failed to parse ruleset_json for stage ${record.stage}, ignoring its team size`, e);
+        }
+    }
+    return maxTeamSize || DEFAULT_RULESET.team_size;
+}
+
+// GET /api/match_rulesets (Admin)
+async function handleFetchMatchRulesets(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    try {
+        const { results } = await env.DB.prepare('SELECT * FROM match_rulesets ORDER BY stage ASC').all<MatchRulesetRecord>();
+        const rulesets = results.map(record => {
+            let parsed: Partial<MatchRuleset> | null = null;
+            try { parsed = JSON.parse(record.ruleset_json); } catch (e) { console.error(`Failed to parse ruleset_json for stage ${record.stage}`, e); }
+            return { ...record, ruleset: resolveRuleset(parsed) };
+        });
+        return jsonResponse({ rulesets, default_ruleset: DEFAULT_RULESET });
+    } catch (e: any) {
+        console.error("Worker: Exception fetching match rulesets:", e);
+        return errorResponse('Failed to fetch match rulesets', 500, e.message);
+    }
+}
+
+// PUT /api/match_rulesets/:stage (Admin)
+// Creates or replaces the ruleset of a stage. It applies to live matches started afterwards.
+async function handleSaveMatchRuleset(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const stage = decodeURIComponent(new URL(request.url).pathname.split('/')[3] || ''); // /api/match_rulesets/:stage -> parts[3]
+    console.log(`Admin user ${kindeUserId} saving ruleset for stage ${stage}...`);
+    if (!stage) {
+        return errorResponse('Missing stage in path', 400);
+    }
+
+    try {
+        const payload: Partial<MatchRuleset> = await request.json();
+        const ruleset = resolveRuleset(payload);
+
+        if (!Number.isInteger(ruleset.initial_health) || ruleset.initial_health <= 0 ||
+            !Number.isInteger(ruleset.mirror_health_restore) || ruleset.mirror_health_restore <= 0 ||
+            !Number.isInteger(ruleset.max_damage_digit) || ruleset.max_damage_digit < 0 ||
+            !Number.isInteger(ruleset.standard_rounds_count) || ruleset.standard_rounds_count <= 0) {
+            return errorResponse('Invalid ruleset: initial_health, mirror_health_restore and standard_rounds_count must be positive integers, max_damage_digit a non-negative integer.', 400);
+        }
+        // resolveRuleset falls back to the default chain, so reject an invalid one instead of silently replacing it
+        if (payload.draw_resolution !== undefined && JSON.stringify(payload.draw_resolution) !== JSON.stringify(ruleset.draw_resolution)) {
+            return errorResponse(`Invalid ruleset: draw_resolution must be a non-empty list of ${DRAW_RESOLUTION_STRATEGIES.join(', ')}.`, 400);
+        }
+        // An elemental block is merged with the default multipliers; anything but an object or null is a mistake
+        if (payload.elemental !== undefined && payload.elemental !== null && typeof payload.elemental !== 'object') {
+            return errorResponse('Invalid ruleset: elemental must be an object or null.', 400);
+        }
+        if (payload.dual_entry !== undefined && typeof payload.dual_entry !== 'boolean') {
+            return errorResponse('Invalid ruleset: dual_entry must be a boolean.', 400);
+        }
+        if (payload.rotation !== undefined && payload.rotation !== ruleset.rotation) {
+            return errorResponse(`Invalid ruleset: rotation must be one of ${PLAYER_ROTATIONS.join(', ')}.`, 400);
+        }
+        // A selection holds at most two songs, and each team picks team_size * songs_per_player songs
+        if (!Number.isInteger(ruleset.team_size) || ruleset.team_size < 1 || ruleset.team_size > 4 ||
+            !Number.isInteger(ruleset.songs_per_player) || ruleset.songs_per_player < 1 || ruleset.songs_per_player > 2) {
+            return errorResponse('Invalid ruleset: team_size must be 1 to 4 and songs_per_player 1 or 2.', 400);
+        }
+        if (ruleset.standard_rounds_count > 2 * ruleset.team_size * ruleset.songs_per_player) {
+            return errorResponse(`Invalid ruleset: standard_rounds_count cannot exceed the ${2 * ruleset.team_size * ruleset.songs_per_player} songs picked for a match.`, 400);
+        }
+
+        const now = new Date().toISOString();
+        const result = await env.DB.prepare(
+            `INSERT INTO match_rulesets (stage, ruleset_json, updated_at) VALUES (?, ?, ?)
+             ON CONFLICT(stage) DO UPDATE SET ruleset_json = excluded.ruleset_json, updated_at = excluded.updated_at`
+        ).bind(stage, JSON.stringify(ruleset), now).run();
+
+        if (!result.success) {
+            console.error(`Worker: Failed to save ruleset for stage ${stage}:`, result.error);
+            return errorResponse('Failed to save ruleset', 500, result.error);
+        }
+
+        return jsonResponse<MatchRulesetRecord>({ stage, ruleset_json: JSON.stringify(ruleset), updated_at: now, ruleset });
+    } catch (e: any) {
+        console.error(`Worker: Exception saving ruleset for stage ${stage}:`, e);
+        return errorResponse('Failed to save ruleset', 500, e.message);
+    }
+}
+
+// GET /api/tournament_matches/:id/events (Admin Only)
+// The command log of a match: from D1 once archived, from the live DO before that.
+// With ?replay=true the log is also replayed into a MatchState (for a live match, compared with its current state).
+async function handleFetchMatchEvents(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const url = new URL(request.url);
+    const matchId = parseInt(url.pathname.split('/')[3], 10); // /api/tournament_matches/:id/events -> parts[3]
+    if (isNaN(matchId)) {
+        return errorResponse('Invalid match ID', 400);
+    }
+    const replayRequested = url.searchParams.get('replay') === 'true';
+
+    try {
+        const match = await env.DB.prepare('SELECT id, status FROM tournament_matches WHERE id = ?').bind(matchId).first<{ id: number; status: TournamentMatch['status'] }>();
+        if (!match) {
+            return errorResponse('Tournament match not found', 404);
+        }
+
+        const matchDoName = `match-${matchId}`;
+        const { results } = await env.DB.prepare(
+            'SELECT tournament_match_id, seq, event_type, payload_json, created_at FROM match_events WHERE tournament_match_id = ? ORDER BY seq'
+        ).bind(matchId).all<MatchEventRecord>();
+        let events = results.map(row => ({ seq: row.seq, type: row.event_type, payload: JSON.parse(row.payload_json), created_at: row.created_at }) as MatchEvent);
+        let source: 'd1' | 'live' = 'd1';
+
+        if (events.length === 0 && match.status === 'live') {
+            const doResponse = await forwardRequestToDO(matchDoName, env, request, '/internal/events', 'GET');
+            const doResult = await doResponse.json<{ success: boolean; events?: MatchEvent[]; error?: string }>();
+            if (!doResponse.ok || !doResult.success) {
+                return errorResponse(doResult.error || 'Failed to fetch events from live match', doResponse.status);
+            }
+            events = doResult.events ?? [];
+            source = 'live';
+        }
+
+        let replay: MatchReplayResult | undefined;
+        if (replayRequested) {
+            // A live DO replays its own stored log so the result can be compared with its state
+            const doResponse = await forwardRequestToDO(matchDoName, env, request, '/internal/replay-events', 'POST', source === 'live' ? {} : { events });
+            const doResult = await doResponse.json<{ success: boolean; replay?: MatchReplayResult; error?: string }>();
+            if (!doResponse.ok || !doResult.success) {
+                return errorResponse(doResult.error || 'Failed to replay events', doResponse.status);
+            }
+            replay = doResult.replay;
+        }
+
+        return jsonResponse({ tournament_match_id: matchId, source, events, replay }, 200);
+    } catch (e: any) {
+        console.error(`Worker: Exception fetching events for match ${matchId}:`, e);
+        return errorResponse('Failed to fetch match events', 500, e.message);
+    }
+}
+
 async function handleStartLiveMatch(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
     const parts = new URL(request.url).pathname.split('/');
     const matchId = parseInt(parts[3], 10); // /api/tournament_matches/:matchId/start_live -> parts[3]
@@ -3380,6 +3625,7 @@ async function handleStartLiveMatch(request: Request, env: Env, ctx: ExecutionCo
             team1_player_order_ids: team1PlayerOrderIds,
             team2_player_order_ids: team2PlayerOrderIds,
             match_song_list: matchSongList,
+            ruleset: await loadStageRuleset(env, match.tournament_stage),
         };
 
         // Get or create the Durable Object instance using a deterministic name (e.g., "match-1")
@@ -3401,12 +3647,14 @@ async function handleStartLiveMatch(request: Request, env: Env, ctx: ExecutionCo
              return errorResponse(`Failed to initialize live match instance: ${errorBody.error || doInitResponse.statusText}`, doInitResponse.status);
         }
 
-        // Update the match status in D1 to 'live'
+        const doInitResult: { random_seed_commitment?: string | null } = await doInitResponse.json<{ random_seed_commitment?: string | null }>().catch(() => ({})); // Get DO's response body
+
+        // Update the match status in D1 to 'live' and publish the seed commitment
         const now = new Date().toISOString();
         const updateResult = await env.DB.prepare(
-            'UPDATE tournament_matches SET status = ?, match_do_id = ?, updated_at = ? WHERE id = ?'
+            'UPDATE tournament_matches SET status = ?, match_do_id = ?, random_seed_commitment = ?, updated_at = ? WHERE id = ?'
         )
-        .bind('live', matchDoName, now, matchId)
+        .bind('live', matchDoName, doInitResult.random_seed_commitment ?? null, now, matchId)
         .run();
 
         if (!updateResult.success) {
@@ -3414,8 +3662,6 @@ async function handleStartLiveMatch(request: Request, env: Env, ctx: ExecutionCo
             // This is a partial failure - DO is running, but D1 status is wrong. Log and proceed.
         }
 
-        const doInitResult = await doInitResponse.json().catch(() => ({})); // Get DO's response body
-
         return jsonResponse({
             message: "Live match started successfully.",
             match_do_id: matchDoName, // Return the DO name (deterministic ID)
@@ -3428,6 +3674,312 @@ async function handleStartLiveMatch(request: Request, env: Env, ctx: ExecutionCo
     }
 }
 
+// POST /api/tournament_matches/:matchId/result (Admin Only)
+// Records a forfeit, disqualification or double no-show. A live match is closed by its DO, which archives it
+// with the result; any other match without a result is updated in D1 directly.
+async function handleRecordMatchResult(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const matchId = parseInt(parts[3], 10); // /api/tournament_matches/:matchId/result -> parts[3]
+    console.log(`Admin user ${kindeUserId} handling /api/tournament_matches/${matchId}/result POST request...`);
+
+    if (isNaN(matchId)) {
+        return errorResponse("Invalid match ID in path", 400);
+    }
+
+    try {
+        const payload = await request.json<RecordMatchResultPayload>();
+        if (!['forfeit', 'disqualification', 'double_no_show'].includes(payload.result_type)) {
+            return errorResponse("Invalid result_type: must be 'forfeit', 'disqualification' or 'double_no_show'.", 400);
+        }
+        if (typeof payload.reason !== 'string' || payload.reason.trim() === '') {
+            return errorResponse('A reason is required.', 400);
+        }
+
+        const match = await env.DB.prepare('SELECT * FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
+        if (!match) {
+            return errorResponse('Match not found.', 404);
+        }
+        if (match.status === 'completed') {
+            return errorResponse('Match already has a result.', 409);
+        }
+        const openDisputes = await countOpenDisputes(env, matchId);
+        if (openDisputes > 0) {
+            return errorResponse(`Match has ${openDisputes} open dispute(s), rule on them first.`, 409);
+        }
+
+        // The winner is the opponent of the team that forfeited or was disqualified; nobody wins a double no-show
+        const winnerTeamId = payload.winner_team_id ?? null;
+        if (payload.result_type === 'double_no_show' ? winnerTeamId !== null : winnerTeamId !== match.team1_id && winnerTeamId !== match.team2_id) {
+            return errorResponse(payload.result_type === 'double_no_show' ? 'A double no-show has no winner_team_id.' : `winner_team_id must be ${match.team1_id} or ${match.team2_id}.`, 400);
+        }
+        const result: RecordMatchResultPayload = { result_type: payload.result_type, winner_team_id: winnerTeamId, reason: payload.reason.trim() };
+
+        if (match.status === 'live' && match.match_do_id) {
+            console.log(`Admin user ${kindeUserId} forwarding ${result.result_type} of match ${matchId} to DO ${match.match_do_id}...`);
+            return forwardRequestToDO(match.match_do_id, env, request, '/internal/record-result', 'POST', result);
+        }
+
+        const updateResult = await env.DB.prepare(
+            `UPDATE tournament_matches SET status = ?, winner_team_id = ?, final_score_team1 = NULL, final_score_team2 = NULL,
+             result_type = ?, result_reason = ?, updated_at = ? WHERE id = ?`
+        ).bind('completed', winnerTeamId, result.result_type, result.reason, new Date().toISOString(), matchId).run();
+
+        if (!updateResult.success) {
+            console.error(`Worker: Failed to record result of match ${matchId}:`, updateResult.error);
+            return errorResponse('Failed to record match result', 500, updateResult.error);
+        }
+        return jsonResponse({ message: `Recorded ${result.result_type} for match ${matchId}.`, result_type: result.result_type, winner_team_id: winnerTeamId }, 200);
+    } catch (e: any) {
+        console.error(`Worker: Exception recording result of match ${matchId}:`, e);
+        return errorResponse('Failed to record match result', 500, e.message);
+    }
+}
+
+
+// Helper to count the open protests of a match; while there are any its result cannot be finalized
+async function countOpenDisputes(env: Env, matchId: number): Promise<number> {
+    const row = await env.DB.prepare("SELECT COUNT(*) AS count FROM round_disputes WHERE tournament_match_id = ? AND status = 'open'").bind(matchId).first<{ count: number }>();
+    return row?.count ?? 0;
+}
+
+// Helper to load a match and the team of the authenticated user in it (null if they play for neither team)
+async function loadMatchParticipant(env: Env, matchId: number, kindeUserId: string): Promise<{ match: TournamentMatch | null; teamId: number | null }> {
+    const match = await env.DB.prepare('SELECT * FROM tournament_matches WHERE id = ?').bind(matchId).first<TournamentMatch>();
+    if (!match) {
+        return { match: null, teamId: null };
+    }
+    const team = await env.DB.prepare('SELECT t.id FROM members m JOIN teams t ON m.team_code = t.code WHERE m.kinde_user_id = ? LIMIT 1')
+        .bind(kindeUserId)
+        .first<{ id: number }>();
+    const teamId = team && (team.id === match.team1_id || team.id === match.team2_id) ? team.id : null;
+    return { match, teamId };
+}
+
+// Helper to check that a round of a match is in match_rounds_history
+async function roundHistoryExists(env: Env, matchId: number, roundNumber: number): Promise<boolean> {
+    const row = await env.DB.prepare('SELECT 1 FROM match_rounds_history WHERE tournament_match_id = ? AND round_number_in_match = ? LIMIT 1').bind(matchId, roundNumber).first();
+    return !!row;
+}
+
+// POST /api/tournament_matches/:matchId/rounds/:round/attachments (Authenticated: players of the match or admins)
+// multipart/form-data: file (a screenshot or video), stored in EVIDENCE_BUCKET
+async function handleUploadRoundAttachment(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const matchId = parseInt(parts[3], 10); // /api/tournament_matches/:matchId/rounds/:round/attachments -> parts[3], parts[5]
+    const roundNumber = parseInt(parts[5], 10);
+    if (isNaN(matchId) || isNaN(roundNumber)) {
+        return errorResponse("Invalid match ID or round in path", 400);
+    }
+
+    let formData: FormData;
+    try { formData = await request.formData(); } catch (e: any) { return errorResponse('Invalid request format. Expected multipart/form-data.', 400, e); }
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+        return errorResponse('A file is required.', 400);
+    }
+    if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+        return errorResponse('Attachments must be screenshots or videos.', 400);
+    }
+    if (file.size > MAX_ROUND_ATTACHMENT_BYTES) {
+        return errorResponse(`Attachments must be smaller than ${MAX_ROUND_ATTACHMENT_BYTES / 1024 / 1024} MB.`, 400);
+    }
+
+    try {
+        const { match, teamId } = await loadMatchParticipant(env, matchId, kindeUserId);
+        if (!match) {
+            return errorResponse('Match not found.', 404);
+        }
+        if (teamId === null && !(await isAdminUser(env, kindeUserId))) {
+            return errorResponse('Only players of this match or admins can attach evidence.', 403);
+        }
+        if (!(await roundHistoryExists(env, matchId, roundNumber))) {
+            return errorResponse(`Round ${roundNumber} of match ${matchId} is not in the round history.`, 404);
+        }
+
+        const objectKey = await uploadEvidence(env, file, `rounds/${matchId}/${roundNumber}/${teamId ?? 'staff'}`);
+        if (!objectKey) {
+            return errorResponse('Failed to upload the attachment', 500);
+        }
+        const now = new Date().toISOString();
+        const insertResult = await env.DB.prepare(
+            `INSERT INTO round_attachments (tournament_match_id, round_number_in_match, object_key, file_name, content_type, uploaded_by, team_id, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(matchId, roundNumber, objectKey, file.name, file.type, kindeUserId, teamId, now).run();
+        if (!insertResult.success) {
+            console.error(`Worker: Failed to record attachment of match ${matchId} round ${roundNumber}:`, insertResult.error);
+            return errorResponse('Failed to record the attachment', 500, insertResult.error);
+        }
+
+        const attachment: RoundAttachment = {
+            id: insertResult.meta.last_row_id as number,
+            tournament_match_id: matchId,
+            round_number_in_match: roundNumber,
+            object_key: objectKey,
+            file_name: file.name,
+            content_type: file.type,
+            uploaded_by: kindeUserId,
+            team_id: teamId,
+            created_at: now,
+        };
+        return jsonResponse(attachment, 201);
+    } catch (e: any) {
+        console.error(`Worker: Exception attaching evidence to match ${matchId} round ${roundNumber}:`, e);
+        return errorResponse('Failed to attach evidence', 500, e.message);
+    }
+}
+
+// POST /api/tournament_matches/:matchId/rounds/:round/disputes (Authenticated: players of the match)
+// A team protests a round; the match result cannot be finalized until an admin rules on it
+async function handleFileRoundDispute(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const matchId = parseInt(parts[3], 10); // /api/tournament_matches/:matchId/rounds/:round/disputes -> parts[3], parts[5]
+    const roundNumber = parseInt(parts[5], 10);
+    if (isNaN(matchId) || isNaN(roundNumber)) {
+        return errorResponse("Invalid match ID or round in path", 400);
+    }
+
+    try {
+        const payload = await request.json<FileRoundDisputePayload>();
+        if (typeof payload.reason !== 'string' || payload.reason.trim() === '') {
+            return errorResponse('A reason is required.', 400);
+        }
+
+        const { match, teamId } = await loadMatchParticipant(env, matchId, kindeUserId);
+        if (!match) {
+            return errorResponse('Match not found.', 404);
+        }
+        if (teamId === null) {
+            return errorResponse('Only players of this match can file a protest.', 403);
+        }
+        if (match.status === 'completed' || match.status === 'archived') {
+            return errorResponse('The result of this match is already final.', 409);
+        }
+        if (!(await roundHistoryExists(env, matchId, roundNumber))) {
+            return errorResponse(`Round ${roundNumber} of match ${matchId} is not in the round history.`, 404);
+        }
+        const existing = await env.DB.prepare("SELECT id FROM round_disputes WHERE tournament_match_id = ? AND round_number_in_match = ? AND team_id = ? AND status = 'open' LIMIT 1")
+            .bind(matchId, roundNumber, teamId)
+            .first<{ id: number }>();
+        if (existing) {
+            return errorResponse(`Your team already has an open protest (${existing.id}) against round ${roundNumber}.`, 409);
+        }
+
+        const now = new Date().toISOString();
+        const insertResult = await env.DB.prepare(
+            `INSERT INTO round_disputes (tournament_match_id, round_number_in_match, team_id, filed_by, reason, status, created_at)
+             VALUES (?, ?, ?, ?, ?, 'open', ?)`
+        ).bind(matchId, roundNumber, teamId, kindeUserId, payload.reason.trim(), now).run();
+        if (!insertResult.success) {
+            console.error(`Worker: Failed to file dispute on match ${matchId} round ${roundNumber}:`, insertResult.error);
+            return errorResponse('Failed to file the protest', 500, insertResult.error);
+        }
+
+        const dispute = await env.DB.prepare('SELECT * FROM round_disputes WHERE id = ?').bind(insertResult.meta.last_row_id).first<RoundDispute>();
+        console.log(`Team ${teamId} (${kindeUserId}) protested round ${roundNumber} of match ${matchId}.`);
+        return jsonResponse(dispute, 201);
+    } catch (e: any) {
+        console.error(`Worker: Exception filing dispute on match ${matchId} round ${roundNumber}:`, e);
+        return errorResponse('Failed to file the protest', 500, e.message);
+    }
+}
+
+// GET /api/tournament_matches/:matchId/disputes (Authenticated: players of the match or admins)
+// Protests and attachments of every round of the match
+async function handleFetchMatchDisputes(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const matchId = parseInt(parts[3], 10); // /api/tournament_matches/:matchId/disputes -> parts[3]
+    if (isNaN(matchId)) {
+        return errorResponse("Invalid match ID in path", 400);
+    }
+
+    try {
+        const { match, teamId } = await loadMatchParticipant(env, matchId, kindeUserId);
+        if (!match) {
+            return errorResponse('Match not found.', 404);
+        }
+        if (teamId === null && !(await isAdminUser(env, kindeUserId))) {
+            return errorResponse('Only players of this match or admins can view its protests.', 403);
+        }
+        const [disputes, attachments] = await Promise.all([
+            env.DB.prepare('SELECT * FROM round_disputes WHERE tournament_match_id = ? ORDER BY round_number_in_match, id').bind(matchId).all<RoundDispute>(),
+            env.DB.prepare('SELECT * FROM round_attachments WHERE tournament_match_id = ? ORDER BY round_number_in_match, id').bind(matchId).all<RoundAttachment>(),
+        ]);
+        return jsonResponse({ disputes: disputes.results ?? [], attachments: attachments.results ?? [] });
+    } catch (e: any) {
+        console.error(`Worker: Exception fetching disputes of match ${matchId}:`, e);
+        return errorResponse('Failed to fetch protests', 500, e.message);
+    }
+}
+
+// POST /api/disputes/:disputeId/ruling (Admin)
+// Upholds or rejects an open protest. An upheld protest may carry the corrected scores, which are applied to the
+// live match through the round-amendment path (/internal/amend-round) before the ruling is recorded.
+async function handleRuleRoundDispute(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const disputeId = parseInt(parts[3], 10); // /api/disputes/:disputeId/ruling -> parts[3]
+    if (isNaN(disputeId)) {
+        return errorResponse("Invalid dispute ID in path", 400);
+    }
+
+    try {
+        const payload = await request.json<RuleRoundDisputePayload>();
+        if (payload.status !== 'upheld' && payload.status !== 'rejected') {
+            return errorResponse("Invalid status: must be 'upheld' or 'rejected'.", 400);
+        }
+        if (typeof payload.ruling !== 'string' || payload.ruling.trim() === '') {
+            return errorResponse('A ruling is required.', 400);
+        }
+        if (payload.amendment && payload.status !== 'upheld') {
+            return errorResponse('Only an upheld protest can amend the round.', 400);
+        }
+
+        const dispute = await env.DB.prepare('SELECT * FROM round_disputes WHERE id = ?').bind(disputeId).first<RoundDispute>();
+        if (!dispute) {
+            return errorResponse('Dispute not found.', 404);
+        }
+        if (dispute.status !== 'open') {
+            return errorResponse(`Dispute was already ${dispute.status}.`, 409);
+        }
+        const match = await env.DB.prepare('SELECT match_do_id FROM tournament_matches WHERE id = ?').bind(dispute.tournament_match_id).first<{ match_do_id: string | null }>();
+        const amendRoundPath = match?.match_do_id ? `/api/live-match/${match.match_do_id}/amend-round` : null;
+
+        // Apply the correction first, so a protest is only marked upheld once its round is amended
+        let amendment: AmendRoundPayload | null = null;
+        let amendResult: any = null;
+        if (payload.amendment) {
+            if (!match?.match_do_id) {
+                return errorResponse('The match has no live instance to amend.', 409);
+            }
+            amendment = { ...payload.amendment, round_number_in_match: dispute.round_number_in_match };
+            const response = await forwardRequestToDO(match.match_do_id, env, request, '/internal/amend-round', 'POST', amendment);
+            amendResult = await response.json<any>().catch(() => null);
+            if (!response.ok || amendResult?.success === false) {
+                return errorResponse(`Failed to amend round ${dispute.round_number_in_match}: ${amendResult?.error ?? response.status}`, response.status === 200 ? 500 : response.status, amendResult?.details);
+            }
+        }
+
+        const updateResult = await env.DB.prepare(
+            `UPDATE round_disputes SET status = ?, ruling = ?, ruled_by = ?, ruled_at = ?, amendment_json = ? WHERE id = ? AND status = 'open'`
+        ).bind(payload.status, payload.ruling.trim(), kindeUserId, new Date().toISOString(), amendment ? JSON.stringify(amendment) : null, disputeId).run();
+        if (!updateResult.success) {
+            console.error(`Worker: Failed to record ruling on dispute ${disputeId}:`, updateResult.error);
+            return errorResponse('Failed to record the ruling', 500, updateResult.error);
+        }
+
+        console.log(`Admin user ${kindeUserId} ${payload.status} dispute ${disputeId} (match ${dispute.tournament_match_id}, round ${dispute.round_number_in_match}).`);
+        const ruled = await env.DB.prepare('SELECT * FROM round_disputes WHERE id = ?').bind(disputeId).first<RoundDispute>();
+        return jsonResponse({
+            dispute: ruled,
+            // Where to correct the round if the protest was upheld without a correction in the ruling
+            amend_round_path: payload.status === 'upheld' ? amendRoundPath : null,
+            amend_result: amendResult,
+        });
+    } catch (e: any) {
+        console.error(`Worker: Exception ruling on dispute ${disputeId}:`, e);
+        return errorResponse('Failed to record the ruling', 500, e.message);
+    }
+}
+
 
 // GET /api/live-match/:doId/state (Public)
 async function handleGetMatchState(request: Request, env: Env): Promise<Response> {
@@ -3438,9 +3990,33 @@ async function handleGetMatchState(request: Request, env: Env): Promise<Response
     return forwardRequestToDO(matchDoName, env, request, '/state', 'GET');
 }
 
-// GET /api/live-match/:doId/websocket (Public)
-async function handleMatchWebSocket(request: Request, env: Env): Promise<Response> {
+// GET /api/live-match/:doId/verify-round/:round (Public)
+// Recomputes an archived round with the revealed seed so anyone can check the 矩盾手 picks.
+async function handleVerifyMatchRound(request: Request, env: Env): Promise<Response> {
     const parts = new URL(request.url).pathname.split('/');
+    const matchDoName = parts[3]; // /api/live-match/:doId/verify-round/:round -> parts[3]
+    const roundNumber = parseInt(parts[5], 10);
+    if (isNaN(roundNumber)) {
+        return errorResponse('Invalid round number', 400);
+    }
+    return forwardRequestToDO(matchDoName, env, request, `/verify-round/${roundNumber}`, 'GET');
+}
+
+// GET /api/live-match/:doId/events (Public)
+// Server-Sent Events alternative to the WebSocket for clients that cannot hold one open.
+async function handleMatchEvents(request: Request, env: Env): Promise<Response> {
+    const parts = new URL(request.url).pathname.split('/');
+    const matchDoName = parts[3]; // /api/live-match/:doId/events -> parts[3]
+    console.log(`Handling /api/live-match/${matchDoName}/events GET request...`);
+    return forwardRequestToDO(matchDoName, env, request, '/events', 'GET');
+}
+
+// GET /api/live-match/:doId/websocket?role=spectator|staff|overlay&team=teamA|teamB&format=delta|full (Public, role=staff is Admin Only)
+// Staff connections are authenticated here like adminAuthMiddleware (Bearer token or kinde_access_token cookie),
+// and the DO only accepts commands from sockets opened with the verified admin's Kinde ID.
+async function handleMatchWebSocket(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    const parts = url.pathname.split('/');
     const matchDoName = parts[3]; // /api/live-match/:doId/websocket -> parts[3]
     console.log(`Handling /api/live-match/${matchDoName}/websocket GET request...`);
 
@@ -3450,9 +4026,17 @@ async function handleMatchWebSocket(request: Request, env: Env): Promise<Respons
         return new Response('Expected Upgrade: websocket', { status: 426 });
     }
 
+    // Never let a client set the staff header itself
+    const headers = new Headers(request.headers);
+    headers.delete(STAFF_USER_HEADER);
+    const upgradeRequest = new Request(request, { headers });
+
     try {
+        if (url.searchParams.get('role') === 'staff') {
+            return adminAuthMiddleware(upgradeRequest, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, withStaffUser(req, userId), '/websocket', 'GET'));
+        }
         // 修正：直接使用 forwardRequestToDO 函数，明确指定路径为 '/websocket'
-        return forwardRequestToDO(matchDoName, env, request, '/websocket', 'GET');
+        return forwardRequestToDO(matchDoName, env, upgradeRequest, '/websocket', 'GET');
     } catch (e: any) {
         console.error(`Worker: Failed to connect WebSocket to DO ${matchDoName}:`, e);
         return errorResponse(`Failed to connect to live match instance: ${e.message}`, 500);
@@ -3465,7 +4049,80 @@ async function handleCalculateRoundDO(request: Request, env: Env, ctx: Execution
     const parts = new URL(request.url).pathname.split('/');
     const matchDoName = parts[3]; // /api/live-match/:doId/calculate-round -> parts[3]
     console.log(`Admin user ${kindeUserId} forwarding calculate-round to DO ${matchDoName}...`);
-    return forwardRequestToDO(matchDoName, env, request, '/internal/calculate-round', 'POST');
+    return forwardRequestToDO(matchDoName, env, withStaffUser(request, kindeUserId), '/internal/calculate-round', 'POST');
+}
+
+// POST /api/live-match/:doId/self-report (Authenticated player)
+// multipart/form-data: percentage (e.g. "100.4995") and an optional photo of the result screen.
+// The DO checks that the player is playing the current round and holds the report until a referee reviews it.
+async function handleSubmitSelfReport(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const matchDoName = new URL(request.url).pathname.split('/')[3]; // /api/live-match/:doId/self-report -> parts[3]
+
+    let formData: FormData;
+    try { formData = await request.formData(); } catch (e: any) { return errorResponse('Invalid request format. Expected multipart/form-data.', 400, e); }
+
+    const percentage = formData.get('percentage')?.toString()?.trim();
+    const percentageProblem = percentageError(percentage);
+    if (percentageProblem) {
+        return errorResponse(`Invalid percentage: ${percentageProblem}`, 400);
+    }
+    const photo = formData.get('photo');
+    if (photo instanceof File && photo.size > 0) {
+        if (!photo.type.startsWith('image/')) {
+            return errorResponse('The photo must be an image.', 400);
+        }
+        if (photo.size > MAX_EVIDENCE_PHOTO_BYTES) {
+            return errorResponse(`The photo must be smaller than ${MAX_EVIDENCE_PHOTO_BYTES / 1024 / 1024} MB.`, 400);
+        }
+    }
+
+    try {
+        const member = await env.DB.prepare('SELECT id FROM members WHERE kinde_user_id = ? LIMIT 1').bind(kindeUserId).first<{ id: number }>();
+        if (!member) {
+            return errorResponse('No member is linked to your account.', 403);
+        }
+
+        let evidenceKey: string | null = null;
+        if (photo instanceof File && photo.size > 0) {
+            evidenceKey = await uploadEvidence(env, photo, `self-reports/${matchDoName}/${member.id}`);
+            if (!evidenceKey) {
+                return errorResponse('Failed to upload the photo', 500);
+            }
+        }
+
+        console.log(`Member ${member.id} (${kindeUserId}) reporting ${percentage}% to DO ${matchDoName}...`);
+        const payload: InternalSelfReportPayload = { member_id: member.id, kinde_user_id: kindeUserId, percentage: percentage!, evidence_key: evidenceKey };
+        const response = await forwardRequestToDO(matchDoName, env, request, '/internal/self-report', 'POST', payload);
+        // The DO rejected the report (e.g. not this player's round): drop the photo rather than leave it without a report
+        if (!response.ok && evidenceKey) {
+            await deleteEvidence(env, evidenceKey);
+        }
+        return response;
+    } catch (e: any) {
+        console.error(`Worker: Failed to submit self-report to DO ${matchDoName}:`, e);
+        return errorResponse('Failed to submit the score report', 500, e.message);
+    }
+}
+
+// GET /api/evidence/:key (Admin Only)
+// Streams an object of the private EVIDENCE_BUCKET, e.g. the photo of a self-report (SelfReport.evidence_key)
+async function handleFetchEvidence(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
+    const key = decodeURIComponent(new URL(request.url).pathname.slice('/api/evidence/'.length));
+    if (!key) {
+        return errorResponse('Missing evidence key', 400);
+    }
+    try {
+        const object = await env.EVIDENCE_BUCKET.get(key);
+        if (!object) {
+            return errorResponse('Evidence not found', 404);
+        }
+        return new Response(object.body, {
+            headers: { 'Content-Type': object.httpMetadata?.contentType ?? 'application/octet-stream', ...CORS_HEADERS },
+        });
+    } catch (e: any) {
+        console.error(`Worker: Failed to fetch evidence ${key}:`, e);
+        return errorResponse('Failed to fetch evidence', 500, e.message);
+    }
 }
 
 // POST /api/live-match/:doId/next-round (Admin Only)
@@ -3478,12 +4135,47 @@ async function handleNextRoundDO(request: Request, env: Env, ctx: ExecutionConte
 }
 
 // POST /api/live-match/:doId/select-tiebreaker-song (Admin Only)
+// Body: { song_id, selected_difficulty } to pick a song, or { mode: 'draw', pool: TiebreakerPoolFilter } to draw one.
+// The songs are resolved from D1 here; the DO excludes songs already played and draws with the match seed.
 async function handleSelectTiebreakerSongDO(request: Request, env: Env, ctx: ExecutionContext, kindeUserId: string): Promise<Response> {
     const parts = new URL(request.url).pathname.split('/');
     const matchDoName = parts[3]; // /api/live-match/:doId/select-tiebreaker-song -> parts[3]
-    console.log(`Admin user ${kindeUserId} forwarding select-tiebreaker-song to DO ${matchDoName}...`);
-    // Forward the request to the specific Match DO instance
-    return forwardRequestToDO(matchDoName, env, request, '/internal/select-tiebreaker-song', 'POST');
+
+    let payload: SelectTiebreakerSongPayload;
+    try {
+        payload = await request.json<SelectTiebreakerSongPayload>();
+    } catch (e: any) {
+        return errorResponse('Invalid JSON payload', 400, e.message);
+    }
+
+    try {
+        if (payload.mode === 'draw') {
+            const pool = payload.pool;
+            if (!pool || !['B', 'A', 'E', 'M', 'R'].includes(pool.difficulty)) {
+                return errorResponse("Drawing a tiebreaker requires pool.difficulty ('B' | 'A' | 'E' | 'M' | 'R').", 400);
+            }
+            const poolSongs = await loadTiebreakerPoolSongs(env.DB, pool);
+            console.log(`Admin user ${kindeUserId} drawing a tiebreaker for DO ${matchDoName} from ${poolSongs.length} songs...`);
+            return forwardRequestToDO(matchDoName, env, request, '/internal/select-tiebreaker-song', 'POST', { mode: 'draw', pool, pool_songs: poolSongs });
+        }
+
+        if (typeof payload.song_id !== 'number' || typeof payload.selected_difficulty !== 'string') {
+            return errorResponse('song_id (number) and selected_difficulty (string) are required.', 400);
+        }
+        const song = await env.DB.prepare('SELECT * FROM songs WHERE id = ?').bind(payload.song_id).first<Song>();
+        if (!song) {
+            return errorResponse(`Song ${payload.song_id} not found.`, 404);
+        }
+        const levels: SongLevel = song.levels_json ? JSON.parse(song.levels_json) : {};
+        if (!levels[payload.selected_difficulty as keyof SongLevel]) {
+            return errorResponse(`Song ${song.id} has no '${payload.selected_difficulty}' difficulty.`, 400);
+        }
+        console.log(`Admin user ${kindeUserId} forwarding select-tiebreaker-song to DO ${matchDoName}...`);
+        // Forward the request to the specific Match DO instance
+        return forwardRequestToDO(matchDoName, env, request, '/internal/select-tiebreaker-song', 'POST', { mode: 'pick', song_id: song.id, selected_difficulty: payload.selected_difficulty, song_details: song });
+    } catch (e: any) {
+        return errorResponse('Failed to resolve the tiebreaker song', 500, e.message);
+    }
 }
 
 // POST /api/live-match/:doId/resolve-draw (Admin Only)
@@ -3513,6 +4205,7 @@ async function handleFetchMatchHistory(request: Request, env: Env): Promise<Resp
         const query = `
             SELECT
                 tm.id, tm.round_name, tm.scheduled_time, tm.status, tm.final_score_team1, tm.final_score_team2,
+                tm.result_type, tm.result_reason,
                 t1.name AS team1_name,
                 t2.name AS team2_name,
                 tw.name AS winner_team_name
@@ -3564,6 +4257,9 @@ async function handleFetchMatchHistory(request: Request, env: Env): Promise<Resp
                  parsedRound.team1_mirror_triggered = round.team1_mirror_triggered === 1;
                  parsedRound.team2_mirror_triggered = round.team2_mirror_triggered === 1;
                  parsedRound.is_tiebreaker_song = round.is_tiebreaker_song === 1;
+                 // Percentages as 4-decimal strings (rows archived before exact percentages hold numbers)
+                 parsedRound.team1_percentage = canonicalPercentage(round.team1_percentage);
+                 parsedRound.team2_percentage = canonicalPercentage(round.team2_percentage);
 
                  // Remove raw JSON field
                  delete (parsedRound as any).round_summary_json;
@@ -3669,11 +4365,24 @@ export default {
              // Matches /api/live-match/:doId/state
              const doId = path.split('/')[3];
              return handleGetMatchState(request, env); // Call the handler
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/preview-round') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/preview-round (read-only "what-if" for referees and casters, same body as calculate-round)
+             const matchDoName = path.split('/')[3];
+             return forwardRequestToDO(matchDoName, env, request, '/internal/preview-round', 'POST');
+        }
+        if (path.match(/^\/api\/live-match\/[^/]+\/verify-round\/\d+$/) && method === 'GET') {
+             // Matches /api/live-match/:doId/verify-round/:round
+             return handleVerifyMatchRound(request, env);
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/events') && path.split('/').length === 5 && method === 'GET') {
+             // Matches /api/live-match/:doId/events
+             return handleMatchEvents(request, env);
         }
          if (path.startsWith('/api/live-match/') && path.endsWith('/websocket') && path.split('/').length === 5 && method === 'GET') {
              // Matches /api/live-match/:doId/websocket
              const doId = path.split('/')[3];
-             return handleMatchWebSocket(request, env); // Call the handler
+             return handleMatchWebSocket(request, env, ctx); // Call the handler
         }
         // Public Match History route
         if (path === '/api/match_history' && method === 'GET') {
@@ -3755,6 +4464,10 @@ export default {
              // Matches /api/tournament_matches/:matchId/compile-setup
              return adminAuthMiddleware(request, env, ctx, handleCompileMatchSetup);
         }
+        if (path.startsWith('/api/tournament_matches/') && path.endsWith('/events') && path.split('/').length === 5 && method === 'GET') {
+            // Matches /api/tournament_matches/:id/events (add ?replay=true to rebuild the state from the log)
+            return adminAuthMiddleware(request, env, ctx, handleFetchMatchEvents);
+        }
         if (path.startsWith('/api/tournament_matches/') && path.endsWith('/selection-status') && path.split('/').length === 5 && method === 'GET') {
             // Matches /api/tournament_matches/:matchId/selection-status
             return adminAuthMiddleware(request, env, ctx, handleCheckMatchSelectionStatus);
@@ -3763,7 +4476,41 @@ export default {
         if (path.startsWith('/api/live-match/') && path.endsWith('/calculate-round') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/live-match/:doId/calculate-round
              const matchDoName = path.split('/')[3];
-             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/calculate-round', 'POST'));
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, withStaffUser(req, userId), '/internal/calculate-round', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/self-report') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/self-report (the current player's own score, any signed-in member)
+             return authMiddleware(request, env, ctx, handleSubmitSelfReport);
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/review-self-report') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/review-self-report (body: { team, approve, reason? })
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, withStaffUser(req, userId), '/internal/review-self-report', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/penalties') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/penalties (body: IssuePenaltyPayload)
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, withStaffUser(req, userId), '/internal/issue-penalty', 'POST'));
+        }
+        if (path.match(/^\/api\/tournament_matches\/\d+\/rounds\/\d+\/attachments$/) && method === 'POST') {
+             // Matches /api/tournament_matches/:matchId/rounds/:round/attachments (players of the match or admins)
+             return authMiddleware(request, env, ctx, handleUploadRoundAttachment);
+        }
+        if (path.match(/^\/api\/tournament_matches\/\d+\/rounds\/\d+\/disputes$/) && method === 'POST') {
+             // Matches /api/tournament_matches/:matchId/rounds/:round/disputes (body: { reason })
+             return authMiddleware(request, env, ctx, handleFileRoundDispute);
+        }
+        if (path.startsWith('/api/tournament_matches/') && path.endsWith('/disputes') && path.split('/').length === 5 && method === 'GET') {
+             // Matches /api/tournament_matches/:matchId/disputes
+             return authMiddleware(request, env, ctx, handleFetchMatchDisputes);
+        }
+        if (path.startsWith('/api/disputes/') && path.endsWith('/ruling') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/disputes/:disputeId/ruling (body: { status: 'upheld' | 'rejected', ruling, amendment? })
+             return adminAuthMiddleware(request, env, ctx, handleRuleRoundDispute);
+        }
+        if (path.startsWith('/api/evidence/') && method === 'GET') {
+             // Matches /api/evidence/:key (key may contain slashes)
+             return adminAuthMiddleware(request, env, ctx, handleFetchEvidence);
         }
         if (path.startsWith('/api/live-match/') && path.endsWith('/next-round') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/live-match/:doId/next-round
@@ -3772,24 +4519,81 @@ export default {
         }
         if (path.startsWith('/api/live-match/') && path.endsWith('/select-tiebreaker-song') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/live-match/:doId/select-tiebreaker-song
-             const matchDoName = path.split('/')[3];
-             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/select-tiebreaker-song', 'POST'));
+             return adminAuthMiddleware(request, env, ctx, handleSelectTiebreakerSongDO);
         }
         if (path.startsWith('/api/live-match/') && path.endsWith('/resolve-draw') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/live-match/:doId/resolve-draw
              const matchDoName = path.split('/')[3];
              return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/resolve-draw', 'POST'));
         }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/undo-round') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/undo-round
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/undo-round', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/amend-round') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/amend-round (body: AmendRoundPayload, use dry_run to preview the diff)
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/amend-round', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/pause') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/pause (body: { reason })
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/pause', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/resume') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/resume
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/resume', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/lineup') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/lineup (body: { team, from_round, substitution?: { out_player_id, in_player_id }, player_order_ids?, reason? })
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/change-lineup', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/song-list') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/song-list (body: SongListEditPayload: replace, reorder or insert pending songs)
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/edit-song-list', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/start-timer') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/start-timer (body: { phase: 'warmup' | 'play' | 'score_entry', duration_seconds })
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/start-timer', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/stop-timer') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/live-match/:doId/stop-timer
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/stop-timer', 'POST'));
+        }
+        if (path.startsWith('/api/live-match/') && path.endsWith('/outbox') && path.split('/').length === 5 && (method === 'GET' || method === 'POST')) {
+             // Matches /api/live-match/:doId/outbox: GET lists the match's pending D1 writes, POST retries them now (or retries/discards one entry)
+             const matchDoName = path.split('/')[3];
+             return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/outbox', method));
+        }
         if (path.startsWith('/api/live-match/') && path.endsWith('/archive') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/live-match/:doId/archive
              const matchDoName = path.split('/')[3];
              return adminAuthMiddleware(request, env, ctx, (req, env, context, userId) => forwardRequestToDO(matchDoName, env, req, '/internal/archive-match', 'POST'));
+        }
+        // Admin rulesets per tournament stage
+        if (path === '/api/match_rulesets' && method === 'GET') {
+             return adminAuthMiddleware(request, env, ctx, handleFetchMatchRulesets);
+        }
+        if (path.startsWith('/api/match_rulesets/') && path.split('/').length === 4 && method === 'PUT') {
+             // Matches /api/match_rulesets/:stage
+             return adminAuthMiddleware(request, env, ctx, handleSaveMatchRuleset);
         }
          // Admin Start Live Match (D1 update + DO init)
         if (path.startsWith('/api/tournament_matches/') && path.endsWith('/start_live') && path.split('/').length === 5 && method === 'POST') {
              // Matches /api/tournament_matches/:matchId/start_live
              return adminAuthMiddleware(request, env, ctx, handleStartLiveMatch);
         }
+        // Admin Record Forfeit / Disqualification / Double No-Show (D1 update, or DO close for a live match)
+        if (path.startsWith('/api/tournament_matches/') && path.endsWith('/result') && path.split('/').length === 5 && method === 'POST') {
+             // Matches /api/tournament_matches/:matchId/result
+             return adminAuthMiddleware(request, env, ctx, handleRecordMatchResult);
+        }
         // NEW Semifinal Match Endpoints
         // POST /api/semifinal-matches (Admin)
         if (path === '/api/semifinal-matches' && method === 'POST') {
@@ -3808,6 +4612,13 @@ export default {
                 // Admin middleware already applied above
             return handleSubmitSemifinalScores(request, env, matchId);
         }
+        // GET /api/semifinal-matches/:id/verify (Public verification of an archived match)
+        if (path.match(/^\/api\/semifinal-matches\/\d+\/verify$/) && method === 'GET') {
+            const matchId = parseInt(path.split('/')[3]);
+            if (isNaN(matchId)) return errorResponse('Invalid matchId', 400);
+            // This endpoint is public
+            return handleVerifySemifinalMatch(request, env, matchId);
+        }
         // GET /api/semifinal-matches/:id (Public view of completed match)
         if (path.match(/^\/api\/semifinal-matches\/\d+$/) && method === 'GET') {
             const matchId = parseInt(path.split('/')[3]);
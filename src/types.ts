@@ -6,6 +6,7 @@ export interface Env {
     DB: D1Database; // D1 database binding
     AVATAR_BUCKET: R2Bucket; // R2 bucket for avatars
     SONG_COVER_BUCKET: R2Bucket; // R2 bucket for song covers (Keep this binding)
+    EVIDENCE_BUCKET: R2Bucket; // Private R2 bucket for result-screen photos, served to admins through /api/evidence/:key
 
     // Kinde Secrets (from Cloudflare Pages/Worker Environment Variables)
     KINDE_CLIENT_ID: string;
@@ -63,6 +64,39 @@ export interface SongLevel {
     R?: string;
 }
 
+// Achievement percentage as a 4-decimal string such as "100.4995" (see utils/percentage.ts).
+// Numbers are still accepted in requests and in states stored before percentages were exact.
+export type PercentageInput = string | number;
+
+export type NoteType = 'tap' | 'hold' | 'slide' | 'touch' | 'break';
+
+// Note counts of one chart, stored per difficulty in songs.notes_json
+export type ChartNoteCounts = Record<NoteType, number>;
+
+// Judgments of one note type, as shown on the maimai result screen
+export interface JudgmentCounts {
+    critical: number; // Critical perfect
+    perfect: number;
+    great: number;
+    good: number;
+    miss: number;
+}
+
+// Break judgments with the sub-tiers of the result screen's detail view, which score differently
+export interface BreakJudgmentCounts {
+    critical: number;
+    perfect_high: number; // 75% of the break bonus
+    perfect_low: number; // 50% of the break bonus
+    great_80: number; // 80%, 60% or 50% of the base score
+    great_60: number;
+    great_50: number;
+    good: number;
+    miss: number;
+}
+
+// Judgment breakdown of one play; note types the chart does not have may be omitted, and a missing count is 0
+export type JudgmentBreakdown = Partial<Record<Exclude<NoteType, 'break'>, Partial<JudgmentCounts>>> & { break?: Partial<BreakJudgmentCounts> };
+
 // REMOVED: ImportedSongItem (Assuming admin import is handled elsewhere or differently now)
 // REMOVED: ImportSongsPayload (Assuming admin import is handled elsewhere or differently now)
 
@@ -72,6 +106,7 @@ export interface Song {
     category?: string | null;
     bpm?: string | null;
     levels_json?: string | null;
+    notes_json?: string | null; // Note counts per difficulty: { [key of SongLevel]: ChartNoteCounts }
     type?: string | null;
     cover_filename?: string | null;
     source_data_version?: string | null;
@@ -111,21 +146,23 @@ export interface MatchSong {
     song_id: number;
     song_title: string;
     song_difficulty: string;
-    song_element?: 'fire' | 'wood' | 'water' | null;
+    song_element?: SongElement | null;
     cover_filename?: string | null;
     bpm?: string | null;
     fullCoverUrl?: string;
-    picker_member_id: number;
-    picker_team_id: number;
+    picker_type?: MatchSongPickerType; // Missing on older states, which only had member picks
+    picker_member_id: number | null; // null unless picked by a member
+    picker_team_id: number | null;
     is_tiebreaker_song?: boolean;
+    tiebreaker_draw?: TiebreakerDraw | null; // Set when the tiebreaker was drawn from a pool
     status: 'pending' | 'ongoing' | 'completed';
     teamA_player_id?: number;
     teamB_player_id?: number;
-    teamA_percentage?: number;
-    teamB_percentage?: number;
+    teamA_percentage?: PercentageInput; // 4-decimal string, a number on older states
+    teamB_percentage?: PercentageInput;
     teamA_damage_dealt?: number;
     teamB_damage_dealt?: number;
-    teamA_effect_value?: number;
+    teamA_effect_value?: number; // Total of the round's penalties and bonuses
     teamB_effect_value?: number;
     teamA_health_after?: number;
     teamB_health_after?: number;
@@ -133,6 +170,25 @@ export interface MatchSong {
     teamB_mirror_triggered?: boolean;
 }
 
+// Who put a song in the match: a member's pick, staff (tiebreaker pick or song list edit) or the seeded draw
+export type MatchSongPickerType = 'member' | 'staff' | 'draw';
+
+// Pool a tiebreaker is drawn from
+export interface TiebreakerPoolFilter {
+    difficulty: keyof SongLevel; // Chart that is drawn, e.g. 'M'
+    min_level?: number; // Inclusive, "13+" counts as 13.5
+    max_level?: number;
+    categories?: string[];
+}
+
+// Record of a tiebreaker draw: with the revealed seed anyone can recompute roll and pick
+export interface TiebreakerDraw {
+    filter: TiebreakerPoolFilter;
+    pool_song_ids: number[]; // Candidates after excluding the match's songs, ascending; the pick is pool_song_ids[roll % length]
+    roll: SeededRoll;
+    random_seed_commitment: string | null;
+}
+
 export interface TournamentMatch {
     id: number;
     round_name: string;
@@ -157,16 +213,84 @@ export interface TournamentMatch {
     winner_team_code?: string;
     final_score_team1?: number | null;
     final_score_team2?: number | null;
+    tournament_stage?: string | null; // Selects the ruleset in match_rulesets; NULL uses 'default'
+    random_seed_commitment?: string | null; // SHA-256 of the match seed, published when the match starts
+    random_seed?: string | null; // Revealed when the live match is archived
+    draw_resolution_json?: string | null; // DrawResolution of a match that ended tied, written when it is archived
+    result_type?: MatchResultType | null; // NULL until the match has a result
+    result_reason?: string | null; // Reason given for a forfeit, disqualification or double no-show
     created_at: string;
     updated_at?: string;
 }
 
+// How a tournament match was decided. Only 'played' results have final scores.
+export type MatchResultType = 'played' | 'forfeit' | 'disqualification' | 'double_no_show';
+
+// A result recorded by an admin instead of playing the match out
+export interface AdministrativeResult {
+    result_type: Exclude<MatchResultType, 'played'>;
+    winner_team_id: number | null; // null for a double no-show
+    reason: string;
+    recorded_at: string;
+}
+
 // Payload for creating a new Tournament Match (POST /api/tournament_matches)
 export interface CreateTournamentMatchPayload {
     round_name: string;
     team1_id: number | null;
     team2_id: number | null;
     scheduled_time?: string | null;
+    tournament_stage?: string | null;
+}
+
+// Payload for recording a forfeit, disqualification or double no-show (POST /api/tournament_matches/:id/result)
+export interface RecordMatchResultPayload {
+    result_type: AdministrativeResult['result_type'];
+    winner_team_id?: number | null; // Required for a forfeit or disqualification, must be omitted for a double no-show
+    reason: string;
+}
+
+// Evidence (screenshot or video) attached to a round of match_rounds_history, stored in EVIDENCE_BUCKET
+export interface RoundAttachment {
+    id: number;
+    tournament_match_id: number;
+    round_number_in_match: number;
+    object_key: string; // Fetched through GET /api/evidence/:key
+    file_name: string;
+    content_type: string;
+    uploaded_by: string; // kinde_user_id
+    team_id: number | null; // Team of the uploader, NULL for staff
+    created_at: string;
+}
+
+export type RoundDisputeStatus = 'open' | 'upheld' | 'rejected';
+
+// A team's protest against one round. While any protest of a match is open, the match result cannot be finalized.
+export interface RoundDispute {
+    id: number;
+    tournament_match_id: number;
+    round_number_in_match: number;
+    team_id: number; // Protesting team
+    filed_by: string; // kinde_user_id
+    reason: string;
+    status: RoundDisputeStatus;
+    ruling: string | null;
+    ruled_by: string | null;
+    ruled_at: string | null;
+    amendment_json: string | null; // AmendRoundPayload applied to the live match when the protest was upheld with a correction
+    created_at: string;
+}
+
+// Payload for POST /api/tournament_matches/:id/rounds/:round/disputes
+export interface FileRoundDisputePayload {
+    reason: string;
+}
+
+// Payload for POST /api/disputes/:id/ruling (Admin)
+export interface RuleRoundDisputePayload {
+    status: 'upheld' | 'rejected';
+    ruling: string;
+    amendment?: Omit<AmendRoundPayload, 'round_number_in_match' | 'dry_run'>; // Upheld only: corrected scores, applied through the round-amendment path
 }
 
 // Payload for Staff to confirm match setup (PUT /api/tournament_matches/:id/confirm_setup)
@@ -179,7 +303,7 @@ export interface ConfirmMatchSetupPayload {
 export interface MatchState {
     match_do_id: string; // Actual DO hex ID
     tournament_match_id: number;
-    status: 'pending_scores' | 'round_finished' | 'team_A_wins' | 'team_B_wins' | 'draw_pending_resolution' | 'tiebreaker_pending_song' | 'archived';
+    status: 'pending_scores' | 'round_finished' | 'team_A_wins' | 'team_B_wins' | 'draw_pending_resolution' | 'tiebreaker_pending_song' | 'paused' | 'archived';
     round_name: string;
     current_match_song_index: number;
     teamA_id: number;
@@ -201,11 +325,250 @@ export interface MatchState {
     match_song_list: MatchSong[];
     current_song: MatchSong | null;
     roundSummary: RoundSummary | null;
+    // Commitment (SHA-256) of the seed used for 矩盾手 picks. The seed itself stays in DO storage
+    // and is only copied into random_seed once the match is archived.
+    random_seed_commitment?: string | null;
+    random_seed?: string | null;
+    ruleset?: MatchRuleset; // Ruleset chosen when the match started (older states fall back to the default ruleset)
+    connections?: MatchConnectionCounts; // Open WebSocket connections, filled in when the state is broadcast
+    state_version?: number; // Version of the broadcast state, filled in when the state is broadcast
+    pause?: MatchPause | null; // Set while status is 'paused'
+    timer?: MatchTimer | null; // Countdown of the current song, if staff started one
+    referee_attention?: RefereeAttention | null; // Set when the round needs a referee decision (e.g. a timer window expired)
+    draw_resolution?: DrawResolution | null; // Set once a tie at the end of the match has been evaluated
+    administrative_result?: AdministrativeResult | null; // Set when the match was closed by a forfeit, disqualification or double no-show
+    lineup_changes?: LineupChange[]; // Substitutions and re-orders; the player order of a round is the latest change in effect
+    score_entries?: ScoreEntry[]; // Dual entry: every score entry of the current round, in submission order (never sent to clients)
+    score_entry_conflict?: ScoreEntryConflict | null; // Dual entry: set while the latest entries of two referees disagree (never sent to clients)
+    score_entries_received?: number; // Dual entry: how many referees entered the current round's scores, filled in when the state is broadcast
+    self_reports?: SelfReport[]; // Players' own reports of the current round, see SelfReport
+    penalties?: Penalty[]; // Every penalty and bonus issued in the match, applied in the round they belong to
     // teamA_members and teamB_members are passed during initialization but not typically part of the broadcasted state
     teamA_members?: Member[];
     teamB_members?: Member[];
 }
 
+export interface MatchPause {
+    reason: string;
+    paused_at: string;
+    resume_status: Exclude<MatchState['status'], 'paused' | 'archived'>; // Status restored by resume
+}
+
+// Payload for /internal/change-lineup: either a substitution or the new order of the team's slots
+export interface LineupChangePayload {
+    team: 'teamA' | 'teamB';
+    from_round: number; // 1-based; the current round at the earliest, as long as its scores are not in
+    substitution?: { out_player_id: number; in_player_id: number };
+    player_order_ids?: number[];
+    reason?: string;
+}
+
+export interface LineupChange {
+    team: 'teamA' | 'teamB';
+    kind: 'substitution' | 'reorder';
+    from_round: number;
+    previous_order_ids: number[];
+    player_order_ids: number[]; // Order in effect from from_round on, still cycled by song index
+    out_player_id?: number;
+    in_player_id?: number;
+    reason: string | null;
+    changed_at: string;
+}
+
+// Payload for /internal/edit-song-list. song_index is 0-based; difficulty is a key of the song's levels_json.
+export type SongListEditPayload =
+    | { action: 'replace'; song_index: number; song_id?: number; difficulty: string; reason?: string } // song_id defaults to the current chart
+    | { action: 'reorder'; song_indexes: number[]; reason?: string } // Indexes of the pending songs in their new order
+    | { action: 'insert'; song_index: number; song_id: number; difficulty: string; reason?: string };
+
+// Windows of a song that staff can time
+export type MatchTimerPhase = 'warmup' | 'play' | 'score_entry';
+
+export interface MatchTimer {
+    phase: MatchTimerPhase;
+    duration_seconds: number;
+    started_at: string;
+    ends_at: string | null; // null while the match is paused
+    remaining_seconds: number; // As of the last start/pause/resume, clients count down from ends_at
+    expired: boolean;
+}
+
+// One referee's submission of a round's scores when the ruleset requires dual entry
+export interface ScoreEntry {
+    round_number_in_match: number;
+    kinde_user_id: string; // Staff account that submitted the entry
+    scores: CalculateRoundPayload; // As resolved by MatchDO: canonical percentages, computed from judgments if given
+    submitted_at: string;
+}
+
+// Fields on which the latest entries of two referees disagree
+export interface ScoreEntryConflict {
+    round_number_in_match: number;
+    fields: { field: keyof CalculateRoundPayload; entries: { kinde_user_id: string; value: any }[] }[];
+    flagged_at: string;
+}
+
+// A player's own report of their percentage for the current round, held until a referee approves or rejects it.
+// Once the reports of both teams are approved the round is calculated from them.
+export interface SelfReport {
+    team: 'teamA' | 'teamB';
+    round_number_in_match: number;
+    member_id: number; // The team's current player, matched by kinde_user_id
+    kinde_user_id: string;
+    percentage: string; // 4-decimal string
+    evidence_key: string | null; // EVIDENCE_BUCKET key of the result-screen photo
+    status: 'pending' | 'approved' | 'rejected';
+    submitted_at: string;
+    reviewed_by: string | null; // Staff account that approved or rejected the report
+    reviewed_at: string | null;
+    review_reason: string | null;
+}
+
+// Payload the Worker sends to /internal/self-report once it resolved the player and stored the photo
+export interface InternalSelfReportPayload {
+    member_id: number;
+    kinde_user_id: string;
+    percentage: PercentageInput;
+    evidence_key: string | null;
+}
+
+// Payload for /internal/review-self-report (the reviewing staff account comes from STAFF_USER_HEADER)
+export interface ReviewSelfReportPayload {
+    team: 'teamA' | 'teamB';
+    approve: boolean;
+    reason?: string;
+}
+
+// Kind of a staff-issued health adjustment
+export type PenaltyCategory = 'lateness' | 'misconduct' | 'equipment_fault' | 'scoring_correction' | 'bonus' | 'other';
+
+// A typed health adjustment issued by staff, replacing the raw 小分调整 numbers of the score payload.
+// The rules engine applies it at step 8 of its round; a match-wide one belongs to the round that was next to be
+// calculated when it was issued. Persisted in D1 match_penalties.
+export interface Penalty {
+    id: string;
+    team: 'teamA' | 'teamB';
+    category: PenaltyCategory;
+    amount: number; // Health change: negative for a penalty, positive for a bonus
+    reason: string;
+    scope: 'round' | 'match';
+    round_number_in_match: number; // Round whose calculation applies it
+    issued_by: string | null; // Staff account (null for effect values converted from rounds calculated before penalties)
+    issued_at: string;
+}
+
+// Payload for /internal/issue-penalty (the issuing staff account comes from STAFF_USER_HEADER)
+export interface IssuePenaltyPayload {
+    team: 'teamA' | 'teamB';
+    category: PenaltyCategory;
+    amount: number;
+    reason: string;
+    scope: 'round' | 'match';
+    round_number_in_match?: number; // Round scope only, defaults to the next round to be calculated; an earlier round is amended
+    dry_run?: boolean; // Earlier rounds only: return the amendment diff without saving anything
+}
+
+export interface RefereeAttention {
+    reason: 'timer_expired';
+    phase: MatchTimerPhase;
+    round_number_in_match: number;
+    flagged_at: string;
+}
+
+// Payload for /internal/pause
+export interface PauseMatchPayload {
+    reason: string;
+}
+
+// Payload for /internal/start-timer
+export interface StartTimerPayload {
+    phase: MatchTimerPhase;
+    duration_seconds: number;
+}
+
+// One D1 statement as stored in the MatchDO outbox (a D1PreparedStatement cannot be persisted)
+export interface D1Write {
+    sql: string;
+    params: (string | number | null)[];
+}
+
+// Pending D1 writes of a match, run as one batch and retried with backoff until they succeed or are dead-lettered
+export interface D1OutboxEntry {
+    id: number; // Entries are written to D1 strictly in id order
+    description: string;
+    statements: D1Write[];
+    attempts: number;
+    created_at: string;
+    next_attempt_at: string;
+    last_error: string | null;
+    dead_lettered_at?: string | null; // Set after OUTBOX_MAX_ATTEMPTS failures; later entries then go ahead without it
+}
+
+// Admin action on a match's D1 outbox (POST /api/live-match/:doId/outbox). Without a body the outbox is flushed now.
+export interface OutboxActionPayload {
+    action?: 'flush' | 'retry' | 'discard'; // retry re-queues a dead-lettered entry, discard drops an entry for good
+    id?: number;
+}
+
+// Role of a WebSocket connection to MatchDO, stored as a hibernation tag
+export type MatchConnectionRole = 'spectator' | 'staff' | 'overlay';
+
+// Per-connection data kept with a hibernated WebSocket (serializeAttachment)
+export interface MatchConnectionAttachment {
+    role: MatchConnectionRole;
+    team: 'teamA' | 'teamB' | null;
+    connected_at: number;
+    kinde_user_id: string | null; // Verified admin behind a staff connection
+    format: 'delta' | 'full'; // 'full' sends the whole MatchState on every change (clients written before deltas)
+}
+
+// One JSON Patch (RFC 6902) operation; only add / remove / replace are produced
+export interface JsonPatchOperation {
+    op: 'add' | 'remove' | 'replace';
+    path: string;
+    value?: any;
+}
+
+// Change of the broadcast state from base_version to version
+export interface MatchStateDelta {
+    version: number;
+    base_version: number;
+    ops: JsonPatchOperation[];
+}
+
+// Messages MatchDO sends to 'delta' connections. A client applies deltas whose base_version is the version it holds;
+// on a gap it sends { type: 'resync', since: <its version> } and gets the missing deltas or a new snapshot.
+export type MatchStateMessage =
+    | { type: 'snapshot'; version: number; state: MatchState }
+    | ({ type: 'delta' } & MatchStateDelta);
+
+// Commands staff clients can send over the match WebSocket, mapped to the same DO actions as the HTTP endpoints
+export type StaffCommandName = 'calculate-round' | 'next-round' | 'resolve-draw' | 'select-tiebreaker' | 'archive' | 'pause' | 'resume' | 'start-timer' | 'stop-timer' | 'change-lineup' | 'edit-song-list' | 'review-self-report' | 'issue-penalty';
+
+export interface StaffCommandMessage {
+    type: 'command';
+    id: string; // Chosen by the client, echoed back in the reply
+    command: StaffCommandName;
+    payload?: any; // Same body as the matching HTTP endpoint
+}
+
+// Sent only to the staff connections of the referees whose score entries disagree
+export interface ScoreEntryConflictMessage {
+    type: 'score_entry_conflict';
+    conflict: ScoreEntryConflict;
+}
+
+export type StaffCommandReply =
+    | { type: 'ack'; id: string; command: StaffCommandName; result: any }
+    | { type: 'error'; id: string | null; command: StaffCommandName | null; error: string; details?: any };
+
+export interface MatchConnectionCounts {
+    total: number;
+    spectator: number;
+    staff: number;
+    overlay: number;
+}
+
 // Payload for initializing DO from D1 TournamentMatch data (Internal to Worker/DO)
 export interface MatchScheduleData {
     tournamentMatchId: number;
@@ -219,14 +582,220 @@ export interface MatchScheduleData {
     team1_player_order_ids: number[];
     team2_player_order_ids: number[];
     match_song_list: MatchSong[];
+    ruleset?: MatchRuleset; // Ruleset for the match's stage, loaded from match_rulesets by the Worker
+}
+
+// Commands recorded in a match's event log (DO storage, copied to D1 match_events on archive).
+// Each payload holds what is needed to replay the command without the seed or D1, see MatchDO.replayEvents.
+export type MatchEventBody =
+    | { type: 'initialize'; payload: { schedule: MatchScheduleData; ruleset: MatchRuleset; random_seed_commitment: string | null } }
+    | { type: 'score-entry'; payload: { entry: ScoreEntry; conflict: ScoreEntryConflict | null } }
+    | { type: 'self-report'; payload: { report: SelfReport } }
+    | { type: 'review-self-report'; payload: { team: 'teamA' | 'teamB'; round_number_in_match: number; approve: boolean; reason: string | null; reviewed_by: string; reviewed_at: string } }
+    | { type: 'calculate-round'; payload: { round_number_in_match: number; scores: CalculateRoundPayload; defender_rolls: { teamA: SeededRoll; teamB: SeededRoll } | null; defender_picks: { teamA: number | null; teamB: number | null } } }
+    | { type: 'next-round'; payload: { song_index: number } }
+    | { type: 'select-tiebreaker-song'; payload: { song: MatchSong } }
+    | { type: 'resolve-draw'; payload: { winner: 'teamA' | 'teamB' } }
+    | { type: 'undo-round'; payload: { round_number_in_match: number } }
+    | { type: 'amend-round'; payload: AmendRoundPayload & { penalty?: Penalty } } // penalty: issued on the amended round
+    | { type: 'issue-penalty'; payload: { penalty: Penalty } }
+    | { type: 'pause'; payload: { reason: string } }
+    | { type: 'resume'; payload: Record<string, never> }
+    | { type: 'start-timer'; payload: StartTimerPayload }
+    | { type: 'stop-timer'; payload: Record<string, never> }
+    | { type: 'timer-expired'; payload: { phase: MatchTimerPhase; round_number_in_match: number } }
+    | { type: 'change-lineup'; payload: LineupChangePayload }
+    | { type: 'edit-song-list'; payload: { edit: SongListEditPayload; song: MatchSong | null } }
+    | { type: 'archive-match'; payload: { random_seed: string | null; administrative_result?: AdministrativeResult | null } };
+
+export type MatchEventType = MatchEventBody['type'];
+
+export type MatchEvent = MatchEventBody & {
+    seq: number; // 1-based position in the log
+    created_at: string;
+};
+
+// Row of the D1 match_events table
+export interface MatchEventRecord {
+    tournament_match_id: number;
+    seq: number;
+    event_type: MatchEventType;
+    payload_json: string;
+    created_at: string;
+}
+
+// Result of replaying an event log
+export interface MatchReplayResult {
+    event_count: number;
+    state: MatchState | null;
+    // Only for a live match: JSON-Patch from the replayed state to the DO's current state (empty when they agree)
+    differences_from_current?: JsonPatchOperation[];
+}
+
+// Tunable numbers of the team-match damage model, stored per stage in D1 match_rulesets
+export interface MatchRuleset {
+    initial_health: number;
+    mirror_health_restore: number; // Health restored by 复影折镜
+    max_damage_digit: number; // Damage of a 0 digit
+    standard_rounds_count: number; // Rounds before a tiebreaker is needed
+    draw_resolution: DrawResolutionStrategy[]; // Evaluated in order whenever the match is tied at its end
+    team_size: number; // Players per team in a match (1v1 to 4v4)
+    songs_per_player: number; // Songs each player picks (1 or 2, a selection holds two songs)
+    rotation: PlayerRotation; // Order in which the players of a team take their rounds
+    elemental: ElementalRules | null; // null: song and player elements do not affect damage
+    dual_entry: boolean; // Two different staff accounts must submit matching scores before a round is calculated
+}
+
+export type SongElement = 'fire' | 'wood' | 'water';
+
+// The "elemental" format, see utils/elements.ts. A player's element comes from their member color.
+export interface ElementalRules {
+    advantage_multiplier: number; // Damage of a player whose element beats the opponent's (fire > wood > water > fire)
+    disadvantage_multiplier: number; // Damage of a player whose element is beaten by the opponent's
+    song_boost_multiplier: number; // Damage of a player whose profession the song's element boosts
+    song_weaken_multiplier: number; // Damage of a player whose profession the song's element weakens
+    song_professions: Record<SongElement, { boosts: InternalProfession; weakens: InternalProfession }>;
+}
+
+// How the players of a team rotate through the rounds, see utils/playerRotation.ts
+export type PlayerRotation = 'cycle' | 'snake' | 'block';
+
+// How a tied match is decided. Each 'sudden_death' entry allows one tiebreaker song; 'manual' leaves it to staff.
+export type DrawResolutionStrategy = 'sudden_death' | 'total_percentage' | 'total_damage' | 'mirrors_remaining' | 'manual';
+
+export interface DrawResolutionStep {
+    strategy: DrawResolutionStrategy;
+    teamA_value?: number; // Numbers compared, for the comparing strategies
+    teamB_value?: number;
+}
+
+// Why a tied match was decided the way it was, stored on the state and in tournament_matches.draw_resolution_json
+export interface DrawResolution {
+    round_number_in_match: number; // Round after which the tie was evaluated
+    decided_by: DrawResolutionStrategy;
+    outcome: 'teamA' | 'teamB' | 'sudden_death' | 'manual'; // 'sudden_death': another tiebreaker song is needed
+    steps: DrawResolutionStep[]; // Every strategy evaluated, in order
+}
+
+// Row of the match_rulesets table
+export interface MatchRulesetRecord {
+    stage: string;
+    ruleset_json: string;
+    updated_at: string;
+    ruleset?: MatchRuleset; // Parsed by Worker
+}
+
+// Everything the rules engine (utils/roundEngine.ts) needs to calculate one round
+export interface RoundEngineInput {
+    round_number_in_match: number; // 1-based
+    song: MatchSong | null;
+    teamA_player_id: number | null;
+    teamB_player_id: number | null;
+    teamA_player_nickname?: string;
+    teamB_player_nickname?: string;
+    teamA_profession?: string | null; // InternalProfession
+    teamB_profession?: string | null;
+    teamA_element?: SongElement | null; // Only used when the ruleset is elemental
+    teamB_element?: SongElement | null;
+    teamA_health: number; // Health before the round
+    teamB_health: number;
+    teamA_mirror_available: boolean;
+    teamB_mirror_available: boolean;
+    scores: CalculateRoundPayload;
+    defender_rolls?: { teamA: SeededRoll; teamB: SeededRoll } | null;
+    forced_defender_picks?: { teamA?: number | null; teamB?: number | null }; // Re-use recorded picks when replaying
+    random_seed_commitment?: string | null;
+    penalties?: Penalty[]; // Penalties and bonuses of this round
+}
+
+// One possible result of a previewed round, for one combination of 矩盾手 picks
+export interface RoundPreviewOutcome {
+    teamA_defender_target_index: number | null;
+    teamB_defender_target_index: number | null;
+    probability: number;
+    status: MatchState['status'];
+    match_ended: boolean;
+    summary: RoundSummary;
+}
+
+// Distinct end results of a previewed round with their combined probability
+export interface RoundPreviewResultGroup {
+    teamA_health_after: number;
+    teamB_health_after: number;
+    teamA_mirror_triggered: boolean;
+    teamB_mirror_triggered: boolean;
+    status: MatchState['status'];
+    probability: number;
+    outcome_count: number;
+}
+
+// Response of the read-only round preview (POST /api/live-match/:doId/preview-round)
+export interface RoundPreview {
+    deterministic: boolean; // true if no 矩盾手 pick is involved and outcomes has a single entry
+    outcomes: RoundPreviewOutcome[];
+    distribution: RoundPreviewResultGroup[];
+}
+
+export interface RoundEngineResult {
+    summary: RoundSummary;
+    status: MatchState['status']; // Match status after the round
+    match_ended: boolean;
+    teamA_mirror_available: boolean;
+    teamB_mirror_available: boolean;
 }
 
 
 export interface CalculateRoundPayload {
-    teamA_percentage: number;
-    teamB_percentage: number;
-    teamA_effect_value?: number;
-    teamB_effect_value?: number;
+    teamA_percentage: PercentageInput; // 0–101.0000, "100.4995" preferred; computed by the server when teamA_judgments is given
+    teamB_percentage: PercentageInput;
+    teamA_judgments?: JudgmentBreakdown | null; // Judgments on the current song's chart, instead of a typed percentage
+    teamB_judgments?: JudgmentBreakdown | null;
+}
+
+// Seed material of one auditable random pick (see utils/seededRandom.ts)
+export interface SeededRoll {
+    label: string; // e.g. "round:3:teamA"
+    roll: number; // First 4 bytes of HMAC-SHA256(seed, label) as an unsigned integer
+}
+
+// Result of recomputing an archived round from its stored inputs and the revealed seed
+export interface RoundVerificationResult {
+    round_number_in_match: number;
+    random_seed: string;
+    random_seed_commitment: string | null;
+    commitment_valid: boolean; // SHA-256(random_seed) equals the commitment published at match start
+    teamA_defender_roll: SeededRoll | null;
+    teamB_defender_roll: SeededRoll | null;
+    teamA_defender_target_index: number | null;
+    teamB_defender_target_index: number | null;
+    mismatches: Record<string, FieldChange>; // Recorded value (before) vs recomputed value (after)
+    verified: boolean;
+}
+
+// Corrected inputs for an already calculated round. Later rounds are replayed with their stored inputs.
+export interface AmendRoundPayload extends CalculateRoundPayload {
+    round_number_in_match: number;
+    dry_run?: boolean; // If true, only return the diff without saving anything
+}
+
+export interface FieldChange {
+    before: any;
+    after: any;
+}
+
+export interface AmendedRoundDiff {
+    round_number_in_match: number;
+    // 'recalculated': round replayed with (possibly) new results
+    // 'invalidated': round no longer happens because the match now ends earlier
+    outcome: 'recalculated' | 'invalidated';
+    changes: Record<string, FieldChange>;
+}
+
+export interface AmendRoundResult {
+    round_number_in_match: number;
+    dry_run: boolean;
+    rounds: AmendedRoundDiff[];
+    final_changes: Record<string, FieldChange>; // Changes to the overall match state (health, mirrors, status, ...)
 }
 
 export interface ResolveDrawPayload {
@@ -234,8 +803,16 @@ export interface ResolveDrawPayload {
 }
 
 export interface SelectTiebreakerSongPayload {
-    song_id: number;
-    selected_difficulty: string;
+    mode?: 'pick' | 'draw'; // Default 'pick'
+    song_id?: number; // pick
+    selected_difficulty?: string; // pick
+    pool?: TiebreakerPoolFilter; // draw
+}
+
+// Body the Worker forwards to /internal/select-tiebreaker-song, with the songs resolved from D1
+export interface InternalSelectTiebreakerPayload extends SelectTiebreakerSongPayload {
+    song_details?: Song; // pick
+    pool_songs?: Song[]; // draw: songs of the pool's categories with the pool's difficulty
 }
 
 export interface RoundSummary {
@@ -247,9 +824,11 @@ export interface RoundSummary {
     teamB_player_id: number;
     teamA_player_nickname: string;
     teamB_player_nickname: string;
-    teamA_percentage: number;
-    teamB_percentage: number;
-    teamA_effect_value_applied: number;
+    teamA_percentage: string; // Canonical 4-decimal string, e.g. "100.4995"
+    teamB_percentage: string;
+    teamA_judgments?: JudgmentBreakdown | null; // Set when the percentage was computed from judgments
+    teamB_judgments?: JudgmentBreakdown | null;
+    teamA_effect_value_applied: number; // Total of the team's penalties in this round
     teamB_effect_value_applied: number;
     teamA_damage_digits: number[];
     teamB_damage_digits: number[];
@@ -259,10 +838,26 @@ export interface RoundSummary {
     teamB_profession?: string | null;
     teamA_profession_effect_applied?: string;
     teamB_profession_effect_applied?: string;
+    song_element?: SongElement | null; // Elemental rounds only
+    teamA_element?: SongElement | null;
+    teamB_element?: SongElement | null;
+    teamA_elemental_multiplier?: number; // Applied to the damage after profession skills
+    teamB_elemental_multiplier?: number;
+    teamA_elemental_effect_applied?: string;
+    teamB_elemental_effect_applied?: string;
     teamA_modified_damage_to_B: number;
     teamB_modified_damage_to_A: number;
+    teamA_damage_invalidated_by_opponent_defender?: number; // Amount of A's damage blocked by B's Defender
+    teamB_damage_invalidated_by_opponent_defender?: number;
+    teamA_defender_target_index?: number | null; // Index of the opponent digit picked by this team's Defender
+    teamB_defender_target_index?: number | null;
+    teamA_defender_roll?: SeededRoll | null; // Seed material of the pick (null if no seed, e.g. matches started before seeding)
+    teamB_defender_roll?: SeededRoll | null;
+    random_seed_commitment?: string | null;
     teamA_health_before_round: number;
     teamB_health_before_round: number;
+    teamA_health_after_damage_and_defender_heal?: number; // Health after net damage, before mirrors/heals/effects
+    teamB_health_after_damage_and_defender_heal?: number;
     teamA_mirror_triggered: boolean;
     teamB_mirror_triggered: boolean;
     teamA_mirror_effect_applied?: string;
@@ -271,6 +866,10 @@ export interface RoundSummary {
     teamB_supporter_base_skill_heal?: number;
     teamA_supporter_mirror_bonus_heal?: number;
     teamB_supporter_mirror_bonus_heal?: number;
+    teamA_attacker_mirror_extra_damage?: number;
+    teamB_attacker_mirror_extra_damage?: number;
+    teamA_reflected_damage_by_defender_mirror?: number;
+    teamB_reflected_damage_by_defender_mirror?: number;
     teamA_final_damage_dealt: number;
     teamB_final_damage_dealt: number;
     teamA_health_change: number;
@@ -278,6 +877,10 @@ export interface RoundSummary {
     teamA_health_after: number;
     teamB_health_after: number;
     is_tiebreaker_song?: boolean;
+    lineup_changes?: LineupChange[]; // Lineup changes that took effect in this round
+    score_entries?: ScoreEntry[]; // Dual entry: the referees' entries the round was calculated from
+    self_reports?: SelfReport[]; // Approved player self-reports the round was calculated from
+    penalties?: Penalty[]; // Penalties and bonuses applied at step 8 (missing on rounds calculated with raw effect values)
     log?: string[];
 }
 
@@ -292,8 +895,8 @@ export interface MatchHistoryRound {
     picker_member_id: number | null;
     team1_member_id: number | null;
     team2_member_id: number | null;
-    team1_percentage: number | null;
-    team2_percentage: number | null;
+    team1_percentage: string | null; // 4-decimal string
+    team2_percentage: string | null;
     team1_damage_dealt: number | null;
     team2_damage_dealt: number | null;
     team1_health_change: number | null;
@@ -328,8 +931,10 @@ export interface MatchHistoryMatch {
     round_name: string;
     scheduled_time: string | null;
     status: 'completed' | 'archived'; // History only shows these statuses
-    final_score_team1: number | null;
+    final_score_team1: number | null; // null unless result_type is 'played'
     final_score_team2: number | null;
+    result_type: MatchResultType | null; // null for matches archived before result types existed
+    result_reason: string | null;
 
     // Denormalized fields from JOINs
     team1_name?: string;
@@ -383,8 +988,8 @@ export interface MatchPlayerSelection {
     team_id: number; // FK to teams
     song1_id: number; // FK to songs
     song1_difficulty: string; // e.g., 'M', 'E' (Difficulty key)
-    song2_id: number; // FK to songs
-    song2_difficulty: string; // e.g., 'M', 'E' (Difficulty key)
+    song2_id: number | null; // FK to songs, null when the stage has one song per player
+    song2_difficulty: string | null; // e.g., 'M', 'E' (Difficulty key)
     selected_order_index: number; // 0-based index (0 for 1st, 1 for 2nd, etc.)
     created_at?: string;
     updated_at?: string;
@@ -394,8 +999,8 @@ export interface MatchPlayerSelection {
 export interface SaveMatchPlayerSelectionPayload {
     song1_id: number;
     song1_difficulty: string;
-    song2_id: number;
-    song2_difficulty: string;
+    song2_id?: number | null; // Only required when the stage has two songs per player
+    song2_difficulty?: string | null;
     selected_order_index: number;
 }
 
@@ -410,7 +1015,8 @@ export interface FetchUserMatchSelectionData { // Renamed to match frontend expe
     mySelection: MatchPlayerSelection | null; // User's existing selection
     // Occupied indices need member_id and nickname for frontend display
     occupiedOrderIndices: { team_id: number; selected_order_index: number; member_id: number; member_nickname?: string }[];
-    availableOrderSlotsCount: number; // Total number of slots available per team (e.g., 3v3 is 3)
+    availableOrderSlotsCount: number; // Total number of slots available per team, the ruleset's team_size (e.g., 3v3 is 3)
+    songsPerPlayer: number; // 1: only song1 is picked, 2: song1 and song2
     // ADDED: Include details for the selected songs if mySelection exists
     song1Details?: Song | null; // Full Song object for song1
     song2Details?: Song | null; // Full Song object for song2
@@ -450,7 +1056,7 @@ export interface PlayerCalculationData {
     id: number;
     nickname: string;
     profession: Profession; // Use the Profession type defined below
-    percentage: number; // 乐曲完成率，如99.9876
+    percentage: PercentageInput; // 乐曲完成率，如 "99.9876"
   }
   
   // Semifinal Score Calculation Result (Backend)
@@ -461,6 +1067,9 @@ export interface PlayerCalculationData {
     originalScore: number; // 原始得分（小数点后四位）
     bonusScore: number; // 职业技能加成
     totalScore: number; // 最终得分
+    bonusIndex?: number | null; // 矩盾手选中的对手数字下标
+    bonusRoll?: SeededRoll | null; // 矩盾手随机选择的种子材料
+    judgments?: JudgmentBreakdown | null; // 提交的判定明细（由此算出达成率时）
     log: string[]; // 计分日志
   }
   
@@ -477,13 +1086,15 @@ export interface PlayerCalculationData {
       status: 'scheduled' | 'completed' | 'archived'; // Status of the semifinal match
       scheduled_time?: string | null; // Optional: ISO 8601 string
       winner_player_id?: number | null; // NULLABLE, FK to members.id
-      player1_percentage?: number | null; // NULLABLE until submitted
-      player2_percentage?: number | null; // NULLABLE until submitted
+      player1_percentage?: PercentageInput | null; // NULLABLE until submitted, written as a 4-decimal string
+      player2_percentage?: PercentageInput | null; // NULLABLE until submitted, written as a 4-decimal string
       player1_profession?: Profession | null; // NULLABLE until submitted
       player2_profession?: Profession | null; // NULLABLE until submitted
       final_score_player1?: number | null; // NULLABLE until calculated
       final_score_player2?: number | null; // NULLABLE until calculated
       results_json?: string | null; // JSON blob of { player1: SemifinalScoreResult, player2: SemifinalScoreResult }
+      random_seed_commitment?: string | null; // SHA-256 of random_seed, set when the match is created
+      random_seed?: string | null; // Only returned once the match is archived
       created_at: string;
       updated_at?: string;
       player1_nickname?: string;
@@ -495,6 +1106,18 @@ export interface PlayerCalculationData {
       } | null;
   }
   
+  // Result of recomputing an archived semifinal match with its revealed seed (GET /api/semifinal-matches/:id/verify)
+  export interface SemifinalVerificationResult {
+      semifinal_match_id: number;
+      random_seed: string;
+      random_seed_commitment: string | null;
+      commitment_valid: boolean; // SHA-256(random_seed) equals the commitment stored when the match was created
+      player1: SemifinalScoreResult; // Recomputed results
+      player2: SemifinalScoreResult;
+      mismatches: Record<string, FieldChange>; // Recorded value (before) vs recomputed value (after)
+      verified: boolean;
+  }
+  
   // Payload for creating a new Semifinal Match (POST /api/semifinal-matches)
   export interface CreateSemifinalMatchPayload {
       round_name: string;
@@ -508,13 +1131,17 @@ export interface PlayerCalculationData {
       player1: {
           id: number;
           profession: Profession;
-          percentage: number;
+          percentage?: PercentageInput; // 0–101.0000, computed from judgments when they are given
+          judgments?: JudgmentBreakdown | null;
       };
       player2: {
           id: number;
           profession: Profession;
-          percentage: number;
+          percentage?: PercentageInput;
+          judgments?: JudgmentBreakdown | null;
       };
+      song_id?: number; // Chart the judgments were played on, required with judgments
+      difficulty?: keyof SongLevel;
   }
   
   // Response from submitting Semifinal Scores (Backend to Frontend)
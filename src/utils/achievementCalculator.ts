@@ -0,0 +1,127 @@
+// src/utils/achievementCalculator.ts
+// 达成率计算：由判定明细与谱面物量算出精确达成率，避免裁判手抄结算画面时的笔误。
+// 基础分：Tap/Touch 500、Hold 1000、Slide 1500、Break 2500；Critical/Perfect 满分，Great 80%，Good 50%，Miss 0。
+// Break 的 Great 按细分档位得 80%/60%/50%，Good 得 40%；额外的 1% 按 Break 数平分：Critical 100%、Perfect 75%/50%、Great 40%、Good 30%。
+// 因此 Break 的 Perfect 与 Great 必须按细分档位填写。结果截断到小数点后四位。
+
+import type { BreakJudgmentCounts, ChartNoteCounts, JudgmentBreakdown, JudgmentCounts, NoteType, SongLevel } from '../types';
+import { formatPercentage } from './percentage';
+
+export const NOTE_TYPES: NoteType[] = ['tap', 'hold', 'slide', 'touch', 'break'];
+
+export const JUDGMENTS: (keyof JudgmentCounts)[] = ['critical', 'perfect', 'great', 'good', 'miss'];
+export const BREAK_JUDGMENTS: (keyof BreakJudgmentCounts)[] = ['critical', 'perfect_high', 'perfect_low', 'great_80', 'great_60', 'great_50', 'good', 'miss'];
+
+const NOTE_BASE_SCORE: Record<NoteType, number> = { tap: 500, hold: 1000, slide: 1500, touch: 500, break: 2500 };
+
+// 各判定得到的基础分比例（十分之一）
+const JUDGMENT_RATE_TENTHS: Record<keyof JudgmentCounts, number> = { critical: 10, perfect: 10, great: 8, good: 5, miss: 0 };
+const BREAK_RATE_TENTHS: Record<keyof BreakJudgmentCounts, number> = { critical: 10, perfect_high: 10, perfect_low: 10, great_80: 8, great_60: 6, great_50: 5, good: 4, miss: 0 };
+
+// Break 额外分比例（百分之一）
+const BREAK_BONUS_HUNDREDTHS: Record<keyof BreakJudgmentCounts, number> = { critical: 100, perfect_high: 75, perfect_low: 50, great_80: 40, great_60: 40, great_50: 40, good: 30, miss: 0 };
+
+/**
+ * 某一音符类型的判定档位及各档位数量（缺少的档位为 0）。
+ * @param judgments 判定明细
+ * @param type 音符类型
+ */
+function judgmentEntries(judgments: JudgmentBreakdown, type: NoteType): [string, number][] {
+  const counts: Record<string, number | undefined> = judgments[type] ?? {};
+  const keys: string[] = type === 'break' ? BREAK_JUDGMENTS : JUDGMENTS;
+  return keys.map(judgment => [judgment, counts[judgment] ?? 0]);
+}
+
+/**
+ * 从曲目的难度字符串中取出 levels_json 的键，如 "M 13+" -> "M"。
+ * @param songDifficulty MatchSong.song_difficulty 或难度键
+ */
+export function difficultyKeyOf(songDifficulty: string): keyof SongLevel {
+  return songDifficulty.trim().split(/\s+/)[0] as keyof SongLevel;
+}
+
+/**
+ * 读取某一难度的谱面物量。
+ * @param notesJson songs.notes_json
+ * @param difficulty 难度键（B/A/E/M/R）
+ * @returns 物量，没有该难度的数据时为 null；缺少的音符类型视为 0
+ */
+export function parseChartNoteCounts(notesJson: string | null | undefined, difficulty: keyof SongLevel): ChartNoteCounts | null {
+  if (!notesJson) return null;
+  let parsed: Partial<Record<keyof SongLevel, Partial<ChartNoteCounts>>>;
+  try {
+    parsed = JSON.parse(notesJson);
+  } catch {
+    return null;
+  }
+  const chart = parsed?.[difficulty];
+  if (!chart || typeof chart !== 'object') return null;
+  const counts = {} as ChartNoteCounts;
+  for (const type of NOTE_TYPES) {
+    const value = chart[type] ?? 0;
+    if (!Number.isInteger(value) || value < 0) return null;
+    counts[type] = value;
+  }
+  return counts;
+}
+
+/**
+ * 检查判定明细与谱面物量是否一致。
+ * @param noteCounts 谱面物量
+ * @param judgments 判定明细
+ * @returns 错误信息，一致时为 null
+ */
+export function validateJudgments(noteCounts: ChartNoteCounts, judgments: JudgmentBreakdown): string | null {
+  if (!judgments || typeof judgments !== 'object') return 'Judgments must be an object of note types.';
+  for (const type of Object.keys(judgments)) {
+    if (!NOTE_TYPES.includes(type as NoteType)) return `Unknown note type '${type}'.`;
+  }
+  for (const type of NOTE_TYPES) {
+    const counts = judgments[type];
+    if (!counts) {
+      if (noteCounts[type] > 0) return `Missing ${type} judgments (the chart has ${noteCounts[type]}).`;
+      continue;
+    }
+    for (const judgment of Object.keys(counts)) {
+      if (((type === 'break' ? BREAK_JUDGMENTS : JUDGMENTS) as string[]).includes(judgment)) continue;
+      if (type === 'break' && (judgment === 'perfect' || judgment === 'great')) {
+        return 'Break perfect and great judgments must be split into perfect_high/perfect_low and great_80/great_60/great_50.';
+      }
+      return `Unknown ${type} judgment '${judgment}'.`;
+    }
+    let total = 0;
+    for (const [judgment, value] of judgmentEntries(judgments, type)) {
+      if (!Number.isInteger(value) || value < 0) return `Invalid ${type} ${judgment} count: ${value}.`;
+      total += value;
+    }
+    if (total !== noteCounts[type]) return `${type} judgments add up to ${total}, the chart has ${noteCounts[type]}.`;
+  }
+  if (NOTE_TYPES.every(type => noteCounts[type] === 0)) return 'The chart has no notes.';
+  return null;
+}
+
+/**
+ * 由判定明细计算达成率。调用前先用 validateJudgments 检查。
+ * @param noteCounts 谱面物量
+ * @param judgments 判定明细
+ * @returns 达成率（万分之一百分点的整数，以及对应的四位小数字符串，如 1005000 与 "100.5000"）
+ */
+export function calculateAchievement(noteCounts: ChartNoteCounts, judgments: JudgmentBreakdown): { achievement_e4: number; percentage: string } {
+  let points = 0; // 得分，十分之一基础分
+  let total = 0; // 满分，十分之一基础分
+  let bonus = 0; // Break 额外分，百分之一
+  for (const type of NOTE_TYPES) {
+    total += noteCounts[type] * NOTE_BASE_SCORE[type] * 10;
+    const rates: Record<string, number> = type === 'break' ? BREAK_RATE_TENTHS : JUDGMENT_RATE_TENTHS;
+    for (const [judgment, value] of judgmentEntries(judgments, type)) {
+      points += value * NOTE_BASE_SCORE[type] * rates[judgment];
+      if (type === 'break') bonus += value * BREAK_BONUS_HUNDREDTHS[judgment as keyof BreakJudgmentCounts];
+    }
+  }
+
+  // achievement_e4 = floor(1000000 * points / total + 100 * bonus / breaks)，用 BigInt 保证截断精确
+  const breaks = BigInt(Math.max(1, noteCounts.break));
+  const numerator = BigInt(1000000) * BigInt(points) * breaks + (noteCounts.break > 0 ? BigInt(100) * BigInt(bonus) * BigInt(total) : BigInt(0));
+  const achievement_e4 = Number(numerator / (BigInt(total) * breaks));
+  return { achievement_e4, percentage: formatPercentage(achievement_e4) };
+}
@@ -0,0 +1,71 @@
+// src/utils/drawResolution.ts
+// 平局判定：比赛在终点时血量相同，按规则集中的策略链依次判定。
+// 每个 'sudden_death' 允许加赛一首曲目；比较类策略数值不同即决出胜者，相同则继续下一条；
+// 'manual' 或策略链用尽时交由工作人员裁定。
+
+import type { DrawResolution, DrawResolutionStep, DrawResolutionStrategy, MatchState } from '../types';
+import { percentageToE4 } from './percentage';
+
+export const DRAW_RESOLUTION_STRATEGIES: DrawResolutionStrategy[] = ['sudden_death', 'total_percentage', 'total_damage', 'mirrors_remaining', 'manual'];
+
+/**
+ * 计算比较类策略下双方的数值，仅统计已完成的曲目。
+ * @param strategy 比较类策略
+ * @param state 比赛状态
+ * @returns 双方数值，越大越优
+ */
+function compareValues(strategy: DrawResolutionStrategy, state: Pick<MatchState, 'match_song_list' | 'teamA_mirror_available' | 'teamB_mirror_available'>): { teamA: number; teamB: number } {
+  const completed = state.match_song_list.filter(song => song.status === 'completed');
+  // 四舍五入到完成率的精度，避免浮点误差造成假的胜负
+  const sum = (values: (number | undefined)[]) => Math.round(values.reduce<number>((total, value) => total + (value ?? 0), 0) * 10000) / 10000;
+  // 完成率按万分之一百分点的整数相加，结果精确
+  const sumPercentages = (values: unknown[]) => values.reduce<number>((total, value) => total + (percentageToE4(value) ?? 0), 0) / 10000;
+  switch (strategy) {
+    case 'total_percentage':
+      return { teamA: sumPercentages(completed.map(song => song.teamA_percentage)), teamB: sumPercentages(completed.map(song => song.teamB_percentage)) };
+    case 'total_damage':
+      return { teamA: sum(completed.map(song => song.teamA_damage_dealt)), teamB: sum(completed.map(song => song.teamB_damage_dealt)) };
+    default: // mirrors_remaining
+      return { teamA: state.teamA_mirror_available ? 1 : 0, teamB: state.teamB_mirror_available ? 1 : 0 };
+  }
+}
+
+/**
+ * 对终点平局的比赛执行策略链。
+ * @param strategies 规则集中的策略链
+ * @param state 平局时的比赛状态（本轮结果已写入曲目列表）
+ * @returns 判定结果及每一步比较的数值
+ */
+export function evaluateDrawResolution(
+  strategies: DrawResolutionStrategy[],
+  state: Pick<MatchState, 'match_song_list' | 'teamA_mirror_available' | 'teamB_mirror_available' | 'current_match_song_index'>
+): DrawResolution {
+  const round_number_in_match = state.current_match_song_index + 1;
+  const tiebreakersPlayed = state.match_song_list.filter(song => song.is_tiebreaker_song && song.status === 'completed').length;
+  const steps: DrawResolutionStep[] = [];
+  let suddenDeathSeen = 0;
+
+  for (const strategy of strategies) {
+    if (strategy === 'manual') {
+      steps.push({ strategy });
+      return { round_number_in_match, decided_by: strategy, outcome: 'manual', steps };
+    }
+    if (strategy === 'sudden_death') {
+      suddenDeathSeen++;
+      // 已经加赛过的 sudden_death 跳过
+      if (suddenDeathSeen > tiebreakersPlayed) {
+        steps.push({ strategy });
+        return { round_number_in_match, decided_by: strategy, outcome: 'sudden_death', steps };
+      }
+      continue;
+    }
+    const values = compareValues(strategy, state);
+    steps.push({ strategy, teamA_value: values.teamA, teamB_value: values.teamB });
+    if (values.teamA !== values.teamB) {
+      return { round_number_in_match, decided_by: strategy, outcome: values.teamA > values.teamB ? 'teamA' : 'teamB', steps };
+    }
+  }
+
+  // 策略链用尽仍未分出胜负
+  return { round_number_in_match, decided_by: 'manual', outcome: 'manual', steps };
+}
@@ -0,0 +1,83 @@
+// src/utils/elements.ts
+// 元素克制（"elemental" 赛制）：选手的元素由队员颜色决定，曲目的元素由分类决定。
+// 火克木、木克水、水克火；曲目元素还会增强或削弱特定职业。倍率作用于职业技能之后的伤害，见 roundEngine.ts。
+
+import type { ElementalRules, InternalProfession, SongElement } from '../types';
+
+export const SONG_ELEMENTS: SongElement[] = ['fire', 'wood', 'water'];
+
+// 队员颜色对应的元素
+const COLOR_ELEMENTS: Record<string, SongElement> = { red: 'fire', green: 'wood', blue: 'water' };
+
+// 每个元素克制的元素
+const ELEMENT_BEATS: Record<SongElement, SongElement> = { fire: 'wood', wood: 'water', water: 'fire' };
+
+// 规则集启用元素克制但未给出完整配置时使用的默认值
+export const DEFAULT_ELEMENTAL_RULES: ElementalRules = {
+  advantage_multiplier: 1.5,
+  disadvantage_multiplier: 0.75,
+  song_boost_multiplier: 1.25,
+  song_weaken_multiplier: 0.8,
+  song_professions: {
+    fire: { boosts: 'attacker', weakens: 'supporter' },
+    wood: { boosts: 'supporter', weakens: 'defender' },
+    water: { boosts: 'defender', weakens: 'attacker' },
+  },
+};
+
+/**
+ * 队员颜色对应的元素。
+ * @param color 队员颜色（red / green / blue）
+ * @returns 元素，未知颜色为 null
+ */
+export function elementOfColor(color: string | null | undefined): SongElement | null {
+  return (color && COLOR_ELEMENTS[color]) || null;
+}
+
+/**
+ * 曲目分类对应的元素（原先写在 MatchDO 里的映射）。
+ * @param category songs 表的分类
+ * @returns 元素，没有对应元素的分类为 null
+ */
+export function songElementOfCategory(category: string | null | undefined): SongElement | null {
+  return category === 'original' ? 'fire' : category === 'niconico' ? 'wood' : null;
+}
+
+/**
+ * 计算一名选手本轮伤害的元素倍率。
+ * @param rules 元素规则
+ * @param songElement 本轮曲目的元素
+ * @param profession 该选手的职业
+ * @param ownElement 该选手的元素
+ * @param opponentElement 对方选手的元素
+ * @returns 倍率及生效的效果说明
+ */
+export function elementalMultiplier(
+  rules: ElementalRules,
+  songElement: SongElement | null,
+  profession: InternalProfession | string | null | undefined,
+  ownElement: SongElement | null,
+  opponentElement: SongElement | null
+): { multiplier: number; effects: string[] } {
+  let multiplier = 1;
+  const effects: string[] = [];
+
+  const affinity = songElement ? rules.song_professions[songElement] : undefined;
+  if (affinity && profession && affinity.boosts === profession) {
+    multiplier *= rules.song_boost_multiplier;
+    effects.push(`曲目元素 ${songElement} 增强 ${profession} ×${rules.song_boost_multiplier}`);
+  } else if (affinity && profession && affinity.weakens === profession) {
+    multiplier *= rules.song_weaken_multiplier;
+    effects.push(`曲目元素 ${songElement} 削弱 ${profession} ×${rules.song_weaken_multiplier}`);
+  }
+
+  if (ownElement && opponentElement && ELEMENT_BEATS[ownElement] === opponentElement) {
+    multiplier *= rules.advantage_multiplier;
+    effects.push(`${ownElement} 克制 ${opponentElement} ×${rules.advantage_multiplier}`);
+  } else if (ownElement && opponentElement && ELEMENT_BEATS[opponentElement] === ownElement) {
+    multiplier *= rules.disadvantage_multiplier;
+    effects.push(`${ownElement} 被 ${opponentElement} 克制 ×${rules.disadvantage_multiplier}`);
+  }
+
+  return { multiplier, effects };
+}
@@ -0,0 +1,88 @@
+// src/utils/jsonPatch.ts
+// 生成与应用 JSON Patch（RFC 6902 的 add / remove / replace 子集），用于向直播客户端推送状态增量。
+// 值为 undefined 的字段视为不存在（与 JSON.stringify 一致）；数组长度变化时整体替换。
+
+import type { JsonPatchOperation } from '../types';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 按 RFC 6901 转义路径中的一段。
+ */
+function escapePathSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * 计算从 before 到 after 的补丁。
+ * @param before 旧文档
+ * @param after 新文档
+ * @param path 当前所在路径（递归用，调用方无需传入）
+ * @returns 补丁操作列表，文档相同时为空数组
+ */
+export function diffJson(before: unknown, after: unknown, path: string = ''): JsonPatchOperation[] {
+  if (before === after) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const ops: JsonPatchOperation[] = [];
+    for (const key of Object.keys(before)) {
+      if (before[key] !== undefined && after[key] === undefined) {
+        ops.push({ op: 'remove', path: `${path}/${escapePathSegment(key)}` });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] === undefined) continue;
+      const childPath = `${path}/${escapePathSegment(key)}`;
+      if (before[key] === undefined) {
+        ops.push({ op: 'add', path: childPath, value: after[key] });
+      } else {
+        ops.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    return ops;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    const ops: JsonPatchOperation[] = [];
+    after.forEach((item, index) => ops.push(...diffJson(before[index], item, `${path}/${index}`)));
+    return ops;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ op: 'replace', path, value: after }];
+}
+
+/**
+ * 将补丁应用到文档上，不修改传入的文档。
+ * @param document 原文档
+ * @param ops diffJson 生成的补丁
+ * @returns 应用补丁后的新文档
+ */
+export function applyJsonPatch<T>(document: T, ops: JsonPatchOperation[]): T {
+  let result: any = structuredClone(document);
+  for (const operation of ops) {
+    if (operation.path === '') {
+      result = operation.op === 'remove' ? undefined : structuredClone(operation.value);
+      continue;
+    }
+    const segments = operation.path.split('/').slice(1).map(unescapePathSegment);
+    const last = segments.pop() as string;
+    const parent = segments.reduce((node, segment) => node[segment], result);
+    if (operation.op === 'remove') {
+      if (Array.isArray(parent)) {
+        parent.splice(Number(last), 1);
+      } else {
+        delete parent[last];
+      }
+    } else {
+      parent[last] = structuredClone(operation.value);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,68 @@
+// src/utils/penalties.ts
+// 判罚与奖励：工作人员开出的有类别、理由与开具人的血量调整，取代计分请求中不带说明的小分调整。
+// 在所属轮次的第 8 步由 roundEngine.ts 计入血量；整场判罚归属开出时下一个待计算的轮次。
+
+import type { IssuePenaltyPayload, Penalty, PenaltyCategory } from '../types';
+
+export const PENALTY_CATEGORIES: PenaltyCategory[] = ['lateness', 'misconduct', 'equipment_fault', 'scoring_correction', 'bonus', 'other'];
+
+// 只能扣血或只能加血的类别，其余类别两者皆可
+const NEGATIVE_CATEGORIES: PenaltyCategory[] = ['lateness', 'misconduct'];
+const POSITIVE_CATEGORIES: PenaltyCategory[] = ['bonus'];
+
+/**
+ * 检查开具判罚的请求。
+ * @param payload 请求体
+ * @returns 错误信息，有效时为 null
+ */
+export function penaltyPayloadError(payload: IssuePenaltyPayload): string | null {
+  if (!payload || typeof payload !== 'object') return 'Penalty payload must be an object.';
+  if (payload.team !== 'teamA' && payload.team !== 'teamB') return "team must be 'teamA' or 'teamB'.";
+  if (!PENALTY_CATEGORIES.includes(payload.category)) return `category must be one of ${PENALTY_CATEGORIES.join(', ')}.`;
+  if (typeof payload.amount !== 'number' || !isFinite(payload.amount) || payload.amount === 0) return 'amount must be a non-zero number.';
+  if (NEGATIVE_CATEGORIES.includes(payload.category) && payload.amount > 0) return `A ${payload.category} penalty must lower health.`;
+  if (POSITIVE_CATEGORIES.includes(payload.category) && payload.amount < 0) return `A ${payload.category} must raise health.`;
+  if (typeof payload.reason !== 'string' || payload.reason.trim() === '') return 'A reason is required.';
+  if (payload.scope !== 'round' && payload.scope !== 'match') return "scope must be 'round' or 'match'.";
+  if (payload.round_number_in_match !== undefined) {
+    if (payload.scope !== 'round') return 'round_number_in_match only applies to round penalties.';
+    if (!Number.isInteger(payload.round_number_in_match) || payload.round_number_in_match < 1) return 'round_number_in_match must be a round number.';
+  }
+  return null;
+}
+
+/**
+ * 一支队伍在一组判罚中的血量调整合计。
+ * @param penalties 本轮的判罚与奖励
+ * @param team 队伍
+ */
+export function penaltyTotal(penalties: Penalty[], team: 'teamA' | 'teamB'): number {
+  return penalties.reduce((sum, penalty) => penalty.team === team ? sum + penalty.amount : sum, 0);
+}
+
+/**
+ * 把判罚系统上线前计算的轮次中的小分调整转换为判罚，使这些轮次重算时结果不变。
+ * @param round 轮次
+ * @param teamAEffectValue 队伍 A 的小分调整
+ * @param teamBEffectValue 队伍 B 的小分调整
+ * @param issuedAt 记录时间
+ * @returns 非零调整对应的判罚（类别 other）
+ */
+export function legacyEffectPenalties(round: number, teamAEffectValue: unknown, teamBEffectValue: unknown, issuedAt: string): Penalty[] {
+  const penalties: Penalty[] = [];
+  for (const [team, amount] of [['teamA', teamAEffectValue], ['teamB', teamBEffectValue]] as const) {
+    if (typeof amount !== 'number' || !isFinite(amount) || amount === 0) continue;
+    penalties.push({
+      id: `legacy-${round}-${team}`,
+      team,
+      category: 'other',
+      amount,
+      reason: '小分调整',
+      scope: 'round',
+      round_number_in_match: round,
+      issued_by: null,
+      issued_at: issuedAt,
+    });
+  }
+  return penalties;
+}
@@ -0,0 +1,80 @@
+// src/utils/percentage.ts
+// 完成率的精确表示：以万分之一百分点的整数计算，以四位小数的字符串（如 "100.4995"）存储与返回。
+// 伤害数字取自小数点后四位，不能经过浮点运算（toFixed 可能把最后一位舍入错）。数字输入按其十进制写法解析。
+
+import type { PercentageInput } from '../types';
+
+// 101.0000% 对应的万分之一百分点
+export const MAX_PERCENTAGE_E4 = 1010000;
+
+const DECIMAL_PATTERN = /^(-?)(\d+)(?:\.(\d+))?$/;
+
+/**
+ * 解析完成率。
+ * @param value 四位小数的字符串或数字
+ * @returns 万分之一百分点的整数，或错误信息
+ */
+function parsePercentage(value: unknown): { e4: number; error?: undefined } | { e4?: undefined; error: string } {
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return { error: `Percentage must be a decimal string such as "100.4995", got ${JSON.stringify(value)}.` };
+  }
+  // String(number) 给出能还原该数字的最短十进制写法，即 99.9876 -> "99.9876"
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    return { error: `Percentage '${value}' is not a decimal number.` };
+  }
+  const fraction = match[3] ?? '';
+  if (fraction.length > 4) {
+    return { error: `Percentage '${value}' has more than 4 decimal places.` };
+  }
+  const e4 = Number(match[2]) * 10000 + Number(fraction.padEnd(4, '0'));
+  if ((match[1] === '-' && e4 !== 0) || e4 > MAX_PERCENTAGE_E4) {
+    return { error: `Percentage '${value}' is outside 0.0000–101.0000.` };
+  }
+  return { e4 };
+}
+
+/**
+ * 检查完成率输入。
+ * @param value 请求中的完成率
+ * @returns 错误信息，有效时为 null
+ */
+export function percentageError(value: unknown): string | null {
+  return parsePercentage(value).error ?? null;
+}
+
+/**
+ * 完成率转换为万分之一百分点的整数，如 "100.4995" -> 1004995。
+ * @param value 四位小数的字符串或数字
+ * @returns 整数，无效输入为 null
+ */
+export function percentageToE4(value: unknown): number | null {
+  return parsePercentage(value).e4 ?? null;
+}
+
+/**
+ * 万分之一百分点的整数转换为四位小数的字符串，如 1004995 -> "100.4995"。
+ * @param e4 万分之一百分点
+ */
+export function formatPercentage(e4: number): string {
+  return `${Math.floor(e4 / 10000)}.${String(e4 % 10000).padStart(4, '0')}`;
+}
+
+/**
+ * 完成率的规范写法。
+ * @param value 四位小数的字符串或数字
+ * @returns 四位小数的字符串，无效输入为 null
+ */
+export function canonicalPercentage(value: unknown): string | null {
+  const e4 = percentageToE4(value);
+  return e4 === null ? null : formatPercentage(e4);
+}
+
+/**
+ * 取完成率小数点后的四位数字 (0-9)。
+ * @param e4 万分之一百分点
+ */
+export function percentageDigits(e4: number): number[] {
+  return String(e4 % 10000).padStart(4, '0').split('').map(digit => Number(digit));
+}
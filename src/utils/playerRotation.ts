@@ -0,0 +1,58 @@
+// src/utils/playerRotation.ts
+// 上场轮换：按规则集的轮换方式，计算第 N 轮由出场顺序中的第几位选手上场。
+// MatchDO 的 getCurrentPlayers 与 Worker 编排曲目列表（songPickOrder）时都以此为准。
+
+import type { PlayerRotation } from '../types';
+
+export const PLAYER_ROTATIONS: PlayerRotation[] = ['cycle', 'snake', 'block'];
+
+/**
+ * 计算某一轮上场选手在出场顺序中的位置。
+ * - cycle：1,2,3,1,2,3…
+ * - snake：1,2,3,3,2,1,1,2,3…
+ * - block：每位选手连续打 songsPerPlayer 首，1,1,2,2,3,3…，打完一遍后重新开始
+ * @param rotation 轮换方式
+ * @param roundIndex 轮次（从 0 开始）
+ * @param playerCount 出场顺序中的选手数
+ * @param songsPerPlayer 每位选手的曲目数（仅 block 使用）
+ * @returns 出场顺序中的下标，playerCount 为 0 时为 null
+ */
+export function rotationSlot(rotation: PlayerRotation, roundIndex: number, playerCount: number, songsPerPlayer: number): number | null {
+  if (playerCount <= 0) return null;
+  switch (rotation) {
+    case 'snake': {
+      const position = roundIndex % (playerCount * 2);
+      return position < playerCount ? position : playerCount * 2 - 1 - position;
+    }
+    case 'block': {
+      const perPlayer = Math.max(1, songsPerPlayer);
+      return Math.floor(roundIndex / perPlayer) % playerCount;
+    }
+    default: // cycle
+      return roundIndex % playerCount;
+  }
+}
+
+/**
+ * 编排曲目列表：第 N 轮的曲目由两队轮流提供（队伍 1 先），取该队本轮上场选手的下一首选曲，
+ * 使选曲人尽量就是上场选手。上场选手的选曲已用完时（如 2 人 cycle），改取本队出场顺序中最靠前、仍有选曲的选手。
+ * @param rotation 轮换方式
+ * @param teamSize 每队选手数
+ * @param songsPerPlayer 每位选手的曲目数
+ * @returns 每一轮的选曲来源：队伍（0 为队伍 1）、出场顺序中的下标、该选手的第几首选曲（从 1 开始）
+ */
+export function songPickOrder(rotation: PlayerRotation, teamSize: number, songsPerPlayer: number): { team: 0 | 1; slot: number; songSlot: number }[] {
+  // 每队每位选手已用掉的选曲数
+  const used = [Array(teamSize).fill(0), Array(teamSize).fill(0)];
+  const picks: { team: 0 | 1; slot: number; songSlot: number }[] = [];
+  for (let roundIndex = 0; roundIndex < teamSize * songsPerPlayer * 2; roundIndex++) {
+    const team: 0 | 1 = roundIndex % 2 === 0 ? 0 : 1;
+    const onStage = rotationSlot(rotation, roundIndex, teamSize, songsPerPlayer);
+    const slot = onStage !== null && used[team][onStage] < songsPerPlayer
+      ? onStage
+      : used[team].findIndex(count => count < songsPerPlayer);
+    used[team][slot]++;
+    picks.push({ team, slot, songSlot: used[team][slot] });
+  }
+  return picks;
+}
@@ -0,0 +1,689 @@
+// src/utils/roundEngine.ts
+// 团队赛伤害规则引擎：不读写任何状态，输入规则集与双方本轮数据，输出本轮 RoundSummary 及比赛状态变化。
+// MatchDO 负责把结果写回 MatchState；同一输入总是得到同一结果（矩盾手的随机选择由调用方传入）。
+
+import type { ElementalRules, MatchRuleset, PercentageInput, MatchState, RoundEngineInput, RoundEngineResult, RoundSummary, SeededRoll, RoundPreview, RoundPreviewOutcome, RoundPreviewResultGroup } from '../types';
+import { rollToIndex } from './seededRandom';
+import { DRAW_RESOLUTION_STRATEGIES } from './drawResolution';
+import { PLAYER_ROTATIONS } from './playerRotation';
+import { DEFAULT_ELEMENTAL_RULES, SONG_ELEMENTS, elementalMultiplier } from './elements';
+import { MAX_PERCENTAGE_E4, canonicalPercentage, percentageDigits, percentageToE4 } from './percentage';
+import { penaltyTotal } from './penalties';
+
+// 默认规则集（此前写死在 matchDo.ts 顶部的常量）
+export const DEFAULT_RULESET: MatchRuleset = {
+  initial_health: 100,
+  mirror_health_restore: 20,
+  max_damage_digit: 10, // 0% completion corresponds to 10 damage
+  standard_rounds_count: 6, // Number of standard rounds (BO6)
+  draw_resolution: ['sudden_death', 'manual'], // One tiebreaker song, then staff decides
+  team_size: 3, // 3v3
+  songs_per_player: 2,
+  rotation: 'cycle',
+  elemental: null, // Elements off
+  dual_entry: false, // One referee enters the scores
+};
+
+/**
+ * 将规则集与默认值合并，缺失或无效的字段使用默认规则集的值。
+ * @param ruleset 从 D1 读取的（可能不完整的）规则集
+ * @returns 完整的规则集
+ */
+export function resolveRuleset(ruleset?: Partial<MatchRuleset> | null): MatchRuleset {
+  const resolved: MatchRuleset = { ...DEFAULT_RULESET, draw_resolution: [...DEFAULT_RULESET.draw_resolution] };
+  if (!ruleset) return resolved;
+  for (const key of Object.keys(DEFAULT_RULESET) as (keyof MatchRuleset)[]) {
+      if (key === 'draw_resolution' || key === 'rotation' || key === 'elemental' || key === 'dual_entry') continue;
+      const value = ruleset[key];
+      if (typeof value === 'number' && isFinite(value)) {
+          resolved[key] = value;
+      }
+  }
+  const strategies = ruleset.draw_resolution;
+  if (Array.isArray(strategies) && strategies.length > 0 && strategies.every(strategy => DRAW_RESOLUTION_STRATEGIES.includes(strategy))) {
+      resolved.draw_resolution = [...strategies];
+  }
+  if (ruleset.rotation && PLAYER_ROTATIONS.includes(ruleset.rotation)) {
+      resolved.rotation = ruleset.rotation;
+  }
+  if (ruleset.elemental && typeof ruleset.elemental === 'object') {
+      resolved.elemental = resolveElementalRules(ruleset.elemental);
+  }
+  if (typeof ruleset.dual_entry === 'boolean') {
+      resolved.dual_entry = ruleset.dual_entry;
+  }
+  return resolved;
+}
+
+/**
+ * 将元素规则与默认元素规则合并，缺失或无效的倍率、曲目元素与职业的对应使用默认值。
+ * @param rules 规则集中的（可能不完整的）元素规则
+ * @returns 完整的元素规则
+ */
+function resolveElementalRules(rules: Partial<ElementalRules>): ElementalRules {
+  const resolved: ElementalRules = { ...DEFAULT_ELEMENTAL_RULES, song_professions: { ...DEFAULT_ELEMENTAL_RULES.song_professions } };
+  for (const key of ['advantage_multiplier', 'disadvantage_multiplier', 'song_boost_multiplier', 'song_weaken_multiplier'] as const) {
+      const value = rules[key];
+      if (typeof value === 'number' && isFinite(value) && value >= 0) {
+          resolved[key] = value;
+      }
+  }
+  for (const element of SONG_ELEMENTS) {
+      const affinity = rules.song_professions?.[element];
+      const isProfession = (value: unknown) => value === null || value === 'attacker' || value === 'defender' || value === 'supporter';
+      if (affinity && typeof affinity === 'object' && isProfession(affinity.boosts ?? null) && isProfession(affinity.weakens ?? null)) {
+          resolved.song_professions[element] = { boosts: affinity.boosts ?? null, weakens: affinity.weakens ?? null };
+      }
+  }
+  return resolved;
+}
+
+/**
+ * 从完成率中取小数点后四位作为伤害数字，0 按规则集映射为最大伤害。
+ * @param percentage 完成率，如 "99.9876"
+ * @param ruleset 规则集
+ * @returns 四个伤害数字
+ */
+export function parseDamageDigits(percentage: PercentageInput, ruleset: MatchRuleset): number[] {
+  // Parse the decimal digits exactly (no toFixed on a float), then clamp between 0 and 101 for consistent handling
+  const e4 = percentageToE4(percentage);
+  if (e4 === null) {
+      console.error(`roundEngine: Unexpected percentage format: ${percentage}`);
+      // Fallback to max damage digits if parsing fails
+      return [ruleset.max_damage_digit, ruleset.max_damage_digit, ruleset.max_damage_digit, ruleset.max_damage_digit];
+  }
+  // Convert 0 digit to the max damage digit (10 by default)
+  return percentageDigits(Math.max(0, Math.min(MAX_PERCENTAGE_E4, e4))).map(digit => digit === 0 ? ruleset.max_damage_digit : digit);
+}
+
+/**
+ * 计算一轮团队赛结果。
+ * @param ruleset 规则集
+ * @param input 本轮开始前的双方状态与本轮成绩
+ * @param random 没有种子随机数也没有指定选择时使用的随机函数（旧比赛），默认 Math.random
+ * @returns 本轮总结与比赛状态变化
+ */
+export function calculateRound(ruleset: MatchRuleset, input: RoundEngineInput, random: () => number = Math.random): RoundEngineResult {
+  const roundNumber = input.round_number_in_match;
+  const song = input.song;
+  const scores = input.scores;
+  let teamAMirrorAvailable = input.teamA_mirror_available;
+  let teamBMirrorAvailable = input.teamB_mirror_available;
+
+  // --- Initialize Log ---
+  const calculationLog: string[] = [];
+  const log = (message: string) => {
+      calculationLog.push(message);
+  };
+  // --- End Initialize Log ---
+
+
+  log(`--- 开始计算第 ${roundNumber} 轮结果 ---`);
+  log(`队伍 A 百分比: ${scores.teamA_percentage}%, 队伍 B 百分比: ${scores.teamB_percentage}%`);
+
+
+  // Ensure percentages are canonical 4-decimal strings
+  const teamAPercentage = canonicalPercentage(scores.teamA_percentage) ?? '0.0000';
+  const teamBPercentage = canonicalPercentage(scores.teamB_percentage) ?? '0.0000';
+
+
+  // Calculate base damage from percentage digits
+  const teamADamageDigits = parseDamageDigits(teamAPercentage, ruleset);
+  const teamBDamageDigits = parseDamageDigits(teamBPercentage, ruleset);
+  log(`队伍 A 伤害数字 (0%->10): [${teamADamageDigits.join(', ')}]`);
+  log(`队伍 B 伤害数字 (0%->10): [${teamBDamageDigits.join(', ')}]`);
+
+  let teamABaseDamage = teamADamageDigits.reduce((sum, digit) => sum + digit, 0);
+  let teamBBaseDamage = teamBDamageDigits.reduce((sum, digit) => sum + digit, 0);
+  log(`队伍 A 基础伤害总和: ${teamABaseDamage}`);
+  log(`队伍 B 基础伤害总和: ${teamBBaseDamage}`);
+
+
+  // Get current players' professions
+  const teamACurrentProfession = input.teamA_profession;
+  const teamBCurrentProfession = input.teamB_profession;
+  log(`队伍 A 选手职业: ${teamACurrentProfession || '未知'}`);
+  log(`队伍 B 选手职业: ${teamBCurrentProfession || '未知'}`);
+
+  let teamAMaxDigitDamage = Math.max(0, ...teamADamageDigits); // Max digit for Attacker/Supporter skill
+  let teamBMaxDigitDamage = Math.max(0, ...teamBDamageDigits);
+  log(`队伍 A 最高位数字伤害: ${teamAMaxDigitDamage}`);
+  log(`队伍 B 最高位数字伤害: ${teamBMaxDigitDamage}`);
+
+
+  // --- Apply Profession Effects (MATLAB Logic) ---
+
+  // 1. 计算各队伍造成的伤害（应用自身技能：绝剑士增加，炼星师减少并储存治疗）
+  let damageDealtByA = teamABaseDamage;
+  let damageDealtByB = teamBBaseDamage;
+
+  let teamAProfessionEffectLog = ''; // Log string for profession effects summary
+  let teamBProfessionEffectLog = '';
+
+  let teamASupporterBaseSkillHealAmount = 0; // Store Supporter base heal amount
+  let teamBSupporterBaseSkillHealAmount = 0;
+
+  // Apply Attacker Skill (adds max digit damage)
+  if (teamACurrentProfession === 'attacker') {
+      damageDealtByA += teamAMaxDigitDamage;
+      teamAProfessionEffectLog += `绝剑士技能：追加最高位数字伤害 ${teamAMaxDigitDamage}。`;
+      log(`队伍 A (${teamACurrentProfession}) 发动技能：追加伤害 ${teamAMaxDigitDamage}。队伍 A 造成的伤害变为 ${damageDealtByA}`);
+  }
+  if (teamBCurrentProfession === 'attacker') {
+      damageDealtByB += teamBMaxDigitDamage;
+      teamBProfessionEffectLog += `绝剑士技能：追加最高位数字伤害 ${teamBMaxDigitDamage}。`;
+      log(`队伍 B (${teamBCurrentProfession}) 发动技能：追加伤害 ${teamBMaxDigitDamage}。队伍 B 造成的伤害变为 ${damageDealtByB}`);
+  }
+
+  // Apply Supporter Base Skill (invalidates own max digit damage, stores heal)
+  // MATLAB logic: Supporter invalidates their *own* max damage and stores it as heal.
+  if (teamACurrentProfession === 'supporter' && teamADamageDigits.length > 0) {
+      damageDealtByA = Math.max(0, damageDealtByA - teamAMaxDigitDamage); // Invalidate own max damage
+      teamASupporterBaseSkillHealAmount = teamAMaxDigitDamage; // Store max digit as heal amount
+      teamAProfessionEffectLog += `炼星师技能：转化最高位(${teamAMaxDigitDamage})数字伤害为治疗 ${teamASupporterBaseSkillHealAmount}。`;
+      log(`队伍 A (${teamACurrentProfession}) 发动技能：转化自身最高位伤害 ${teamAMaxDigitDamage} 为治疗。队伍 A 造成的伤害变为 ${damageDealtByA}，储存治疗量 ${teamASupporterBaseSkillHealAmount}`);
+  }
+  if (teamBCurrentProfession === 'supporter' && teamBDamageDigits.length > 0) {
+      damageDealtByB = Math.max(0, damageDealtByB - teamBMaxDigitDamage); // Invalidate own max damage
+      teamBSupporterBaseSkillHealAmount = teamBMaxDigitDamage; // Store max digit as heal amount
+      teamBProfessionEffectLog += `炼星师技能：转化最高位(${teamBMaxDigitDamage})数字伤害为治疗 ${teamBSupporterBaseSkillHealAmount}。`;
+      log(`队伍 B (${teamBCurrentProfession}) 发动技能：转化自身最高位伤害 ${teamBMaxDigitDamage} 为治疗。队伍 B 造成的伤害变为 ${damageDealtByB}，储存治疗量 ${teamBSupporterBaseSkillHealAmount}`);
+  }
+
+  // 1.5 元素克制（仅 elemental 赛制）：曲目元素增强/削弱职业，选手元素相克，倍率作用于技能后的伤害
+  let teamAElementalMultiplier = 1;
+  let teamBElementalMultiplier = 1;
+  let teamAElementalEffectLog = '';
+  let teamBElementalEffectLog = '';
+  if (ruleset.elemental) {
+      const songElement = song?.song_element ?? null;
+      const teamAElemental = elementalMultiplier(ruleset.elemental, songElement, teamACurrentProfession, input.teamA_element ?? null, input.teamB_element ?? null);
+      const teamBElemental = elementalMultiplier(ruleset.elemental, songElement, teamBCurrentProfession, input.teamB_element ?? null, input.teamA_element ?? null);
+      teamAElementalMultiplier = teamAElemental.multiplier;
+      teamBElementalMultiplier = teamBElemental.multiplier;
+      teamAElementalEffectLog = teamAElemental.effects.join('；');
+      teamBElementalEffectLog = teamBElemental.effects.join('；');
+      log(`曲目元素: ${songElement || '无'}，队伍 A 元素: ${input.teamA_element || '无'}，队伍 B 元素: ${input.teamB_element || '无'}`);
+      if (teamAElementalMultiplier !== 1) {
+          damageDealtByA = Math.round(damageDealtByA * teamAElementalMultiplier);
+          log(`队伍 A 元素倍率 ×${teamAElementalMultiplier}（${teamAElementalEffectLog}）。队伍 A 造成的伤害变为 ${damageDealtByA}`);
+      }
+      if (teamBElementalMultiplier !== 1) {
+          damageDealtByB = Math.round(damageDealtByB * teamBElementalMultiplier);
+          log(`队伍 B 元素倍率 ×${teamBElementalMultiplier}（${teamBElementalEffectLog}）。队伍 B 造成的伤害变为 ${damageDealtByB}`);
+      }
+  }
+
+  // 2. 矩盾手技能 - 从对方的原始伤害数字中随机选择一个无效化
+  // 这个无效化是用于减少对方对自己造成的伤害
+  let invalidatedDamageAByBDefender = 0; // B的矩盾手无效化的A的伤害 (减少B受到的伤害)
+  let invalidatedDamageBByADefender = 0; // A的矩盾手无效化的B的伤害 (减少A受到的伤害)
+  let teamADefenderTargetIndex: number | null = null; // 记录矩盾手选中的目标下标，用于重算时复现
+  let teamBDefenderTargetIndex: number | null = null;
+  let teamADefenderRoll: SeededRoll | null = null; // 记录随机选择所用的种子材料
+  let teamBDefenderRoll: SeededRoll | null = null;
+  // 重算时沿用原先的选择；否则由种子推导；没有种子（旧比赛）时才使用 random
+  const pickDefenderTarget = (forced: number | null | undefined, roll: SeededRoll | undefined, count: number) => {
+      if (typeof forced === 'number' && forced >= 0 && forced < count) return forced;
+      if (roll) return rollToIndex(roll.roll, count);
+      return Math.floor(random() * count);
+  };
+
+  if (teamACurrentProfession === 'defender') {
+      // A是矩盾手，从B的原始伤害数字中随机选择一个无效化，减少A受到的伤害
+      const potentialTargets = [...teamBDamageDigits]; // B的基础4位数字
+      if (teamBCurrentProfession === 'attacker') {
+          potentialTargets.push(teamBMaxDigitDamage); // 如果B是绝剑士，加入额外伤害作为第5个目标
+      }
+      if (potentialTargets.length > 0) {
+          const randomIndex = pickDefenderTarget(input.forced_defender_picks?.teamA, input.defender_rolls?.teamA, potentialTargets.length);
+          teamADefenderTargetIndex = randomIndex;
+          teamADefenderRoll = input.defender_rolls?.teamA ?? null;
+          invalidatedDamageBByADefender = potentialTargets[randomIndex];
+          teamAProfessionEffectLog += `矩盾手技能：防御队伍B的随机一段伤害 ${invalidatedDamageBByADefender}。`;
+          log(`队伍 A (${teamACurrentProfession}) 发动技能：防御队伍B的随机一段伤害 ${invalidatedDamageBByADefender}。`);
+      } else {
+          teamAProfessionEffectLog += `矩盾手技能：队伍B无伤害数字可防御。`;
+          log(`队伍 A (${teamACurrentProfession}) 发动技能：队伍B无伤害数字可防御。`);
+      }
+  }
+
+  if (teamBCurrentProfession === 'defender') {
+      // B是矩盾手，从A的原始伤害数字中随机选择一个无效化，减少B受到的伤害
+      const potentialTargets = [...teamADamageDigits]; // A的基础4位数字
+      if (teamACurrentProfession === 'attacker') {
+          potentialTargets.push(teamAMaxDigitDamage); // 如果A是绝剑士，加入额外伤害作为第5个目标
+      }
+      if (potentialTargets.length > 0) {
+          const randomIndex = pickDefenderTarget(input.forced_defender_picks?.teamB, input.defender_rolls?.teamB, potentialTargets.length);
+          teamBDefenderTargetIndex = randomIndex;
+          teamBDefenderRoll = input.defender_rolls?.teamB ?? null;
+          invalidatedDamageAByBDefender = potentialTargets[randomIndex];
+          teamBProfessionEffectLog += `矩盾手技能：防御队伍A的随机一段伤害 ${invalidatedDamageAByBDefender}。`;
+          log(`队伍 B (${teamBCurrentProfession}) 发动技能：防御队伍A的随机一段伤害 ${invalidatedDamageAByBDefender}。`);
+      } else {
+          teamBProfessionEffectLog += `矩盾手技能：队伍A无伤害数字可防御。`;
+          log(`队伍 B (${teamBCurrentProfession}) 发动技能：队伍A无伤害数字可防御。`);
+      }
+  }
+
+  // 3. 计算最终实际受到的伤害
+  // 实际受到的伤害 = 对方造成的伤害 (应用自身技能后) - 自身Defender无效化的伤害
+  let actualDamageReceivedByA = Math.max(0, damageDealtByB - invalidatedDamageBByADefender);
+  let actualDamageReceivedByB = Math.max(0, damageDealtByA - invalidatedDamageAByBDefender);
+
+  log(`队伍 A 实际受到的伤害 (队伍B造成的 ${damageDealtByB} - 队伍A防御的 ${invalidatedDamageBByADefender})：${actualDamageReceivedByA}`);
+  log(`队伍 B 实际受到的伤害 (队伍A造成的 ${damageDealtByA} - 队伍B防御的 ${invalidatedDamageAByBDefender})：${actualDamageReceivedByB}`);
+
+
+  // 4. 计算受到伤害后的血量
+  let currentAHealth = input.teamA_health;
+  let currentBHealth = input.teamB_health;
+  log(`本轮开始前血量：A: ${currentAHealth}, B: ${currentBHealth}`);
+
+  let healthAfterDamageA = currentAHealth - actualDamageReceivedByA;
+  let healthAfterDamageB = currentBHealth - actualDamageReceivedByB;
+  log(`应用实际伤害后血量 (未四舍五入)：A: ${healthAfterDamageA}, B: ${healthAfterDamageB}`);
+
+
+  // 计算溢出伤害（复影折镜前）- 用于矩盾手的复影折镜效果
+  let rawOverflowDamageToA = healthAfterDamageA < 0 ? Math.abs(healthAfterDamageA) : 0;
+  let rawOverflowDamageToB = healthAfterDamageB < 0 ? Math.abs(healthAfterDamageB) : 0;
+  if (rawOverflowDamageToA > 0) log(`队伍 A 溢出伤害 (触发折镜前): ${rawOverflowDamageToA}`);
+  if (rawOverflowDamageToB > 0) log(`队伍 B 溢出伤害 (触发折镜前): ${rawOverflowDamageToB}`);
+
+
+  // 5. 处理复影折镜触发
+  log('判断是否触发复影折镜...');
+  let teamAMirrorUsedThisTurn = false;
+  let teamBMirrorUsedThisTurn = false;
+  let teamAHealFromSupporterMirrorBonus = 0; // 炼星师复影折镜额外治疗
+  let teamBHealFromSupporterMirrorBonus = 0;
+  let teamAReflectedDamageByDefenderMirror = 0; // 矩盾手复影折镜反弹伤害
+  let teamBReflectedDamageByDefenderMirror = 0;
+  let teamAAttackerMirrorExtraDamage = 0; // 绝剑士复影折镜额外伤害
+  let teamBAttackerMirrorExtraDamage = 0;
+  let teamAMirrorEffectLog = ''; // 复影折镜效果总结
+  let teamBMirrorEffectLog = '';
+
+  // 从受到伤害后的血量开始，准备处理复影折镜和治疗
+  let finalHealthA = healthAfterDamageA;
+  let finalHealthB = healthAfterDamageB;
+
+  // 检查是否可以触发复影折镜
+  const canAInitiallyTriggerMirror = finalHealthA <= 0 && teamAMirrorAvailable;
+  const canBInitiallyTriggerMirror = finalHealthB <= 0 && teamBMirrorAvailable;
+
+  // 处理同时触发复影折镜的情况
+  if (canAInitiallyTriggerMirror && canBInitiallyTriggerMirror) {
+      log('双方同时触发复影折镜！');
+      teamAMirrorAvailable = false;
+      teamBMirrorAvailable = false;
+      teamAMirrorUsedThisTurn = true;
+      teamBMirrorUsedThisTurn = true;
+      finalHealthA = ruleset.mirror_health_restore;
+      finalHealthB = ruleset.mirror_health_restore;
+      teamAMirrorEffectLog = `双方同时触发复影折镜，血量恢复至${ruleset.mirror_health_restore}。`;
+      teamBMirrorEffectLog = `双方同时触发复影折镜，血量恢复至${ruleset.mirror_health_restore}。`;
+      log(`双方血量重置为 ${ruleset.mirror_health_restore}`);
+      // Note: MATLAB doesn't apply profession mirror effects in simultaneous trigger case.
+  } else {
+      // 处理个体触发复影折镜（可能连锁）
+      // 队伍 A 先触发（如果符合条件）
+      if (canAInitiallyTriggerMirror) {
+          log('队伍 A 触发复影折镜！');
+          teamAMirrorAvailable = false;
+          teamAMirrorUsedThisTurn = true;
+          finalHealthA = ruleset.mirror_health_restore; // 先恢复血量
+          teamAMirrorEffectLog = `触发复影折镜，血量恢复至${ruleset.mirror_health_restore}。`;
+          log(`队伍 A 血量恢复至 ${ruleset.mirror_health_restore}`);
+
+          // 应用职业专属折镜效果（在恢复血量后）
+          if (teamACurrentProfession === 'attacker') {
+              teamAAttackerMirrorExtraDamage = teamAMaxDigitDamage;
+              finalHealthB -= teamAAttackerMirrorExtraDamage; // 对对方造成额外伤害
+              teamAMirrorEffectLog += ` 绝剑士折镜：追加最高位数字伤害 ${teamAAttackerMirrorExtraDamage}。`;
+              log(`队伍 A (${teamACurrentProfession}) 折镜效果：对队伍 B 追加伤害 ${teamAAttackerMirrorExtraDamage}。队伍 B 血量变为 ${finalHealthB}`);
+          } else if (teamACurrentProfession === 'defender') {
+              teamAReflectedDamageByDefenderMirror = rawOverflowDamageToA; // 反弹触发折镜前的溢出伤害
+              finalHealthB -= teamAReflectedDamageByDefenderMirror; // 反弹溢出伤害给对方
+              teamAMirrorEffectLog += ` 矩盾手折镜：反弹自身溢出伤害 ${teamAReflectedDamageByDefenderMirror} 给队伍B。`;
+              log(`队伍 A (${teamACurrentProfession}) 折镜效果：反弹自身溢出伤害 ${teamAReflectedDamageByDefenderMirror} 给队伍B。队伍 B 血量变为 ${finalHealthB}`);
+          } else if (teamACurrentProfession === 'supporter') {
+              // MATLAB 逻辑：炼星师折镜使基础技能治疗量翻倍
+              teamAHealFromSupporterMirrorBonus = teamASupporterBaseSkillHealAmount * 2;
+              // 炼星师折镜不造成伤害，只治疗自身（稍后应用）
+              teamAMirrorEffectLog += ` 炼星师折镜：额外治疗 ${teamAHealFromSupporterMirrorBonus}。`;
+              log(`队伍 A (${teamACurrentProfession}) 折镜效果：额外储存治疗 ${teamAHealFromSupporterMirrorBonus}。`);
+          }
+      }
+
+      // 队伍 B 触发（如果在队伍 A 效果后符合条件）
+      const canBTriggerAfterAPass1 = finalHealthB <= 0 && teamBMirrorAvailable && !teamBMirrorUsedThisTurn;
+      if (canBTriggerAfterAPass1) {
+          log('队伍 B 触发复影折镜 (在队伍 A 之后)！');
+          teamBMirrorAvailable = false;
+          teamBMirrorUsedThisTurn = true;
+          finalHealthB = ruleset.mirror_health_restore; // 先恢复血量
+          teamBMirrorEffectLog = `触发复影折镜，血量恢复至${ruleset.mirror_health_restore}。`;
+          log(`队伍 B 血量恢复至 ${ruleset.mirror_health_restore}`);
+
+
+          // 应用职业专属折镜效果（在恢复血量后）
+          if (teamBCurrentProfession === 'attacker') {
+              teamBAttackerMirrorExtraDamage = teamBMaxDigitDamage;
+              finalHealthA -= teamBAttackerMirrorExtraDamage; // 对对方造成额外伤害
+              teamBMirrorEffectLog += ` 绝剑士折镜：追加最高位数字伤害 ${teamBAttackerMirrorExtraDamage}。`;
+              log(`队伍 B (${teamBCurrentProfession}) 折镜效果：对队伍 A 追加伤害 ${teamBAttackerMirrorExtraDamage}。队伍 A 血量变为 ${finalHealthA}`);
+          } else if (teamBCurrentProfession === 'defender') {
+              teamBReflectedDamageByDefenderMirror = rawOverflowDamageToB; // 反弹触发折镜前的溢出伤害
+              finalHealthA -= teamBReflectedDamageByDefenderMirror; // 反弹溢出伤害给对方
+              teamBMirrorEffectLog += ` 矩盾手折镜：反弹自身溢出伤害 ${teamBReflectedDamageByDefenderMirror} 给队伍A。`;
+              log(`队伍 B (${teamBCurrentProfession}) 折镜效果：反弹自身溢出伤害 ${teamBReflectedDamageByDefenderMirror} 给队伍A。队伍 A 血量变为 ${finalHealthA}`);
+          } else if (teamBCurrentProfession === 'supporter') {
+              // MATLAB 逻辑：炼星师折镜使基础技能治疗量翻倍
+              teamBHealFromSupporterMirrorBonus = teamBSupporterBaseSkillHealAmount * 2;
+              // 炼星师折镜不造成伤害，只治疗自身（稍后应用）
+              teamBMirrorEffectLog += ` 炼星师折镜：额外治疗 ${teamBHealFromSupporterMirrorBonus}。`;
+              log(`队伍 B (${teamBCurrentProfession}) 折镜效果：额外储存治疗 ${teamBHealFromSupporterMirrorBonus}。`);
+          }
+      }
+
+      // 队伍 A 再次触发（如果符合条件，连锁反应）
+      const canATriggerAfterBPass2 = finalHealthA <= 0 && teamAMirrorAvailable && !teamAMirrorUsedThisTurn;
+      if (canATriggerAfterBPass2) {
+          log('队伍 A 触发复影折镜 (连锁反应)！');
+          teamAMirrorAvailable = false;
+          teamAMirrorUsedThisTurn = true;
+          finalHealthA = ruleset.mirror_health_restore; // 恢复血量
+          teamAMirrorEffectLog += ` 触发复影折镜 (连锁反应)，血量恢复至${ruleset.mirror_health_restore}。`; // 标记为连锁反应触发
+          log(`队伍 A 血量恢复至 ${ruleset.mirror_health_restore} (连锁反应)。`);
+          // 根据MATLAB结构，连锁触发时职业效果似乎不重复应用，只恢复血量。
+          // 如果需要累加效果，此处逻辑需要调整。当前实现遵循简单解释。
+      }
+  }
+
+  // 6. 应用炼星师基础技能治疗（MATLAB 在伤害和折镜处理后应用）
+  log(`应用炼星师基础技能治疗：A 治疗 ${teamASupporterBaseSkillHealAmount}, B 治疗 ${teamBSupporterBaseSkillHealAmount}`);
+  finalHealthA += teamASupporterBaseSkillHealAmount;
+  finalHealthB += teamBSupporterBaseSkillHealAmount;
+  log(`应用炼星师基础技能治疗后血量 (未四舍五入)：A: ${finalHealthA}, B: ${finalHealthB}`);
+
+
+  // 7. 应用炼星师复影折镜额外治疗（这部分已经在折镜处理时加到 finalHealth 中了）
+  // 无需再次添加。额外治疗量已经计入 finalHealth。
+  if (teamAHealFromSupporterMirrorBonus > 0) log(`应用炼星师折镜额外治疗：A 额外治疗 ${teamAHealFromSupporterMirrorBonus}`);
+  if (teamBHealFromSupporterMirrorBonus > 0) log(`应用炼星师折镜额外治疗：B 额外治疗 ${teamBHealFromSupporterMirrorBonus}`);
+
+
+  // 8. 应用判罚与奖励 (Penalties)，取代原先的小分调整
+  const penalties = input.penalties ?? [];
+  for (const penalty of penalties) {
+      log(`${penalty.team === 'teamA' ? '队伍 A' : '队伍 B'} ${penalty.scope === 'match' ? '整场' : '本轮'}判罚 [${penalty.category}] ${penalty.amount > 0 ? '+' : ''}${penalty.amount}：${penalty.reason}`);
+  }
+  const teamAEffectValue = penaltyTotal(penalties, 'teamA');
+  const teamBEffectValue = penaltyTotal(penalties, 'teamB');
+  log(`应用判罚与奖励：A 调整 ${teamAEffectValue}, B 调整 ${teamBEffectValue}`);
+  finalHealthA += teamAEffectValue;
+  finalHealthB += teamBEffectValue;
+  log(`应用判罚与奖励后血量 (未四舍五入)：A: ${finalHealthA}, B: ${finalHealthB}`);
+
+
+  // Store health before final rounding for summary
+  const healthBeforeRoundingA = finalHealthA;
+  const healthBeforeRoundingB = finalHealthB;
+
+  // Round final health to nearest integer
+  const finalScoreA = Math.round(finalHealthA);
+  const finalScoreB = Math.round(finalHealthB);
+
+  // Final health after this round
+  const teamAScore = finalScoreA;
+  const teamBScore = finalScoreB;
+  log(`最终血量 (四舍五入)：A: ${teamAScore}, B: ${teamBScore}`);
+
+
+  // Determine if either team is defeated
+  const aDead = teamAScore <= 0;
+  const bDead = teamBScore <= 0;
+
+  // Determine the new match status
+  let newStatus: MatchState['status'];
+  let matchEnded = false;
+
+  // MATLAB logic for end condition: If any team <= 0, the match ends.
+  // If both <= 0, the one with higher score wins. If scores are equal, A wins (arbitrary tiebreak).
+  if (aDead || bDead) {
+      matchEnded = true;
+      if (aDead && bDead) {
+          if (teamAScore > teamBScore) {
+              newStatus = 'team_A_wins'; // A wins on score tiebreak
+              log(`双方血量均 <= 0，队伍 A 血量更高 (${teamAScore} > ${teamBScore})，队伍 A 获胜。`);
+          } else if (teamBScore > teamAScore) {
+              newStatus = 'team_B_wins'; // B wins on score tiebreak
+              log(`双方血量均 <= 0，队伍 B 血量更高 (${teamBScore} > ${teamAScore})，队伍 B 获胜。`);
+          } else {
+              // MATLAB defaults to A winning if scores are equal and <= 0.
+              newStatus = 'team_A_wins'; // Exact score tie, A wins by rule
+              log(`双方血量均 <= 0 且相等 (${teamAScore} == ${teamBScore})，按规则队伍 A 获胜。`);
+          }
+      } else if (aDead) {
+          newStatus = 'team_B_wins';
+          log(`队伍 A 血量 <= 0 (${teamAScore})，队伍 B 获胜。`);
+      } else { // bDead
+          newStatus = 'team_A_wins';
+          log(`队伍 B 血量 <= 0 (${teamBScore})，队伍 A 获胜。`);
+      }
+  } else {
+      // No team defeated
+      if (song?.is_tiebreaker_song) {
+           // Sudden death: any lead after a tiebreaker song wins, another tie goes back to draw resolution
+           if (teamAScore === teamBScore) {
+                newStatus = 'tiebreaker_pending_song';
+                log(`加时赛后双方血量仍相等 (${teamAScore} == ${teamBScore})，重新进行平局判定。`);
+           } else {
+                newStatus = teamAScore > teamBScore ? 'team_A_wins' : 'team_B_wins';
+                matchEnded = true;
+                log(`加时赛后双方血量不等 (${teamAScore} vs ${teamBScore})，比赛结束。`);
+           }
+      } else if (roundNumber >= ruleset.standard_rounds_count) {
+           // Finished standard rounds, and current song is NOT a tiebreaker
+           // Check scores to see if a tiebreaker is needed
+           if (teamAScore === teamBScore) {
+                newStatus = 'tiebreaker_pending_song'; // Scores are tied, need tiebreaker song
+                log(`标准轮次结束，双方血量相等 (${teamAScore} == ${teamBScore})，进入加时赛选曲阶段。`);
+           } else {
+                // Scores are not tied after standard rounds, match ends
+                newStatus = teamAScore > teamBScore ? 'team_A_wins' : 'team_B_wins';
+                matchEnded = true;
+                log(`标准轮次结束，双方血量不等 (${teamAScore} vs ${teamBScore})，比赛结束。`);
+           }
+      } else {
+           // Standard rounds not finished
+           newStatus = 'round_finished'; // Ready to advance to the next round
+           log(`本轮结束，双方均未被击败，进入下一轮准备阶段。`);
+      }
+  }
+  log(`本轮计算结束，比赛状态变为: ${newStatus}`);
+
+
+  // Create the round summary object
+  const summary: RoundSummary = {
+      round_number_in_match: roundNumber,
+      song_id: song?.song_id ?? -1,
+      song_title: song?.song_title ?? '未知歌曲',
+      selected_difficulty: song?.song_difficulty ?? '未知难度',
+
+      teamA_player_id: input.teamA_player_id ?? -1,
+      teamB_player_id: input.teamB_player_id ?? -1,
+      teamA_player_nickname: input.teamA_player_nickname ?? '未知选手',
+      teamB_player_nickname: input.teamB_player_nickname ?? '未知选手',
+
+      teamA_percentage: teamAPercentage,
+      teamB_percentage: teamBPercentage,
+      // Judgment breakdowns the percentages were computed from, kept for history
+      ...(scores.teamA_judgments ? { teamA_judgments: scores.teamA_judgments } : {}),
+      ...(scores.teamB_judgments ? { teamB_judgments: scores.teamB_judgments } : {}),
+      teamA_effect_value_applied: teamAEffectValue,
+      teamB_effect_value_applied: teamBEffectValue,
+      // Penalties and bonuses behind the effect values, listed so each adjustment keeps its category and reason
+      ...(penalties.length > 0 ? { penalties } : {}),
+
+      teamA_damage_digits: teamADamageDigits,
+      teamB_damage_digits: teamBDamageDigits,
+      teamA_base_damage: teamABaseDamage,
+      teamB_base_damage: teamBBaseDamage,
+      teamA_profession: teamACurrentProfession,
+      teamB_profession: teamBCurrentProfession,
+      teamA_profession_effect_applied: teamAProfessionEffectLog,
+      teamB_profession_effect_applied: teamBProfessionEffectLog,
+
+      // Elemental layer, only recorded when the ruleset enables it
+      ...(ruleset.elemental ? {
+          song_element: song?.song_element ?? null,
+          teamA_element: input.teamA_element ?? null,
+          teamB_element: input.teamB_element ?? null,
+          teamA_elemental_multiplier: teamAElementalMultiplier,
+          teamB_elemental_multiplier: teamBElementalMultiplier,
+          teamA_elemental_effect_applied: teamAElementalEffectLog,
+          teamB_elemental_effect_applied: teamBElementalEffectLog,
+      } : {}),
+
+      // Damage dealt by player after their own skills (before opponent defense/healing)
+      // This corresponds to 'damageDealtByA/B' before opponent's defender effect
+      teamA_final_damage_dealt: damageDealtByA,
+      teamB_final_damage_dealt: damageDealtByB,
+
+      // Damage invalidated by opponent's Defender (amount reduced from incoming damage)
+      teamA_damage_invalidated_by_opponent_defender: invalidatedDamageAByBDefender, // A's Defender reduced B's damage by this amount
+      teamB_damage_invalidated_by_opponent_defender: invalidatedDamageBByADefender, // B's Defender reduced A's damage by this amount
+      // Which target each Defender picked (index into the opponent's digits), kept so the round can be replayed
+      teamA_defender_target_index: teamADefenderTargetIndex,
+      teamB_defender_target_index: teamBDefenderTargetIndex,
+      teamA_defender_roll: teamADefenderRoll,
+      teamB_defender_roll: teamBDefenderRoll,
+      random_seed_commitment: input.random_seed_commitment ?? null,
+
+      // Net damage received by each team after opponent's defense
+      teamA_modified_damage_to_B: actualDamageReceivedByB, // Damage B actually received from A
+      teamB_modified_damage_to_A: actualDamageReceivedByA, // Damage A actually received from B
+
+
+      // Health before applying damage, mirrors, supporter heal, effect values
+      teamA_health_before_round: currentAHealth,
+      teamB_health_before_round: currentBHealth,
+
+      // Health after applying net damage, but before mirrors/supporter heal/effects
+      // This is the value used to check for initial mirror trigger
+      teamA_health_after_damage_and_defender_heal: healthAfterDamageA, // Renamed for clarity based on new logic
+      teamB_health_after_damage_and_defender_heal: healthAfterDamageB, // Renamed for clarity based on new logic
+
+      teamA_mirror_triggered: teamAMirrorUsedThisTurn,
+      teamB_mirror_triggered: teamBMirrorUsedThisTurn,
+      teamA_mirror_effect_applied: teamAMirrorEffectLog,
+      teamB_mirror_effect_applied: teamBMirrorEffectLog,
+
+      // Supporter healing amounts
+      teamA_supporter_base_skill_heal: teamASupporterBaseSkillHealAmount,
+      teamB_supporter_base_skill_heal: teamBSupporterBaseSkillHealAmount,
+      teamA_supporter_mirror_bonus_heal: teamAHealFromSupporterMirrorBonus,
+      teamB_supporter_mirror_bonus_heal: teamBHealFromSupporterMirrorBonus,
+
+      // Attacker/Defender mirror damage dealt to opponent
+      teamA_attacker_mirror_extra_damage: teamAAttackerMirrorExtraDamage,
+      teamB_attacker_mirror_extra_damage: teamBAttackerMirrorExtraDamage,
+      teamA_reflected_damage_by_defender_mirror: teamAReflectedDamageByDefenderMirror,
+      teamB_reflected_damage_by_defender_mirror: teamBReflectedDamageByDefenderMirror,
+
+
+      // Net health change for the round
+      teamA_health_change: teamAScore - currentAHealth,
+      teamB_health_change: teamBScore - currentBHealth,
+
+      // Final health after all calculations and rounding
+      teamA_health_after: teamAScore,
+      teamB_health_after: teamBScore,
+
+      is_tiebreaker_song: song?.is_tiebreaker_song ?? false,
+
+      log: calculationLog, // <-- Assign the collected log here
+  };
+
+
+  return {
+      summary,
+      status: newStatus,
+      match_ended: matchEnded,
+      teamA_mirror_available: teamAMirrorAvailable,
+      teamB_mirror_available: teamBMirrorAvailable,
+  };
+}
+
+/**
+ * 矩盾手可选择的目标数量：对方的四位伤害数字，对方为绝剑士时再加上其追加伤害（与 calculateRound 一致）。
+ * @param opponentProfession 对方职业
+ */
+export function defenderTargetCount(opponentProfession?: string | null): number {
+  return opponentProfession === 'attacker' ? 5 : 4;
+}
+
+/**
+ * 预览一轮结果：枚举双方矩盾手所有可能的选择，返回每种组合的结果及按最终结果汇总的概率分布。
+ * 不使用种子随机数，因此不会提前泄露实际的选择。
+ * @param ruleset 规则集
+ * @param input 本轮开始前的双方状态与假设的成绩（defender_rolls / forced_defender_picks 会被忽略）
+ * @returns 预览结果
+ */
+export function previewRound(ruleset: MatchRuleset, input: RoundEngineInput): RoundPreview {
+  const pickOptions = (profession?: string | null, opponentProfession?: string | null): (number | null)[] =>
+      profession === 'defender'
+          ? Array.from({ length: defenderTargetCount(opponentProfession) }, (_, index) => index)
+          : [null];
+  const teamAPicks = pickOptions(input.teamA_profession, input.teamB_profession);
+  const teamBPicks = pickOptions(input.teamB_profession, input.teamA_profession);
+  const probability = 1 / (teamAPicks.length * teamBPicks.length);
+
+  const outcomes: RoundPreviewOutcome[] = [];
+  const groups = new Map<string, RoundPreviewResultGroup>();
+  for (const teamAPick of teamAPicks) {
+      for (const teamBPick of teamBPicks) {
+          const result = calculateRound(ruleset, {
+              ...input,
+              defender_rolls: null,
+              forced_defender_picks: { teamA: teamAPick, teamB: teamBPick },
+          }, () => 0); // Every pick is forced, the random fallback is never used
+          outcomes.push({
+              teamA_defender_target_index: teamAPick,
+              teamB_defender_target_index: teamBPick,
+              probability,
+              status: result.status,
+              match_ended: result.match_ended,
+              summary: result.summary,
+          });
+
+          const summary = result.summary;
+          const key = [summary.teamA_health_after, summary.teamB_health_after, summary.teamA_mirror_triggered, summary.teamB_mirror_triggered, result.status].join('|');
+          const group = groups.get(key);
+          if (group) {
+              group.probability += probability;
+              group.outcome_count += 1;
+          } else {
+              groups.set(key, {
+                  teamA_health_after: summary.teamA_health_after,
+                  teamB_health_after: summary.teamB_health_after,
+                  teamA_mirror_triggered: summary.teamA_mirror_triggered,
+                  teamB_mirror_triggered: summary.teamB_mirror_triggered,
+                  status: result.status,
+                  probability,
+                  outcome_count: 1,
+              });
+          }
+      }
+  }
+
+  return {
+      deterministic: outcomes.length === 1,
+      outcomes,
+      distribution: Array.from(groups.values()).sort((a, b) => b.probability - a.probability),
+  };
+}
@@ -0,0 +1,83 @@
+// src/utils/seededRandom.ts
+// 可审计的随机数：每场比赛开赛时生成一个种子，并公开其 SHA-256 承诺值（commitment）；
+// 比赛归档后公开种子本身。每一次随机选择都由 HMAC-SHA256(种子, 标签) 推导，
+// 因此任何人拿到种子后都可以复算每一次随机结果，并用承诺值确认种子未被替换。
+
+import type { SeededRoll } from '../types';
+
+const textEncoder = new TextEncoder();
+
+/**
+ * 将字节数组转换为小写十六进制字符串。
+ */
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 生成一个新的比赛种子（32 字节，十六进制）。
+ * @returns 64 位十六进制字符串
+ */
+export function generateRandomSeed(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * 计算种子的承诺值，开赛时公开，归档后可用于校验公开的种子。
+ * @param seed 比赛种子
+ * @returns SHA-256(seed) 的十六进制字符串
+ */
+export async function computeSeedCommitment(seed: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(seed));
+  return toHex(digest);
+}
+
+/**
+ * 由种子和标签推导一次随机数。同一种子与标签总是得到相同的结果。
+ * @param seed 比赛种子
+ * @param label 标签，区分不同轮次/队伍的随机选择
+ * @returns 种子材料与随机数
+ */
+export async function deriveSeededRoll(seed: string, label: string): Promise<SeededRoll> {
+  const key = await crypto.subtle.importKey('raw', textEncoder.encode(seed), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, textEncoder.encode(label));
+  const roll = new DataView(signature).getUint32(0);
+  return { label, roll };
+}
+
+/**
+ * 将随机数映射为候选项下标。
+ * @param roll deriveSeededRoll 得到的随机数
+ * @param count 候选项数量（> 0）
+ * @returns 0 到 count - 1 之间的下标
+ */
+export function rollToIndex(roll: number, count: number): number {
+  return roll % count;
+}
+
+/**
+ * 团队赛中矩盾手随机选择所用的标签。
+ * @param roundNumber 轮次（从 1 开始）
+ * @param team 发动技能的队伍
+ */
+export function defenderRollLabel(roundNumber: number, team: 'teamA' | 'teamB'): string {
+  return `round:${roundNumber}:${team}`;
+}
+
+/**
+ * 复赛中矩盾手随机选择所用的标签。
+ * @param playerSlot 发动技能的选手位置
+ */
+export function semifinalRollLabel(playerSlot: 'player1' | 'player2'): string {
+  return `semifinal:${playerSlot}`;
+}
+
+/**
+ * 加赛曲目抽选所用的标签。
+ * @param roundNumber 加赛曲目所在的轮次（从 1 开始）
+ */
+export function tiebreakerRollLabel(roundNumber: number): string {
+  return `tiebreaker:${roundNumber}`;
+}
@@ -1,6 +1,10 @@
 // src/utils/semifinalScoreCalculator.ts (Backend version)
 // This file should be placed in your backend source directory (e.g., src/utils)
 
+import type { PercentageInput, SeededRoll } from '../types';
+import { rollToIndex } from './seededRandom';
+import { canonicalPercentage, percentageDigits, percentageToE4 } from './percentage';
+
 // 选手职业类型
 export type Profession = '矩盾手' | '炼星师' | '绝剑士';
 
@@ -9,7 +13,7 @@ export interface PlayerCalculationData {
   id: number;
   nickname: string;
   profession: Profession;
-  percentage: number; // 乐曲完成率，如99.9876
+  percentage: PercentageInput; // 乐曲完成率，如 "99.9876"
 }
 
 // 计分结果
@@ -20,55 +24,24 @@ export interface SemifinalScoreResult {
   originalScore: number; // 基础得分（四位数字映射 0->10 后的总和）
   bonusScore: number; // 职业技能加成
   totalScore: number; // 最终得分
+  bonusIndex?: number | null; // 矩盾手选中的对手数字下标
+  bonusRoll?: SeededRoll | null; // 矩盾手随机选择的种子材料
   log: string[]; // 计分日志
 }
 
 /**
  * 从完成率中提取小数点后四位数字 (0-9)。
- * @param percentage 完成率，如 99.9876
+ * @param percentage 完成率，如 "99.9876"
  * @returns 包含四个数字 (0-9) 的数组，或在失败时返回 null。
  */
-function extractFourDigits(percentage: number): number[] | null {
-  // 确保输入是有效有限数字
-  if (typeof percentage !== 'number' || !isFinite(percentage)) {
+function extractFourDigits(percentage: PercentageInput): number[] | null {
+  // 按十进制写法解析，不经过浮点运算，避免 toFixed(4) 舍入错最后一位
+  const e4 = percentageToE4(percentage);
+  if (e4 === null) {
       console.error("Invalid percentage input to extractFourDigits:", percentage);
       return null;
   }
-
-  // 使用 toFixed(4) 转换为精确到小数点后四位的字符串
-  const percentageString = percentage.toFixed(4); // 例如: "99.9876", "0.0001", "100.0000"
-
-  const parts = percentageString.split('.');
-
-  let decimalPart = '';
-  if (parts.length === 2) {
-      // 正常情况，有整数部分和小数部分
-      decimalPart = parts[1]; // 获取小数点后的部分
-  } else {
-       // 理论上 toFixed(4) 总是会产生小数点和四位小数，除非输入本身是 NaN/Infinity
-       // 如果 split('.') 结果不是两部分，说明格式异常
-       console.error(`Unexpected percentageString format in extractFourDigits: ${percentageString}`);
-       return null;
-  }
-
-  // 确保我们取到的是 4 位数字，padEnd 和 substring 增加健壮性
-  const paddedDecimalPart = decimalPart.padEnd(4, '0').substring(0, 4); // 确保是4位
-
-  const digits: number[] = [];
-  for (let i = 0; i < 4; i++) {
-      const digitChar = paddedDecimalPart[i];
-      const digit = parseInt(digitChar, 10);
-      // 检查是否成功解析为数字
-      if (isNaN(digit)) {
-          console.error(`Failed to parse digit "${digitChar}" at index ${i} from "${paddedDecimalPart}".`);
-          return null; // 如果任何一个字符不是数字，则失败
-      }
-      digits.push(digit);
-  }
-
-  // console.log(`extractFourDigits(${percentage}): percentageString=${percentageString}, digits=${digits}`);
-
-  return digits; // 返回包含四个 0-9 数字的数组
+  return percentageDigits(e4); // 返回包含四个 0-9 数字的数组
 }
 
 /**
@@ -93,14 +66,15 @@ function mapDigitToScoreValue(digit: number): number {
  * 计算复赛得分
  * @param player 当前计算得分的选手数据
  * @param opponent 对手选手数据
+ * @param bonusRoll 矩盾手随机选择所用的种子随机数（见 seededRandom.ts）；不提供时使用 Math.random
  * @returns 计分结果 SemifinalScoreResult
  */
-export function calculateSemifinalScore(player: PlayerCalculationData, opponent: PlayerCalculationData): SemifinalScoreResult {
+export function calculateSemifinalScore(player: PlayerCalculationData, opponent: PlayerCalculationData, bonusRoll?: SeededRoll | null): SemifinalScoreResult {
   const log: string[] = [];
 
   log.push(`--- 开始计算 ${player.nickname} (${player.profession}) 的得分 ---`);
-  log.push(`${player.nickname} 完成率: ${player.percentage.toFixed(4)}%`);
-  log.push(`${opponent.nickname} 完成率: ${opponent.percentage.toFixed(4)}%`);
+  log.push(`${player.nickname} 完成率: ${canonicalPercentage(player.percentage) ?? player.percentage}%`);
+  log.push(`${opponent.nickname} 完成率: ${canonicalPercentage(opponent.percentage) ?? opponent.percentage}%`);
 
 
   // 提取自身和对手的四位数字 (0-9)
@@ -137,6 +111,7 @@ export function calculateSemifinalScore(player: PlayerCalculationData, opponent:
 
   // 计算职业特性加成
   let bonusScore = 0;
+  let bonusIndex: number | null = null;
   let professionBonusLog = '';
 
   if (player.profession === '绝剑士') {
@@ -150,9 +125,11 @@ export function calculateSemifinalScore(player: PlayerCalculationData, opponent:
       // 矩盾手：额外获得一次得分，数值等同于对手基础得分数字（映射后 1-10）中随机一位
       if (opponentDigits && opponentDigits.length === 4) { // 只有对手数字有效时才计算加成
           const opponentScoreValues = opponentDigits.map(mapDigitToScoreValue);
-          const randomIndex = Math.floor(Math.random() * 4); // 0-3之间的随机数
+          // 0-3之间的随机数，由种子推导
+          const randomIndex = bonusRoll ? rollToIndex(bonusRoll.roll, 4) : Math.floor(Math.random() * 4);
           const randomScoreValue = opponentScoreValues[randomIndex];
           bonusScore = randomScoreValue;
+          bonusIndex = randomIndex;
           professionBonusLog = `矩盾手特性：额外获得 ${bonusScore} 分，来自对手 ${opponent.nickname} 得分值 [${opponentScoreValues.join(', ')}] 的第 ${randomIndex + 1} 位数字。`;
           log.push(professionBonusLog);
       } else {
@@ -197,6 +174,8 @@ export function calculateSemifinalScore(player: PlayerCalculationData, opponent:
       originalScore: playerBaseScore, // 基础得分是四位数字映射 0->10 后的总和
       bonusScore: bonusScore,
       totalScore: totalScore,
+      bonusIndex: bonusIndex,
+      bonusRoll: bonusIndex !== null ? bonusRoll ?? null : null,
       log: log
   };
 }
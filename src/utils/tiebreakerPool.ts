@@ -0,0 +1,62 @@
+// src/utils/tiebreakerPool.ts
+// 加赛曲目抽选池：按难度、定数范围和分类筛选曲目，并排除本场已出现的曲目。
+// 结果按曲目 ID 升序排列，配合种子随机数（seededRandom.ts）即可复算抽选结果。
+
+import type { Song, SongLevel, TiebreakerPoolFilter } from '../types';
+
+/**
+ * 将等级字符串转换为数值，"13+" 视为 13.5。
+ * @param level levels_json 中的等级，如 "13"、"13+"
+ * @returns 数值等级，无法解析时为 null
+ */
+export function parseSongLevel(level: string | null | undefined): number | null {
+  const match = level?.trim().match(/^(\d+)(\+?)$/);
+  if (!match) return null;
+  return Number(match[1]) + (match[2] ? 0.5 : 0);
+}
+
+/**
+ * 筛选加赛抽选池。
+ * @param songs 候选曲目（songs 表的行）
+ * @param filter 难度、定数范围与分类
+ * @param excludedSongIds 已在本场曲目列表中的曲目 ID
+ * @returns 符合条件的曲目，按 ID 升序
+ */
+export function filterTiebreakerPool(songs: Song[], filter: TiebreakerPoolFilter, excludedSongIds: Iterable<number>): Song[] {
+  const excluded = new Set(excludedSongIds);
+  return songs
+    .filter(song => {
+      if (excluded.has(song.id)) return false;
+      if (filter.categories && filter.categories.length > 0 && !filter.categories.includes(song.category ?? '')) return false;
+
+      let levels: SongLevel;
+      try {
+        levels = song.levels_json ? JSON.parse(song.levels_json) : {};
+      } catch {
+        return false;
+      }
+      const level = parseSongLevel(levels[filter.difficulty]);
+      if (level === null) return false;
+      if (filter.min_level !== undefined && level < filter.min_level) return false;
+      if (filter.max_level !== undefined && level > filter.max_level) return false;
+      return true;
+    })
+    .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * 从 D1 songs 表读取抽选池的候选曲目。分类与难度在 SQL 中初筛，定数范围由 filterTiebreakerPool 检查。
+ * @param db D1 数据库
+ * @param filter 抽选池条件
+ * @returns 候选曲目
+ */
+export async function loadTiebreakerPoolSongs(db: D1Database, filter: TiebreakerPoolFilter): Promise<Song[]> {
+  const whereClauses = ['levels_json LIKE ?'];
+  const params: string[] = [`%"${filter.difficulty}"%`];
+  if (Array.isArray(filter.categories) && filter.categories.length > 0) {
+    whereClauses.push(`category IN (${filter.categories.map(() => '?').join(', ')})`);
+    params.push(...filter.categories);
+  }
+  const { results } = await db.prepare(`SELECT * FROM songs WHERE ${whereClauses.join(' AND ')}`).bind(...params).all<Song>();
+  return results ?? [];
+}
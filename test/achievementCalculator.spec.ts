@@ -0,0 +1,47 @@
+// test/achievementCalculator.spec.ts
+import { describe, it, expect } from 'vitest';
+import { calculateAchievement, difficultyKeyOf, parseChartNoteCounts, validateJudgments } from '../src/utils/achievementCalculator';
+
+const NOTES_JSON = JSON.stringify({ M: { tap: 100, break: 10 } });
+
+describe('parseChartNoteCounts', () => {
+	it('reads one difficulty and fills missing note types with zero', () => {
+		expect(parseChartNoteCounts(NOTES_JSON, difficultyKeyOf('M 13+'))).toEqual({ tap: 100, hold: 0, slide: 0, touch: 0, break: 10 });
+		expect(parseChartNoteCounts(NOTES_JSON, 'R')).toBeNull();
+		expect(parseChartNoteCounts('not json', 'M')).toBeNull();
+	});
+});
+
+describe('calculateAchievement', () => {
+	const noteCounts = parseChartNoteCounts(NOTES_JSON, 'M')!;
+
+	it('gives 101% for an all critical play', () => {
+		const judgments = { tap: { critical: 100 }, break: { critical: 10 } };
+		expect(validateJudgments(noteCounts, judgments)).toBeNull();
+		expect(calculateAchievement(noteCounts, judgments)).toEqual({ achievement_e4: 1010000, percentage: '101.0000' });
+	});
+
+	it('truncates to four decimals', () => {
+		const judgments = { tap: { critical: 99, great: 1 }, break: { critical: 10 } };
+		expect(calculateAchievement(noteCounts, judgments)).toEqual({ achievement_e4: 1008666, percentage: '100.8666' });
+	});
+
+	it('scores break perfect and great sub-tiers', () => {
+		const judgments = { tap: { critical: 100 }, break: { critical: 7, perfect_high: 1, perfect_low: 1, great_60: 1 } };
+		expect(validateJudgments(noteCounts, judgments)).toBeNull();
+		expect(calculateAchievement(noteCounts, judgments)).toEqual({ achievement_e4: 995316, percentage: '99.5316' });
+	});
+});
+
+describe('validateJudgments', () => {
+	const noteCounts = parseChartNoteCounts(NOTES_JSON, 'M')!;
+
+	it('rejects breakdowns that do not match the chart', () => {
+		expect(validateJudgments(noteCounts, { tap: { critical: 99 }, break: { critical: 10 } })).toMatch(/tap judgments add up to 99/);
+		expect(validateJudgments(noteCounts, { tap: { critical: 100 } })).toMatch(/Missing break/);
+		expect(validateJudgments(noteCounts, { tap: { critical: 100 }, break: { critical: 10 }, star: {} } as any)).toMatch(/Unknown note type/);
+		expect(validateJudgments(noteCounts, { tap: { critical: 100.5 }, break: { critical: 10 } })).toMatch(/Invalid tap critical/);
+		expect(validateJudgments(noteCounts, { tap: { critical: 100 }, break: { critical: 9, great: 1 } } as any)).toMatch(/must be split/);
+		expect(validateJudgments(noteCounts, { tap: { critical: 99, great_80: 1 }, break: { critical: 10 } } as any)).toMatch(/Unknown tap judgment/);
+	});
+});
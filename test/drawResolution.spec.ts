@@ -0,0 +1,59 @@
+// test/drawResolution.spec.ts
+import { describe, it, expect } from 'vitest';
+import { evaluateDrawResolution } from '../src/utils/drawResolution';
+import type { MatchSong } from '../src/types';
+
+// A completed song with the given percentages and damage dealt
+const played = (percentages: [number, number], damage: [number, number], is_tiebreaker_song = false): MatchSong => ({
+	song_id: 1,
+	song_title: 'Song',
+	song_difficulty: 'M 13',
+	picker_member_id: null,
+	picker_team_id: null,
+	status: 'completed',
+	is_tiebreaker_song,
+	teamA_percentage: percentages[0],
+	teamB_percentage: percentages[1],
+	teamA_damage_dealt: damage[0],
+	teamB_damage_dealt: damage[1],
+});
+
+const tiedState = (songs: MatchSong[], mirrors: [boolean, boolean] = [false, false]) => ({
+	match_song_list: songs,
+	current_match_song_index: songs.length - 1,
+	teamA_mirror_available: mirrors[0],
+	teamB_mirror_available: mirrors[1],
+});
+
+describe('evaluateDrawResolution', () => {
+	it('allows one tiebreaker song per sudden_death entry', () => {
+		const state = tiedState([played([100, 100], [10, 10])]);
+		expect(evaluateDrawResolution(['sudden_death', 'manual'], state)).toMatchObject({ decided_by: 'sudden_death', outcome: 'sudden_death' });
+
+		const afterTiebreaker = tiedState([played([100, 100], [10, 10]), played([99, 99], [5, 5], true)]);
+		expect(evaluateDrawResolution(['sudden_death', 'manual'], afterTiebreaker)).toMatchObject({ decided_by: 'manual', outcome: 'manual' });
+	});
+
+	it('falls through tied comparisons and records the compared values', () => {
+		const state = tiedState([played([100.1, 100.05], [10, 12]), played([99.9, 99.95], [9, 6])]);
+		expect(evaluateDrawResolution(['total_percentage', 'total_damage', 'manual'], state)).toEqual({
+			round_number_in_match: 2,
+			decided_by: 'total_damage',
+			outcome: 'teamA',
+			steps: [
+				{ strategy: 'total_percentage', teamA_value: 200, teamB_value: 200 },
+				{ strategy: 'total_damage', teamA_value: 19, teamB_value: 18 },
+			],
+		});
+	});
+
+	it('awards the draw to the team that still has its mirror', () => {
+		const state = tiedState([played([100, 100], [10, 10])], [false, true]);
+		expect(evaluateDrawResolution(['mirrors_remaining'], state)).toMatchObject({ decided_by: 'mirrors_remaining', outcome: 'teamB' });
+	});
+
+	it('asks staff when the chain runs out', () => {
+		const state = tiedState([played([100, 100], [10, 10])]);
+		expect(evaluateDrawResolution(['total_damage'], state)).toMatchObject({ decided_by: 'manual', outcome: 'manual' });
+	});
+});
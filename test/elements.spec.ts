@@ -0,0 +1,21 @@
+// test/elements.spec.ts
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ELEMENTAL_RULES, elementOfColor, elementalMultiplier } from '../src/utils/elements';
+
+describe('elementOfColor', () => {
+	it('maps member colors to elements', () => {
+		expect(['red', 'green', 'blue', 'pink', null].map(elementOfColor)).toEqual(['fire', 'wood', 'water', null, null]);
+	});
+});
+
+describe('elementalMultiplier', () => {
+	it('combines the song affinity with the element matchup', () => {
+		expect(elementalMultiplier(DEFAULT_ELEMENTAL_RULES, 'fire', 'attacker', 'fire', 'wood').multiplier).toBe(1.875);
+		expect(elementalMultiplier(DEFAULT_ELEMENTAL_RULES, 'fire', 'supporter', 'wood', 'fire').multiplier).toBeCloseTo(0.6);
+	});
+
+	it('is neutral without a song element and with the same elements', () => {
+		const result = elementalMultiplier(DEFAULT_ELEMENTAL_RULES, null, 'attacker', 'water', 'water');
+		expect(result).toEqual({ multiplier: 1, effects: [] });
+	});
+});
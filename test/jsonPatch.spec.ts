@@ -0,0 +1,40 @@
+// test/jsonPatch.spec.ts
+import { describe, it, expect } from 'vitest';
+import { diffJson, applyJsonPatch } from '../src/utils/jsonPatch';
+
+describe('diffJson', () => {
+	it('returns no operations for equal documents', () => {
+		expect(diffJson({ a: 1, b: [1, 2], c: { d: null } }, { a: 1, b: [1, 2], c: { d: null } })).toEqual([]);
+	});
+
+	it('produces add, remove and replace operations', () => {
+		const before = { status: 'pending_scores', teamA_score: 100, roundSummary: { round: 1 }, current_song: { title: 'A' } };
+		const after = { status: 'round_finished', teamA_score: 94, roundSummary: null, current_song: { title: 'A', teamA_percentage: 100.5 } };
+		expect(diffJson(before, after)).toEqual([
+			{ op: 'replace', path: '/status', value: 'round_finished' },
+			{ op: 'replace', path: '/teamA_score', value: 94 },
+			{ op: 'replace', path: '/roundSummary', value: null },
+			{ op: 'add', path: '/current_song/teamA_percentage', value: 100.5 },
+		]);
+		expect(diffJson({ a: 1, b: 2 }, { a: 1, b: undefined })).toEqual([{ op: 'remove', path: '/b' }]);
+	});
+
+	it('escapes keys and replaces arrays whose length changed', () => {
+		expect(diffJson({ 'a/b': 1, '~c': 1 }, { 'a/b': 2, '~c': 2 })).toEqual([
+			{ op: 'replace', path: '/a~1b', value: 2 },
+			{ op: 'replace', path: '/~0c', value: 2 },
+		]);
+		expect(diffJson({ list: [1, 2] }, { list: [1, 2, 3] })).toEqual([{ op: 'replace', path: '/list', value: [1, 2, 3] }]);
+		expect(diffJson({ list: [{ x: 1 }, { x: 2 }] }, { list: [{ x: 1 }, { x: 3 }] })).toEqual([{ op: 'replace', path: '/list/1/x', value: 3 }]);
+	});
+});
+
+describe('applyJsonPatch', () => {
+	it('turns the old document into the new one without mutating it', () => {
+		const before = { status: 'pending_scores', scores: [100, 100], song: { title: 'A', 'a/b': 1 }, removed: true };
+		const after = { status: 'round_finished', scores: [94, 59], song: { title: 'B', 'a/b': 2, level: 13 }, added: { x: [1] } };
+		const ops = diffJson(before, after);
+		expect(applyJsonPatch(before, ops)).toEqual(after);
+		expect(before.status).toBe('pending_scores');
+	});
+});
@@ -0,0 +1,187 @@
+// test/matchDo.spec.ts
+import { env, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { MatchRuleset, MatchScheduleData, MatchSong, Member } from '../src/types';
+import { DEFAULT_RULESET } from '../src/utils/roundEngine';
+
+// Every test gets its own MatchDO, storage is shared across the run
+const freshMatchDO = () => env.MATCH_DO.get(env.MATCH_DO.newUniqueId());
+
+const member = (id: number, teamCode: string): Member => ({ id, team_code: teamCode, nickname: `P${id}`, kinde_user_id: `user-${id}`, is_admin: 0 });
+
+const song = (index: number): MatchSong => ({
+	song_id: index + 1,
+	song_title: `Song ${index + 1}`,
+	song_difficulty: 'M 13',
+	picker_type: 'member',
+	picker_member_id: null,
+	picker_team_id: null,
+	status: 'pending',
+});
+
+// The test D1 database has no tables: these tests check the DO's own state, not what reaches D1
+const schedule = (ruleset: Partial<MatchRuleset> = {}): MatchScheduleData => ({
+	tournamentMatchId: 1,
+	round_name: 'Test',
+	team1_id: 1,
+	team2_id: 2,
+	team1_name: 'Team A',
+	team2_name: 'Team B',
+	team1_members: [member(11, 'A'), member(12, 'A'), member(13, 'A')],
+	team2_members: [member(21, 'B'), member(22, 'B'), member(23, 'B')],
+	team1_player_order_ids: [11, 12, 13],
+	team2_player_order_ids: [21, 22, 23],
+	match_song_list: Array.from({ length: 6 }, (_, index) => song(index)),
+	ruleset: { ...DEFAULT_RULESET, ...ruleset },
+});
+
+const post = async (stub: DurableObjectStub, path: string, body: unknown = {}, headers: Record<string, string> = {}) => {
+	const response = await stub.fetch(`http://do${path}`, { method: 'POST', body: JSON.stringify(body), headers });
+	return { status: response.status, body: await response.json<any>() };
+};
+
+// Calculates the current round and moves on to the next one while the match continues
+const playRound = async (stub: DurableObjectStub, teamA_percentage: string, teamB_percentage: string) => {
+	const result = await post(stub, '/internal/calculate-round', { teamA_percentage, teamB_percentage });
+	expect(result.body).toMatchObject({ success: true });
+	if (result.body.roundSummary.teamA_health_after > 0 && result.body.roundSummary.teamB_health_after > 0) {
+		await post(stub, '/internal/next-round');
+	}
+	return result.body.roundSummary;
+};
+
+describe('MatchDO WebSocket upgrades', () => {
+	it('rejects an unauthenticated staff connection without accepting a socket', async () => {
+		const stub = freshMatchDO();
+		const response = await stub.fetch('http://do/websocket?role=staff', { headers: { Upgrade: 'websocket' } });
+		expect(response.status).toBe(401);
+		await runInDurableObject(stub, async (instance, state) => {
+			expect(state.getWebSockets()).toHaveLength(0);
+		});
+	});
+});
+
+// Opens a WebSocket to the match and collects every message it receives
+const connect = async (stub: DurableObjectStub, query = '', headers: Record<string, string> = {}) => {
+	const response = await stub.fetch(`http://do/websocket${query}`, { headers: { Upgrade: 'websocket', ...headers } });
+	const ws = response.webSocket!;
+	const messages: string[] = [];
+	ws.addEventListener('message', event => messages.push(event.data as string));
+	ws.accept();
+	return messages;
+};
+
+describe('MatchDO dual entry', () => {
+	it('never sends a referee entry to spectators', async () => {
+		const stub = freshMatchDO();
+		expect((await post(stub, '/internal/initialize-from-schedule', schedule({ dual_entry: true }))).body.success).toBe(true);
+		const spectator = await connect(stub);
+		const referee = await connect(stub, '?role=staff', { 'X-Staff-Kinde-User-Id': 'referee-1' });
+
+		const first = await post(stub, '/internal/calculate-round', { teamA_percentage: '99.1234', teamB_percentage: '98.4321' }, { 'X-Staff-Kinde-User-Id': 'referee-1' });
+		expect(first.body).toMatchObject({ success: true, pending_confirmation: true });
+		const second = await post(stub, '/internal/calculate-round', { teamA_percentage: '99.1235', teamB_percentage: '98.4321' }, { 'X-Staff-Kinde-User-Id': 'referee-2' });
+		expect(second.status).toBe(409);
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const state = await (await stub.fetch('http://do/state')).json<any>();
+		expect(state.score_entries).toBeUndefined();
+		expect(state.score_entry_conflict).toBeUndefined();
+		expect(state.score_entries_received).toBe(2);
+		expect(spectator.length).toBeGreaterThan(0);
+		for (const message of spectator) {
+			expect(message).not.toMatch(/99\.123|98\.4321|score_entry_conflict/);
+		}
+		expect(referee.some(message => JSON.parse(message).type === 'score_entry_conflict')).toBe(true);
+	});
+});
+
+describe('MatchDO event log', () => {
+	it('replays the stored log into the current state', async () => {
+		const stub = freshMatchDO();
+		expect((await post(stub, '/internal/initialize-from-schedule', schedule())).body.success).toBe(true);
+		const staff = { 'X-Staff-Kinde-User-Id': 'staff-1' };
+
+		await playRound(stub, '100.1111', '99.4321');
+		expect((await post(stub, '/internal/issue-penalty', { team: 'teamB', category: 'lateness', amount: -3, reason: 'Late', scope: 'match' }, staff)).body.success).toBe(true);
+		expect((await post(stub, '/internal/change-lineup', { team: 'teamA', from_round: 2, player_order_ids: [12, 11, 13] })).body.success).toBe(true);
+		await playRound(stub, '100.2345', '100.5000');
+		expect((await post(stub, '/internal/amend-round', { round_number_in_match: 1, teamA_percentage: '99.9999', teamB_percentage: '99.4321' })).body.success).toBe(true);
+		expect((await post(stub, '/internal/issue-penalty', { team: 'teamA', category: 'bonus', amount: 2, reason: 'Fair play', scope: 'round', round_number_in_match: 2 }, staff)).body.success).toBe(true);
+		expect((await post(stub, '/internal/pause', { reason: 'Controller' })).body.success).toBe(true);
+		expect((await post(stub, '/internal/resume')).body.success).toBe(true);
+		await playRound(stub, '100.7777', '98.0001');
+		expect((await post(stub, '/internal/undo-round')).body.success).toBe(true);
+		await playRound(stub, '100.7776', '98.0001');
+
+		const { body } = await post(stub, '/internal/replay-events');
+		expect(body.success).toBe(true);
+		expect(body.replay.state.teamA_score).toBeLessThan(100);
+		expect(body.replay.differences_from_current).toEqual([]);
+	});
+
+	it('replays song timers, including a paused timer and the referee flag of an expired one', async () => {
+		const stub = freshMatchDO();
+		expect((await post(stub, '/internal/initialize-from-schedule', schedule())).body.success).toBe(true);
+
+		expect((await post(stub, '/internal/start-timer', { phase: 'play', duration_seconds: 120 })).body.success).toBe(true);
+		expect((await post(stub, '/internal/pause', { reason: 'Controller' })).body.success).toBe(true);
+		expect((await post(stub, '/internal/resume')).body.success).toBe(true);
+		expect((await post(stub, '/internal/replay-events')).body.replay.differences_from_current).toEqual([]);
+
+		expect((await post(stub, '/internal/stop-timer')).body.success).toBe(true);
+		expect((await post(stub, '/internal/start-timer', { phase: 'score_entry', duration_seconds: 1 })).body.success).toBe(true);
+		await new Promise(resolve => setTimeout(resolve, 1100));
+		await runDurableObjectAlarm(stub);
+
+		const state = await (await stub.fetch('http://do/state')).json<any>();
+		expect(state.referee_attention).toMatchObject({ reason: 'timer_expired', phase: 'score_entry', round_number_in_match: 1 });
+		const { events } = await (await stub.fetch('http://do/internal/events')).json<any>();
+		expect(events.map((event: any) => event.type)).toEqual(['initialize', 'start-timer', 'pause', 'resume', 'stop-timer', 'start-timer', 'timer-expired']);
+		expect((await post(stub, '/internal/replay-events')).body.replay.differences_from_current).toEqual([]);
+	});
+});
+
+describe('MatchDO round amendments', () => {
+	it('ends the match early when an amended round knocks a team out', async () => {
+		const stub = freshMatchDO();
+		expect((await post(stub, '/internal/initialize-from-schedule', schedule({ initial_health: 40 }))).body.success).toBe(true);
+		await playRound(stub, '100.1111', '100.1111');
+		await playRound(stub, '100.1111', '90.0000');
+		await playRound(stub, '100.1111', '100.1111');
+
+		// Round 1 amended to a much bigger hit on team A: team A is now knocked out in round 2
+		const { body } = await post(stub, '/internal/amend-round', { round_number_in_match: 1, teamA_percentage: '100.1111', teamB_percentage: '0.0000' });
+		expect(body.success).toBe(true);
+		expect(body.amendment.rounds.map((round: any) => [round.round_number_in_match, round.outcome])).toEqual([[1, 'recalculated'], [2, 'recalculated'], [3, 'invalidated']]);
+		expect(body.amendment.final_changes.status).toEqual({ before: 'pending_scores', after: 'team_B_wins' });
+
+		const state = await (await stub.fetch('http://do/state')).json<any>();
+		expect(state).toMatchObject({ status: 'team_B_wins', current_match_song_index: 1 });
+		expect(state.teamA_score).toBeLessThanOrEqual(0);
+		expect(state.teamB_score).toBeGreaterThan(0);
+		expect((await post(stub, '/internal/replay-events')).body.replay.differences_from_current).toEqual([]);
+	});
+});
+
+describe('MatchDO D1 outbox', () => {
+	it('dead-letters an entry that keeps failing and lets an admin discard it', async () => {
+		const stub = freshMatchDO();
+		expect((await post(stub, '/internal/initialize-from-schedule', schedule())).body.success).toBe(true);
+		// The test D1 database has no tables, so the round's history write fails every time
+		await playRound(stub, '100.1111', '99.4321');
+
+		let outbox = (await post(stub, '/internal/outbox')).body;
+		for (let attempt = 0; attempt < 20 && outbox.pending > 0; attempt++) {
+			outbox = (await post(stub, '/internal/outbox')).body;
+		}
+		expect(outbox).toMatchObject({ success: true, pending: 0, dead_lettered: 1 });
+		const [entry] = outbox.entries;
+		expect(entry.dead_lettered_at).toBeTruthy();
+
+		// A retried entry is back in the queue with fresh attempts
+		expect((await post(stub, '/internal/outbox', { action: 'retry', id: entry.id })).body).toMatchObject({ pending: 1, dead_lettered: 0 });
+		expect((await post(stub, '/internal/outbox', { action: 'discard', id: entry.id })).body).toMatchObject({ success: true, pending: 0, dead_lettered: 0 });
+		expect((await post(stub, '/internal/outbox', { action: 'discard', id: entry.id })).status).toBe(400);
+	});
+});
@@ -0,0 +1,51 @@
+// test/penalties.spec.ts
+import { describe, it, expect } from 'vitest';
+import { legacyEffectPenalties, penaltyPayloadError, penaltyTotal } from '../src/utils/penalties';
+import type { IssuePenaltyPayload } from '../src/types';
+
+const payload = (overrides: Partial<IssuePenaltyPayload>): IssuePenaltyPayload => ({
+	team: 'teamA',
+	category: 'lateness',
+	amount: -5,
+	reason: 'Late for warmup',
+	scope: 'round',
+	...overrides,
+});
+
+describe('penaltyPayloadError', () => {
+	it('accepts a typed penalty or bonus', () => {
+		expect(penaltyPayloadError(payload({}))).toBeNull();
+		expect(penaltyPayloadError(payload({ category: 'bonus', amount: 3, scope: 'match' }))).toBeNull();
+		expect(penaltyPayloadError(payload({ category: 'scoring_correction', amount: 2, round_number_in_match: 3 }))).toBeNull();
+	});
+
+	it('rejects invalid fields and amounts against the category', () => {
+		expect(penaltyPayloadError(payload({ category: 'typo' as any }))).toMatch(/category/);
+		expect(penaltyPayloadError(payload({ amount: 0 }))).toMatch(/non-zero/);
+		expect(penaltyPayloadError(payload({ amount: 5 }))).toMatch(/lower health/);
+		expect(penaltyPayloadError(payload({ category: 'bonus', amount: -1 }))).toMatch(/raise health/);
+		expect(penaltyPayloadError(payload({ reason: '  ' }))).toMatch(/reason/);
+		expect(penaltyPayloadError(payload({ scope: 'match', round_number_in_match: 2 }))).toMatch(/round penalties/);
+		expect(penaltyPayloadError(payload({ round_number_in_match: 0 }))).toMatch(/round number/);
+	});
+});
+
+describe('penaltyTotal', () => {
+	it('sums the amounts of one team', () => {
+		const penalties = [
+			...legacyEffectPenalties(1, -5, 2, '2026-10-19T00:00:00.000Z'),
+			...legacyEffectPenalties(2, -1.5, 0, '2026-10-19T00:00:00.000Z'),
+		];
+		expect(penaltyTotal(penalties, 'teamA')).toBe(-6.5);
+		expect(penaltyTotal(penalties, 'teamB')).toBe(2);
+	});
+});
+
+describe('legacyEffectPenalties', () => {
+	it('converts non-zero effect values only', () => {
+		expect(legacyEffectPenalties(3, 0, undefined, 'now')).toEqual([]);
+		expect(legacyEffectPenalties(3, -4, 0, 'now')).toEqual([
+			{ id: 'legacy-3-teamA', team: 'teamA', category: 'other', amount: -4, reason: '小分调整', scope: 'round', round_number_in_match: 3, issued_by: null, issued_at: 'now' },
+		]);
+	});
+});
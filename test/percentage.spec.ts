@@ -0,0 +1,31 @@
+// test/percentage.spec.ts
+import { describe, it, expect } from 'vitest';
+import { canonicalPercentage, percentageDigits, percentageError, percentageToE4 } from '../src/utils/percentage';
+import { DEFAULT_RULESET, parseDamageDigits } from '../src/utils/roundEngine';
+
+describe('percentageToE4', () => {
+	it('parses strings and numbers by their decimal digits', () => {
+		expect(percentageToE4('100.4995')).toBe(1004995);
+		expect(percentageToE4(100.4995)).toBe(1004995);
+		expect(percentageToE4('99.5')).toBe(995000);
+		expect(canonicalPercentage(0.0001)).toBe('0.0001');
+		expect(canonicalPercentage('101')).toBe('101.0000');
+	});
+
+	it('rejects values outside 0–101.0000 or with more than 4 decimals', () => {
+		expect(percentageError('101.0001')).toMatch(/outside/);
+		expect(percentageError(-0.5)).toMatch(/outside/);
+		expect(percentageError(100.49949999)).toMatch(/more than 4 decimal places/);
+		expect(percentageError('abc')).toMatch(/not a decimal number/);
+		expect(percentageError(undefined)).toMatch(/must be a decimal string/);
+		expect(percentageError('0.0000')).toBeNull();
+	});
+});
+
+describe('parseDamageDigits', () => {
+	it('takes the four decimal digits exactly', () => {
+		expect(percentageDigits(1004995)).toEqual([4, 9, 9, 5]);
+		expect(parseDamageDigits('100.4995', DEFAULT_RULESET)).toEqual([4, 9, 9, 5]);
+		expect(parseDamageDigits('100.5', DEFAULT_RULESET)).toEqual([5, 10, 10, 10]);
+	});
+});
@@ -0,0 +1,42 @@
+// test/playerRotation.spec.ts
+import { describe, it, expect } from 'vitest';
+import { rotationSlot, songPickOrder } from '../src/utils/playerRotation';
+import type { PlayerRotation } from '../src/types';
+
+const slots = (rotation: PlayerRotation, rounds: number, playerCount: number, songsPerPlayer = 2) =>
+	Array.from({ length: rounds }, (_, roundIndex) => rotationSlot(rotation, roundIndex, playerCount, songsPerPlayer));
+
+describe('rotationSlot', () => {
+	it('cycles through the order', () => {
+		expect(slots('cycle', 6, 3)).toEqual([0, 1, 2, 0, 1, 2]);
+		expect(slots('cycle', 4, 2)).toEqual([0, 1, 0, 1]);
+	});
+
+	it('snakes back through the order', () => {
+		expect(slots('snake', 8, 3)).toEqual([0, 1, 2, 2, 1, 0, 0, 1]);
+		expect(slots('snake', 4, 1)).toEqual([0, 0, 0, 0]);
+	});
+
+	it('plays each player songs_per_player rounds in a row', () => {
+		expect(slots('block', 8, 4, 2)).toEqual([0, 0, 1, 1, 2, 2, 3, 3]);
+		expect(slots('block', 4, 2, 1)).toEqual([0, 1, 0, 1]);
+	});
+
+	it('has no slot without players', () => {
+		expect(rotationSlot('cycle', 0, 0, 2)).toBeNull();
+	});
+});
+
+describe('songPickOrder', () => {
+	const picks = (rotation: PlayerRotation, teamSize: number, songsPerPlayer: number) =>
+		songPickOrder(rotation, teamSize, songsPerPlayer).map(pick => `${'AB'[pick.team]}${pick.slot}.${pick.songSlot}`);
+
+	it('has each round picked by the player on stage', () => {
+		expect(picks('cycle', 3, 2)).toEqual(['A0.1', 'B1.1', 'A2.1', 'B0.1', 'A1.1', 'B2.1', 'A0.2', 'B1.2', 'A2.2', 'B0.2', 'A1.2', 'B2.2']);
+		expect(picks('block', 2, 2)).toEqual(['A0.1', 'B0.1', 'A1.1', 'B1.1', 'A0.2', 'B0.2', 'A1.2', 'B1.2']);
+	});
+
+	it('falls back to the first player with songs left', () => {
+		expect(picks('cycle', 2, 2)).toEqual(['A0.1', 'B1.1', 'A0.2', 'B1.2', 'A1.1', 'B0.1', 'A1.2', 'B0.2']);
+	});
+});
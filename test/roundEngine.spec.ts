@@ -0,0 +1,181 @@
+// test/roundEngine.spec.ts
+import { describe, it, expect } from 'vitest';
+import { calculateRound, previewRound, parseDamageDigits, resolveRuleset, DEFAULT_RULESET } from '../src/utils/roundEngine';
+import type { Penalty, RoundEngineInput } from '../src/types';
+
+// Builds the input of a round with both teams at full health and mirrors available
+const roundInput = (overrides: Partial<RoundEngineInput>): RoundEngineInput => ({
+	round_number_in_match: 1,
+	song: null,
+	teamA_player_id: 1,
+	teamB_player_id: 2,
+	teamA_profession: null,
+	teamB_profession: null,
+	teamA_health: 100,
+	teamB_health: 100,
+	teamA_mirror_available: true,
+	teamB_mirror_available: true,
+	scores: { teamA_percentage: 100, teamB_percentage: 100 },
+	...overrides,
+});
+
+// Fails the test if the engine falls back to Math.random
+const noRandom = () => {
+	throw new Error('unexpected random call');
+};
+
+describe('parseDamageDigits', () => {
+	it('maps 0 digits to max_damage_digit', () => {
+		expect(parseDamageDigits(100.5, DEFAULT_RULESET)).toEqual([5, 10, 10, 10]);
+		expect(parseDamageDigits(99.1234, DEFAULT_RULESET)).toEqual([1, 2, 3, 4]);
+		expect(parseDamageDigits(100, { ...DEFAULT_RULESET, max_damage_digit: 12 })).toEqual([12, 12, 12, 12]);
+	});
+});
+
+describe('resolveRuleset', () => {
+	it('fills missing or invalid fields from the default ruleset', () => {
+		expect(resolveRuleset(null)).toEqual(DEFAULT_RULESET);
+		expect(resolveRuleset({ initial_health: 120, standard_rounds_count: 'x' as any })).toEqual({ ...DEFAULT_RULESET, initial_health: 120 });
+		expect(resolveRuleset({ draw_resolution: ['total_damage', 'coin_flip' as any] }).draw_resolution).toEqual(DEFAULT_RULESET.draw_resolution);
+		expect(resolveRuleset({ draw_resolution: ['total_damage', 'manual'] }).draw_resolution).toEqual(['total_damage', 'manual']);
+		expect(resolveRuleset({ team_size: 2, rotation: 'snake' })).toEqual({ ...DEFAULT_RULESET, team_size: 2, rotation: 'snake' });
+		expect(resolveRuleset({ rotation: 'random' as any }).rotation).toBe('cycle');
+		expect(resolveRuleset({ dual_entry: true }).dual_entry).toBe(true);
+		expect(resolveRuleset({ dual_entry: 'yes' as any }).dual_entry).toBe(false);
+	});
+});
+
+describe('calculateRound golden vectors', () => {
+	it('attacker vs supporter', () => {
+		const result = calculateRound(
+			DEFAULT_RULESET,
+			roundInput({ teamA_profession: 'attacker', teamB_profession: 'supporter', scores: { teamA_percentage: 100.5, teamB_percentage: 99.1234 } }),
+			noRandom
+		);
+		expect(result.summary.teamA_final_damage_dealt).toBe(45);
+		expect(result.summary.teamB_final_damage_dealt).toBe(6);
+		expect(result.summary.teamA_health_after).toBe(94);
+		expect(result.summary.teamB_health_after).toBe(59);
+		expect(result.status).toBe('round_finished');
+		expect(result.match_ended).toBe(false);
+	});
+
+	it('defender blocks the digit picked by the seeded roll', () => {
+		const result = calculateRound(
+			DEFAULT_RULESET,
+			roundInput({
+				teamA_profession: 'defender',
+				teamB_profession: 'attacker',
+				scores: { teamA_percentage: 100, teamB_percentage: 100.1234 },
+				defender_rolls: { teamA: { label: 'round:1:teamA', roll: 7 }, teamB: { label: 'round:1:teamB', roll: 0 } },
+			}),
+			noRandom
+		);
+		// Targets are B's digits [1, 2, 3, 4] plus the attacker bonus 4; 7 % 5 = 2
+		expect(result.summary.teamA_defender_target_index).toBe(2);
+		expect(result.summary.teamA_defender_roll).toEqual({ label: 'round:1:teamA', roll: 7 });
+		expect(result.summary.teamA_health_after).toBe(89);
+		expect(result.summary.teamB_health_after).toBe(60);
+	});
+
+	it('mirror restores health to the ruleset value', () => {
+		const result = calculateRound(
+			{ ...DEFAULT_RULESET, mirror_health_restore: 30 },
+			roundInput({ teamA_health: 50, teamB_health: 10, scores: { teamA_percentage: 100, teamB_percentage: 99.1111 } }),
+			noRandom
+		);
+		expect(result.summary.teamB_mirror_triggered).toBe(true);
+		expect(result.summary.teamB_health_after).toBe(30);
+		expect(result.summary.teamA_health_after).toBe(46);
+		expect(result.teamB_mirror_available).toBe(false);
+		expect(result.teamA_mirror_available).toBe(true);
+	});
+
+	it('a tie after the last standard round needs a tiebreaker', () => {
+		const input = roundInput({ round_number_in_match: 6, teamA_health: 50, teamB_health: 50, scores: { teamA_percentage: 99.1111, teamB_percentage: 99.1111 } });
+		expect(calculateRound(DEFAULT_RULESET, input, noRandom).status).toBe('tiebreaker_pending_song');
+		expect(calculateRound({ ...DEFAULT_RULESET, standard_rounds_count: 7 }, input, noRandom).status).toBe('round_finished');
+	});
+
+	it('applies element multipliers after profession skills in elemental stages', () => {
+		const song = { song_id: 1, song_title: 'Song', song_difficulty: 'M 13', song_element: 'fire' as const, picker_member_id: null, picker_team_id: null, status: 'ongoing' as const };
+		const input = roundInput({
+			song,
+			teamA_profession: 'attacker',
+			teamB_profession: 'supporter',
+			teamA_element: 'fire',
+			teamB_element: 'wood',
+			scores: { teamA_percentage: 100.5, teamB_percentage: 99.1234 },
+		});
+		// Elements are ignored unless the ruleset enables them
+		expect(calculateRound(DEFAULT_RULESET, input, noRandom).summary.teamA_final_damage_dealt).toBe(45);
+
+		const result = calculateRound(resolveRuleset({ elemental: {} as any }), input, noRandom);
+		expect(result.summary.teamA_elemental_multiplier).toBe(1.875);
+		expect(result.summary.teamA_final_damage_dealt).toBe(84);
+		expect(result.summary.teamB_final_damage_dealt).toBe(4);
+		expect(result.summary.teamA_health_after).toBe(96);
+		expect(result.summary.teamB_health_after).toBe(20);
+	});
+
+	it('a tiebreaker song is sudden death', () => {
+		const song = { song_id: 1, song_title: 'Song', song_difficulty: 'M 13', picker_member_id: null, picker_team_id: null, status: 'ongoing' as const, is_tiebreaker_song: true };
+		const lead = roundInput({ round_number_in_match: 7, song, teamA_health: 50, teamB_health: 50, scores: { teamA_percentage: 99.1111, teamB_percentage: 99.1112 } });
+		const result = calculateRound(DEFAULT_RULESET, lead, noRandom);
+		expect(result.status).toBe('team_B_wins');
+		expect(result.match_ended).toBe(true);
+
+		const tie = roundInput({ round_number_in_match: 7, song, teamA_health: 50, teamB_health: 50, scores: { teamA_percentage: 99.1111, teamB_percentage: 99.1111 } });
+		expect(calculateRound(DEFAULT_RULESET, tie, noRandom).status).toBe('tiebreaker_pending_song');
+	});
+});
+
+describe('previewRound', () => {
+	it('is deterministic without defenders', () => {
+		const preview = previewRound(DEFAULT_RULESET, roundInput({ scores: { teamA_percentage: 100.5, teamB_percentage: 99.1234 } }));
+		expect(preview.deterministic).toBe(true);
+		expect(preview.distribution).toHaveLength(1);
+		expect(preview.distribution[0].probability).toBe(1);
+	});
+
+	it('enumerates every defender pick', () => {
+		const preview = previewRound(
+			DEFAULT_RULESET,
+			roundInput({ teamA_profession: 'defender', teamB_profession: 'attacker', scores: { teamA_percentage: 100, teamB_percentage: 100.1234 } })
+		);
+		// B's targets are [1, 2, 3, 4, 4]: A ends at 87, 88, 89 or 90 (twice)
+		expect(preview.outcomes.map((outcome) => outcome.summary.teamA_health_after)).toEqual([87, 88, 89, 90, 90]);
+		expect(preview.distribution[0]).toMatchObject({ teamA_health_after: 90, probability: 0.4, outcome_count: 2 });
+		expect(preview.distribution.reduce((sum, group) => sum + group.probability, 0)).toBeCloseTo(1);
+	});
+});
+
+describe('calculateRound penalties', () => {
+	it('applies the round penalties at step 8 and lists them in the summary', () => {
+		const penalty = (team: 'teamA' | 'teamB', category: Penalty['category'], amount: number, scope: Penalty['scope'] = 'round'): Penalty => ({
+			id: `${team}-${category}`,
+			team,
+			category,
+			amount,
+			reason: 'test',
+			scope,
+			round_number_in_match: 1,
+			issued_by: 'staff',
+			issued_at: '2026-10-19T00:00:00.000Z',
+		});
+		const penalties = [penalty('teamA', 'lateness', -5), penalty('teamA', 'misconduct', -2, 'match'), penalty('teamB', 'bonus', 3)];
+		const result = calculateRound(DEFAULT_RULESET, roundInput({ penalties }), noRandom);
+		expect(result.summary.teamA_health_after).toBe(53);
+		expect(result.summary.teamB_health_after).toBe(63);
+		expect(result.summary.teamA_effect_value_applied).toBe(-7);
+		expect(result.summary.teamB_effect_value_applied).toBe(3);
+		expect(result.summary.penalties).toEqual(penalties);
+	});
+
+	it('leaves penalties out of the summary when there are none', () => {
+		const result = calculateRound(DEFAULT_RULESET, roundInput({}), noRandom);
+		expect(result.summary.teamA_health_after).toBe(60);
+		expect(result.summary.teamA_effect_value_applied).toBe(0);
+		expect(result.summary).not.toHaveProperty('penalties');
+	});
+});
@@ -0,0 +1,28 @@
+// test/tiebreakerPool.spec.ts
+import { describe, it, expect } from 'vitest';
+import { parseSongLevel, filterTiebreakerPool } from '../src/utils/tiebreakerPool';
+import type { Song } from '../src/types';
+
+const song = (id: number, levels: Record<string, string>, category = 'original'): Song => ({ id, title: `Song ${id}`, category, levels_json: JSON.stringify(levels) });
+
+describe('parseSongLevel', () => {
+	it('counts a plus level as half a level higher', () => {
+		expect(parseSongLevel('13')).toBe(13);
+		expect(parseSongLevel('13+')).toBe(13.5);
+		expect(parseSongLevel('??')).toBeNull();
+		expect(parseSongLevel(undefined)).toBeNull();
+	});
+});
+
+describe('filterTiebreakerPool', () => {
+	const songs = [song(5, { M: '14' }), song(2, { M: '13+' }), song(3, { E: '13' }), song(4, { M: '13' }, 'niconico'), song(1, { M: '12+' })];
+
+	it('filters by difficulty, level range and category, sorted by id', () => {
+		expect(filterTiebreakerPool(songs, { difficulty: 'M', min_level: 13, max_level: 14 }, []).map((s) => s.id)).toEqual([2, 4, 5]);
+		expect(filterTiebreakerPool(songs, { difficulty: 'M', categories: ['original'] }, []).map((s) => s.id)).toEqual([1, 2, 5]);
+	});
+
+	it('excludes songs already in the match', () => {
+		expect(filterTiebreakerPool(songs, { difficulty: 'M', min_level: 13 }, [2, 5]).map((s) => s.id)).toEqual([4]);
+	});
+});
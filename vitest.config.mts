@@ -5,6 +5,9 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// SQLite-backed Durable Objects cannot use isolated storage; DO tests use a fresh object per test instead
+				isolatedStorage: false,
+				singleWorker: true,
 			},
 		},
 	},